@@ -0,0 +1,315 @@
+import { Vector } from '../math/Vector';
+import { InteractionRule } from './Species';
+
+/**
+ * Summary of a boid's local flockmates, gathered in one pass and shared by
+ * the separation, alignment and cohesion rules. Each rule keeps its own
+ * count because species interactions can exclude a neighbor from some rules.
+ */
+export interface NeighborStats<V> {
+  separation: V; // Sum of distance-weighted vectors pointing away from neighbors
+  separation_count: number;
+  velocity_sum: V;
+  alignment_count: number;
+  position_sum: V;
+  cohesion_count: number;
+}
+
+/**
+ * Optional limits on which flockmates a boid perceives
+ */
+export interface PerceptionLimits {
+  separation_radius: number; // Alignment and cohesion use the perception radius
+  view_angle: number; // Full width of the view cone in radians; 2π sees all around
+}
+
+/**
+ * Agent - Physics and flocking rules for a boid in any number of
+ * dimensions. Boid (2D) and Boid3D extend it with their vector type and
+ * their own edge handling, so both modes run exactly the same rule code.
+ */
+export abstract class Agent<V extends Vector<V>> {
+  position: V;
+  velocity: V;
+  acceleration: V;
+  max_speed: number = 4;
+  max_force: number = 0.2;
+
+  // Index into the simulation's species
+  species: number = 0;
+
+  // Position before the last update, used to interpolate between steps
+  previous_position: V;
+
+  constructor(position: V, velocity: V) {
+    this.position = position;
+    this.previous_position = position.copy();
+    this.velocity = velocity;
+    this.acceleration = this.zero();
+  }
+
+  /**
+   * A new zero vector of the agent's vector type
+   */
+  protected abstract zero(): V;
+
+  /**
+   * Apply a force to the boid's acceleration
+   * F = ma, so a += F/m (assuming mass = 1)
+   */
+  applyForce(force: V): void {
+    this.acceleration.add(force);
+  }
+
+  /**
+   * Update position and velocity based on acceleration
+   * Velocity changes by acceleration, position changes by velocity
+   */
+  update(): void {
+    // Remember where this step started
+    this.previous_position = this.position.copy();
+
+    // Limit acceleration
+    this.acceleration.limit(this.max_force);
+
+    // Update velocity
+    this.velocity.add(this.acceleration);
+    this.velocity.limit(this.max_speed);
+
+    // Update position
+    this.position.add(this.velocity);
+
+    // Reset acceleration to 0 each cycle
+    this.acceleration.mult(0);
+  }
+
+  /**
+   * Gather everything the three flocking rules need in a single pass over
+   * the candidate flockmates, so distances are only computed once per pair.
+   * `interactions[s]` says which rules apply to neighbors of species `s`;
+   * when omitted (or missing for a species) every rule applies.
+   * `limits` narrows perception to a view cone and gives separation its own
+   * radius; without it the boid sees all around within `perception_radius`.
+   * Flockmates counted by at least one rule are added to `counted` if given.
+   */
+  gatherNeighbors<A extends Agent<V>>(
+    boids: A[],
+    perception_radius: number,
+    interactions?: InteractionRule[],
+    limits?: PerceptionLimits,
+    counted?: A[]
+  ): NeighborStats<V> {
+    const separation_radius = limits ? limits.separation_radius : perception_radius;
+    const view_angle = limits ? limits.view_angle : Math.PI * 2;
+    const stats: NeighborStats<V> = {
+      separation: this.zero(),
+      separation_count: 0,
+      velocity_sum: this.zero(),
+      alignment_count: 0,
+      position_sum: this.zero(),
+      cohesion_count: 0,
+    };
+
+    for (const other of boids) {
+      const d = this.position.dist(other.position);
+
+      // Skip the boid itself, anything out of range, and anything behind it
+      const in_separation = d < separation_radius;
+      const in_perception = d < perception_radius;
+      if (d > 0 && (in_separation || in_perception) && this.inView(other.position, view_angle)) {
+        const rule = interactions?.[other.species];
+        const separates = in_separation && (!rule || rule.separation);
+        const aligns = in_perception && (!rule || rule.alignment);
+        const coheres = in_perception && (!rule || rule.cohesion);
+
+        if (separates) {
+          // Calculate vector pointing away from neighbor
+          const diff = this.position.copy().sub(other.position);
+          diff.normalize();
+          diff.mult(1 / d); // Weight by distance
+          stats.separation.add(diff);
+          stats.separation_count++;
+        }
+
+        if (aligns) {
+          stats.velocity_sum.add(other.velocity);
+          stats.alignment_count++;
+        }
+
+        if (coheres) {
+          stats.position_sum.add(other.position);
+          stats.cohesion_count++;
+        }
+
+        if (counted && (separates || aligns || coheres)) counted.push(other);
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * The `k` nearest other boids inside the view cone, closest first
+   * (topological neighbors, regardless of distance)
+   */
+  nearestNeighbors<A extends Agent<V>>(
+    boids: A[],
+    k: number,
+    view_angle: number = Math.PI * 2
+  ): A[] {
+    const candidates: { boid: A; d: number }[] = [];
+
+    for (const other of boids) {
+      const d = this.position.dist(other.position);
+      if (d > 0 && this.inView(other.position, view_angle)) {
+        candidates.push({ boid: other, d });
+      }
+    }
+
+    candidates.sort((a, b) => a.d - b.d);
+    return candidates.slice(0, Math.max(0, k)).map((candidate) => candidate.boid);
+  }
+
+  /**
+   * Is `point` inside the view cone of `view_angle` radians (full width)
+   * centered on the velocity heading? A boid that isn't moving, or has a
+   * view angle of 2π or more, sees all around.
+   */
+  inView(point: V, view_angle: number): boolean {
+    if (view_angle >= Math.PI * 2) return true;
+
+    const speed = this.velocity.mag();
+    const offset = this.offsetTo(point);
+    const d = offset.mag();
+    if (speed === 0 || d === 0) return true;
+
+    // Compare the cosine of the bearing with the cosine of the half-angle
+    const cos_bearing = this.velocity.dot(offset) / (speed * d);
+    return cos_bearing >= Math.cos(view_angle / 2);
+  }
+
+  /**
+   * Separation: steer to avoid crowding local flockmates
+   */
+  separation(boids: Agent<V>[], perception_radius: number, force_weight: number): V {
+    return this.separationFrom(this.gatherNeighbors(boids, perception_radius), force_weight);
+  }
+
+  /**
+   * Alignment: steer towards the average heading of local flockmates
+   */
+  alignment(boids: Agent<V>[], perception_radius: number, force_weight: number): V {
+    return this.alignmentFrom(this.gatherNeighbors(boids, perception_radius), force_weight);
+  }
+
+  /**
+   * Cohesion: steer to move toward the average location of local flockmates
+   */
+  cohesion(boids: Agent<V>[], perception_radius: number, force_weight: number): V {
+    return this.cohesionFrom(this.gatherNeighbors(boids, perception_radius), force_weight);
+  }
+
+  /**
+   * Separation force from pre-gathered neighbor stats
+   */
+  separationFrom(stats: NeighborStats<V>, force_weight: number): V {
+    const steer = stats.separation.copy();
+
+    // Average
+    if (stats.separation_count > 0) {
+      steer.div(stats.separation_count);
+      steer.normalize();
+      steer.mult(this.max_speed);
+      steer.sub(this.velocity);
+      steer.limit(this.max_force);
+    }
+
+    return steer.mult(force_weight);
+  }
+
+  /**
+   * Alignment force from pre-gathered neighbor stats
+   */
+  alignmentFrom(stats: NeighborStats<V>, force_weight: number): V {
+    if (stats.alignment_count > 0) {
+      const avg_velocity = stats.velocity_sum.copy();
+      avg_velocity.div(stats.alignment_count);
+      avg_velocity.normalize();
+      avg_velocity.mult(this.max_speed);
+      const steer = avg_velocity.sub(this.velocity);
+      steer.limit(this.max_force);
+      return steer.mult(force_weight);
+    }
+
+    return this.zero();
+  }
+
+  /**
+   * Cohesion force from pre-gathered neighbor stats
+   */
+  cohesionFrom(stats: NeighborStats<V>, force_weight: number): V {
+    if (stats.cohesion_count > 0) {
+      const center_of_mass = stats.position_sum.copy();
+      center_of_mass.div(stats.cohesion_count);
+      // Steer towards the location
+      return this.seek(center_of_mass, force_weight);
+    }
+
+    return this.zero();
+  }
+
+  /**
+   * Goal: steer towards a target when it is within `radius`
+   */
+  attract(target: V, radius: number, force_weight: number): V {
+    const d = this.position.dist(target);
+    if (d > 0 && d < radius) {
+      return this.seek(target, force_weight);
+    }
+
+    return this.zero();
+  }
+
+  /**
+   * Predator: steer away from a threat when it is within `radius`
+   */
+  repel(target: V, radius: number, force_weight: number): V {
+    const d = this.position.dist(target);
+    if (d > 0 && d < radius) {
+      return this.flee(target, force_weight);
+    }
+
+    return this.zero();
+  }
+
+  /**
+   * New vector from this agent's position to `point`
+   */
+  protected offsetTo(point: V): V {
+    return this.zero().add(point).sub(this.position);
+  }
+
+  /**
+   * A method that calculates a steering force towards a target
+   */
+  protected seek(target: V, force_weight: number): V {
+    const desired = this.offsetTo(target);
+    desired.normalize();
+    desired.mult(this.max_speed);
+    const steer = desired.sub(this.velocity);
+    steer.limit(this.max_force);
+    return steer.mult(force_weight);
+  }
+
+  /**
+   * A method that calculates a steering force directly away from a target
+   */
+  protected flee(target: V, force_weight: number): V {
+    const desired = this.position.copy().sub(target);
+    desired.normalize();
+    desired.mult(this.max_speed);
+    const steer = desired.sub(this.velocity);
+    steer.limit(this.max_force);
+    return steer.mult(force_weight);
+  }
+}
@@ -1,169 +1,132 @@
-import p5 from 'p5';
-
-export class Boid {
-  position: p5.Vector;
-  velocity: p5.Vector;
-  acceleration: p5.Vector;
-  max_speed: number;
-  max_force: number;
-
-  constructor(x: number, y: number) {
-    this.position = new p5.Vector(x, y);
-    this.velocity = p5.Vector.random2D();
-    this.acceleration = new p5.Vector(0, 0);
-    this.max_speed = 4;
-    this.max_force = 0.2;
-  }
-
+import { Vec2 } from '../math/Vec2';
+import { Agent } from './Agent';
+import { Obstacle, raycast } from './Obstacle';
+
+/**
+ * Boid - A flocking agent in the 2D simulation
+ * The flocking rules and physics come from Agent (shared with the 3D
+ * mode); this adds obstacles, the canvas edges and interpolation in 2D.
+ */
+export class Boid extends Agent<Vec2> {
   /**
-   * Apply a force to the boid's acceleration
-   * F = ma, so a += F/m (assuming mass = 1)
+   * Create a boid at (x, y) heading at `heading` radians
+   * (a random heading when omitted)
    */
-  applyForce(force: p5.Vector): void {
-    this.acceleration.add(force);
+  constructor(x: number, y: number, heading?: number) {
+    super(new Vec2(x, y), heading === undefined ? Vec2.random2D() : Vec2.fromAngle(heading));
+  }
+
+  protected zero(): Vec2 {
+    return new Vec2(0, 0);
   }
 
   /**
-   * Update position and velocity based on acceleration
-   * Velocity changes by acceleration, position changes by velocity
+   * Obstacle avoidance: cast a look-ahead ray along the velocity and, for
+   * every obstacle it hits, steer away from the surface. Closer hits steer
+   * harder; each obstacle adds its own force.
    */
-  update(): void {
-    // Limit acceleration
-    this.acceleration.limit(this.max_force);
+  avoidObstacles(obstacles: Obstacle[], look_ahead: number, force_weight: number): Vec2 {
+    const total = new Vec2(0, 0);
+    const speed = this.velocity.mag();
+    if (speed === 0) return total;
 
-    // Update velocity
-    this.velocity.add(this.acceleration);
-    this.velocity.limit(this.max_speed);
+    const direction = this.velocity.copy().div(speed);
 
-    // Update position
-    this.position.add(this.velocity);
+    for (const obstacle of obstacles) {
+      const hit = raycast(obstacle, this.position, direction, look_ahead);
+      if (!hit) continue;
 
-    // Reset acceleration to 0 each cycle
-    this.acceleration.mult(0);
-  }
+      // Turn away from the surface, keeping some of the current heading
+      const desired = direction.copy().add(hit.normal).normalize().mult(this.max_speed);
+      const steer = Vec2.sub(desired, this.velocity);
+      steer.limit(this.max_force);
 
-  /**
-   * Draw the boid on the canvas
-   */
-  display(p: p5): void {
-    // Triangle pointing in direction of velocity
-    const angle = this.velocity.heading();
-    const size = 8;
-
-    p.push();
-    p.translate(this.position.x, this.position.y);
-    p.rotate(angle);
-    p.fill(0, 100, 200);
-    p.stroke(0);
-    p.triangle(size, 0, -size, -size / 2, -size, size / 2);
-    p.pop();
+      // Urgency grows as the obstacle gets closer
+      const urgency = look_ahead > 0 ? 1 - hit.distance / look_ahead : 1;
+      total.add(steer.mult(force_weight * urgency));
+    }
+
+    return total;
   }
 
   /**
-   * Separation: steer to avoid crowding local flockmates
+   * Check if boid is off-screen and wrap to opposite side
    */
-  separation(boids: Boid[], perception_radius: number, force_weight: number): p5.Vector {
-    const steer = new p5.Vector(0, 0);
-    let count = 0;
-
-    for (const other of boids) {
-      const d = p5.Vector.dist(this.position, other.position);
-
-      // If the distance is within the perception radius and not the same boid
-      if (d > 0 && d < perception_radius) {
-        // Calculate vector pointing away from neighbor
-        const diff = p5.Vector.sub(this.position, other.position);
-        diff.normalize();
-        diff.mult(1 / d); // Weight by distance
-        steer.add(diff);
-        count++;
-      }
-    }
+  wrapAround(width: number, height: number): void {
+    const x = this.position.x;
+    const y = this.position.y;
 
-    // Average
-    if (count > 0) {
-      steer.div(count);
-      steer.normalize();
-      steer.mult(this.max_speed);
-      steer.sub(this.velocity);
-      steer.limit(this.max_force);
-    }
+    if (this.position.x > width) this.position.x = 0;
+    if (this.position.x < 0) this.position.x = width;
+    if (this.position.y > height) this.position.y = 0;
+    if (this.position.y < 0) this.position.y = height;
 
-    return steer.mult(force_weight);
+    // Shift the previous position by the same jump so interpolation
+    // doesn't streak across the canvas
+    this.previous_position.x += this.position.x - x;
+    this.previous_position.y += this.position.y - y;
   }
 
   /**
-   * Alignment: steer towards the average heading of local flockmates
+   * Reflect off the canvas edges: mirror the position back inside and
+   * point the velocity away from the wall
    */
-  alignment(boids: Boid[], perception_radius: number, force_weight: number): p5.Vector {
-    const avg_velocity = new p5.Vector(0, 0);
-    let count = 0;
-
-    for (const other of boids) {
-      const d = p5.Vector.dist(this.position, other.position);
-
-      if (d > 0 && d < perception_radius) {
-        avg_velocity.add(other.velocity);
-        count++;
-      }
+  bounce(width: number, height: number): void {
+    if (this.position.x < 0) {
+      this.position.x = Math.min(-this.position.x, width);
+      this.velocity.x = Math.abs(this.velocity.x);
+    } else if (this.position.x > width) {
+      this.position.x = Math.max(2 * width - this.position.x, 0);
+      this.velocity.x = -Math.abs(this.velocity.x);
     }
 
-    if (count > 0) {
-      avg_velocity.div(count);
-      avg_velocity.normalize();
-      avg_velocity.mult(this.max_speed);
-      const steer = p5.Vector.sub(avg_velocity, this.velocity);
-      steer.limit(this.max_force);
-      return steer.mult(force_weight);
+    if (this.position.y < 0) {
+      this.position.y = Math.min(-this.position.y, height);
+      this.velocity.y = Math.abs(this.velocity.y);
+    } else if (this.position.y > height) {
+      this.position.y = Math.max(2 * height - this.position.y, 0);
+      this.velocity.y = -Math.abs(this.velocity.y);
     }
-
-    return new p5.Vector(0, 0);
   }
 
   /**
-   * Cohesion: steer to move toward the average location of local flockmates
+   * Soft walls: once within `margin` of an edge, steer towards full speed
+   * away from it (Reynolds' "stay within walls")
    */
-  cohesion(boids: Boid[], perception_radius: number, force_weight: number): p5.Vector {
-    const center_of_mass = new p5.Vector(0, 0);
-    let count = 0;
-
-    for (const other of boids) {
-      const d = p5.Vector.dist(this.position, other.position);
+  avoidEdges(width: number, height: number, margin: number, force_weight: number): Vec2 {
+    let desired: Vec2 | null = null;
 
-      if (d > 0 && d < perception_radius) {
-        center_of_mass.add(other.position);
-        count++;
-      }
+    if (this.position.x < margin) {
+      desired = new Vec2(this.max_speed, this.velocity.y);
+    } else if (this.position.x > width - margin) {
+      desired = new Vec2(-this.max_speed, this.velocity.y);
     }
 
-    if (count > 0) {
-      center_of_mass.div(count);
-      // Steer towards the location
-      return this.seek(center_of_mass, force_weight);
+    if (this.position.y < margin) {
+      desired = new Vec2(desired ? desired.x : this.velocity.x, this.max_speed);
+    } else if (this.position.y > height - margin) {
+      desired = new Vec2(desired ? desired.x : this.velocity.x, -this.max_speed);
     }
 
-    return new p5.Vector(0, 0);
-  }
+    if (!desired) {
+      return new Vec2(0, 0);
+    }
 
-  /**
-   * A method that calculates a steering force towards a target
-   */
-  private seek(target: p5.Vector, force_weight: number): p5.Vector {
-    const desired = p5.Vector.sub(target, this.position);
     desired.normalize();
     desired.mult(this.max_speed);
-    const steer = p5.Vector.sub(desired, this.velocity);
+    const steer = Vec2.sub(desired, this.velocity);
     steer.limit(this.max_force);
     return steer.mult(force_weight);
   }
 
   /**
-   * Check if boid is off-screen and wrap to opposite side
+   * Position between the previous and current step
+   * alpha = 0 is the previous position, alpha = 1 the current one
    */
-  wrapAround(width: number, height: number): void {
-    if (this.position.x > width) this.position.x = 0;
-    if (this.position.x < 0) this.position.x = width;
-    if (this.position.y > height) this.position.y = 0;
-    if (this.position.y < 0) this.position.y = height;
+  interpolatedPosition(alpha: number): Vec2 {
+    return new Vec2(
+      this.previous_position.x + (this.position.x - this.previous_position.x) * alpha,
+      this.previous_position.y + (this.position.y - this.previous_position.y) * alpha
+    );
   }
 }
@@ -0,0 +1,82 @@
+import { Vec3 } from '../math/Vec3';
+import { Agent } from './Agent';
+
+/**
+ * Boid3D - A flocking agent in the 3D simulation
+ * Runs the same rules and physics as the 2D Boid (both extend Agent), with
+ * the edges of a box instead of the canvas.
+ */
+export class Boid3D extends Agent<Vec3> {
+  /**
+   * Create a boid at (x, y, z) heading along `direction`
+   * (a random direction when omitted)
+   */
+  constructor(x: number, y: number, z: number, direction?: Vec3) {
+    super(new Vec3(x, y, z), direction ? direction.copy().normalize() : Vec3.random3D());
+  }
+
+  protected zero(): Vec3 {
+    return new Vec3(0, 0, 0);
+  }
+
+  /**
+   * Wrap to the opposite face when leaving the box
+   */
+  wrapAround(width: number, height: number, depth: number): void {
+    const { x, y, z } = this.position;
+
+    this.position.x = wrap(x, width);
+    this.position.y = wrap(y, height);
+    this.position.z = wrap(z, depth);
+
+    // Shift the previous position by the same jump so interpolation
+    // doesn't streak across the box
+    this.previous_position.x += this.position.x - x;
+    this.previous_position.y += this.position.y - y;
+    this.previous_position.z += this.position.z - z;
+  }
+
+  /**
+   * Reflect off the box's faces: mirror the position back inside and point
+   * the velocity away from the face
+   */
+  bounce(width: number, height: number, depth: number): void {
+    const position = this.position;
+    const velocity = this.velocity;
+    [position.x, velocity.x] = reflect(position.x, velocity.x, width);
+    [position.y, velocity.y] = reflect(position.y, velocity.y, height);
+    [position.z, velocity.z] = reflect(position.z, velocity.z, depth);
+  }
+
+  /**
+   * Position between the previous and current step
+   * alpha = 0 is the previous position, alpha = 1 the current one
+   */
+  interpolatedPosition(alpha: number): Vec3 {
+    const from = this.previous_position;
+    const to = this.position;
+    return new Vec3(
+      from.x + (to.x - from.x) * alpha,
+      from.y + (to.y - from.y) * alpha,
+      from.z + (to.z - from.z) * alpha
+    );
+  }
+}
+
+/**
+ * A coordinate past either end of [0, size] moved to the other end
+ */
+function wrap(value: number, size: number): number {
+  if (value > size) return 0;
+  if (value < 0) return size;
+  return value;
+}
+
+/**
+ * A coordinate and velocity component mirrored back inside [0, size]
+ */
+function reflect(value: number, velocity: number, size: number): [number, number] {
+  if (value < 0) return [Math.min(-value, size), Math.abs(velocity)];
+  if (value > size) return [Math.max(2 * size - value, 0), -Math.abs(velocity)];
+  return [value, velocity];
+}
@@ -0,0 +1,51 @@
+/**
+ * Length of one simulation step in seconds. Boid speeds and forces are
+ * expressed per step, so the flock moves at the same rate on any display.
+ */
+export const FIXED_DT = 1 / 60;
+
+/**
+ * Most steps a single update may run, so a long stall (e.g. a background
+ * tab) doesn't trigger a burst of catch-up steps
+ */
+export const MAX_STEPS_PER_UPDATE = 8;
+
+/**
+ * FixedTimestep - Turns real time into whole fixed steps
+ * Shared by the 2D and 3D simulations so both advance the same way: scaled
+ * time is accumulated and consumed FIXED_DT at a time, and whatever is left
+ * over becomes the alpha the renderer interpolates with.
+ */
+export class FixedTimestep {
+  private accumulator: number = 0;
+
+  /**
+   * Add `elapsed` seconds of scaled time and call `step` once for every
+   * whole step it covers (at most MAX_STEPS_PER_UPDATE)
+   * Returns the fraction of a step left over, from 0 to 1.
+   */
+  advance(elapsed: number, step: () => void): number {
+    this.accumulator += elapsed;
+
+    let steps = 0;
+    while (this.accumulator >= FIXED_DT && steps < MAX_STEPS_PER_UPDATE) {
+      step();
+      this.accumulator -= FIXED_DT;
+      steps++;
+    }
+
+    // Drop whole steps we couldn't catch up on rather than carrying them forward
+    if (steps === MAX_STEPS_PER_UPDATE) {
+      this.accumulator %= FIXED_DT;
+    }
+
+    return Math.min(this.accumulator / FIXED_DT, 1);
+  }
+
+  /**
+   * Forget any partial step, e.g. after a step run outside `advance`
+   */
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
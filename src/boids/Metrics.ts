@@ -0,0 +1,272 @@
+import { Boid } from './Boid';
+import { Simulation, StepListener } from './Simulation';
+import { Vec2 } from '../math/Vec2';
+import { PARAM_KEYS, SimulationParams, getParams } from './SimulationState';
+import { SpatialGrid } from './SpatialGrid';
+
+/**
+ * Order parameters describing the flock as a whole
+ */
+export interface FlockMetrics {
+  // Length of the mean unit velocity: 1 when every boid heads the same
+  // way, near 0 when headings cancel out
+  polarization: number;
+  // Mean of (unit offset from the center of mass) x (unit velocity):
+  // ±1 for a perfect mill (positive is clockwise on screen, since y points
+  // down), near 0 for straight or disordered motion
+  angular_momentum: number;
+  // Mean distance from each boid to its closest flockmate
+  nearest_neighbor_distance: number;
+  // Groups of boids linked by chains of flockmates within perception_radius
+  cluster_count: number;
+}
+
+/**
+ * Metrics for one step, with the parameters they were measured under
+ */
+export interface MetricsSample extends FlockMetrics {
+  step: number;
+  params: SimulationParams;
+}
+
+/**
+ * Names of the metrics, in CSV column order
+ */
+export const METRIC_KEYS: (keyof FlockMetrics)[] = [
+  'polarization',
+  'angular_momentum',
+  'nearest_neighbor_distance',
+  'cluster_count',
+];
+
+/**
+ * Measure the flock's current state (predators are not included)
+ */
+export function computeMetrics(simulation: Simulation): FlockMetrics {
+  const boids = simulation.boids;
+  if (boids.length === 0) {
+    return {
+      polarization: 0,
+      angular_momentum: 0,
+      nearest_neighbor_distance: 0,
+      cluster_count: 0,
+    };
+  }
+
+  return {
+    polarization: polarization(boids),
+    angular_momentum: angularMomentum(boids),
+    ...proximity(boids, simulation.perception_radius, simulation.width, simulation.height),
+  };
+}
+
+/**
+ * Format samples as CSV: step, the metrics, then every parameter
+ */
+export function metricsToCSV(samples: MetricsSample[]): string {
+  const lines = [['step', ...METRIC_KEYS, ...PARAM_KEYS].join(',')];
+  for (const sample of samples) {
+    const row = [
+      sample.step,
+      ...METRIC_KEYS.map((key) => sample[key]),
+      ...PARAM_KEYS.map((key) => sample.params[key]),
+    ];
+    lines.push(row.join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * MetricsLog - Measures the flock after every `interval` steps and keeps
+ * the history
+ * Once `capacity` samples are stored, the oldest are dropped.
+ */
+export class MetricsLog implements StepListener {
+  // Maximum number of samples kept
+  capacity: number;
+  samples: MetricsSample[] = [];
+
+  // Whether steps are measured at all
+  enabled: boolean = true;
+  // Steps between samples (1 measures every step)
+  interval: number = 1;
+
+  // Step of the last sample, to space samples `interval` steps apart
+  private sampledStep: number = -Infinity;
+
+  constructor(capacity: number = 10_000) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Most recent sample (null before the first step)
+   */
+  get latest(): MetricsSample | null {
+    return this.samples[this.samples.length - 1] ?? null;
+  }
+
+  /**
+   * Start measuring a simulation
+   */
+  attach(simulation: Simulation): void {
+    simulation.addStepListener(this);
+  }
+
+  /**
+   * Stop measuring a simulation (the history is kept)
+   */
+  detach(simulation: Simulation): void {
+    simulation.removeStepListener(this);
+  }
+
+  /**
+   * Forget the history
+   */
+  clear(): void {
+    this.samples = [];
+    this.sampledStep = -Infinity;
+  }
+
+  /**
+   * History as CSV
+   */
+  toCSV(): string {
+    return metricsToCSV(this.samples);
+  }
+
+  beforeStep(): void {
+    // Nothing to do: metrics describe the state after a step
+  }
+
+  afterStep(simulation: Simulation): void {
+    if (!this.enabled) return;
+
+    // A step count that went back means the simulation was reset or restored
+    const step = simulation.step_count;
+    if (step >= this.sampledStep && step - this.sampledStep < this.interval) return;
+    this.sampledStep = step;
+
+    this.samples.push({
+      step: simulation.step_count,
+      ...computeMetrics(simulation),
+      params: getParams(simulation),
+    });
+    if (this.samples.length > this.capacity) {
+      this.samples.splice(0, this.samples.length - this.capacity);
+    }
+  }
+}
+
+/**
+ * Length of the mean unit velocity (boids at rest are skipped)
+ */
+function polarization(boids: Boid[]): number {
+  let x = 0;
+  let y = 0;
+  let count = 0;
+
+  for (const boid of boids) {
+    const speed = boid.velocity.mag();
+    if (speed === 0) continue;
+    x += boid.velocity.x / speed;
+    y += boid.velocity.y / speed;
+    count++;
+  }
+
+  return count > 0 ? Math.hypot(x, y) / count : 0;
+}
+
+/**
+ * Mean normalized angular momentum about the center of mass (boids at rest
+ * or exactly on the center are skipped)
+ */
+function angularMomentum(boids: Boid[]): number {
+  let cx = 0;
+  let cy = 0;
+  for (const boid of boids) {
+    cx += boid.position.x;
+    cy += boid.position.y;
+  }
+  cx /= boids.length;
+  cy /= boids.length;
+
+  let sum = 0;
+  let count = 0;
+  for (const boid of boids) {
+    const rx = boid.position.x - cx;
+    const ry = boid.position.y - cy;
+    const radius = Math.hypot(rx, ry);
+    const speed = boid.velocity.mag();
+    if (radius === 0 || speed === 0) continue;
+    sum += (rx * boid.velocity.y - ry * boid.velocity.x) / (radius * speed);
+    count++;
+  }
+
+  return count > 0 ? sum / count : 0;
+}
+
+/**
+ * Average nearest-neighbor distance and the number of connected components
+ * when boids within `radius` of each other are linked. Pairs are found
+ * through a spatial grid with cells of (at least) `radius`, so only boids
+ * with no flockmate within a cell's size fall back to scanning the flock.
+ */
+function proximity(
+  boids: Boid[],
+  radius: number,
+  width: number,
+  height: number
+): Pick<FlockMetrics, 'nearest_neighbor_distance' | 'cluster_count'> {
+  const n = boids.length;
+  const grid = new SpatialGrid();
+  grid.rebuild(boids, width, height, radius);
+  const cellSize = grid.cell_size;
+  const index = new Map(boids.map((boid, i) => [boid, i]));
+
+  // Union-find over boid indices
+  const parent = boids.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  let clusters = n;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const position = boids[i].position;
+    let nearest = Infinity;
+
+    for (const other of grid.query(position)) {
+      const j = index.get(other)!;
+      if (j === i) continue;
+      const d = Vec2.dist(position, other.position);
+      if (d < nearest) nearest = d;
+
+      if (j > i && d <= radius) {
+        const a = find(i);
+        const b = find(j);
+        if (a !== b) {
+          parent[a] = b;
+          clusters--;
+        }
+      }
+    }
+
+    // Every boid within a cell's size is in the queried block; anything
+    // closest further out needs the whole flock
+    if (nearest > cellSize) {
+      for (let j = 0; j < n; j++) {
+        if (j !== i) nearest = Math.min(nearest, Vec2.dist(position, boids[j].position));
+      }
+    }
+
+    if (n > 1) total += nearest;
+  }
+
+  const nearest_neighbor_distance = n > 1 ? total / n : 0;
+
+  return { nearest_neighbor_distance, cluster_count: clusters };
+}
@@ -0,0 +1,237 @@
+import { Vec2 } from '../math/Vec2';
+
+/**
+ * Static obstacles boids steer around
+ * Plain data (no class instances) so they are easy to copy and serialize.
+ */
+export interface CircleObstacle {
+  kind: 'circle';
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * Axis-aligned rectangle, (x, y) is the top-left corner
+ */
+export interface RectObstacle {
+  kind: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Open chain of wall segments through `points`
+ */
+export interface PolylineObstacle {
+  kind: 'polyline';
+  points: { x: number; y: number }[];
+}
+
+export type Obstacle = CircleObstacle | RectObstacle | PolylineObstacle;
+
+/**
+ * Where a ray first touches an obstacle
+ * `normal` is a unit vector pointing away from the surface, towards the ray origin
+ */
+export interface RayHit {
+  distance: number;
+  normal: Vec2;
+}
+
+/**
+ * Cast a ray from `origin` along the unit vector `direction` and return the
+ * nearest hit within `max_distance`, or null. A ray starting inside a
+ * circle or rectangle hits immediately, with the normal pointing out.
+ */
+export function raycast(
+  obstacle: Obstacle,
+  origin: Vec2,
+  direction: Vec2,
+  max_distance: number
+): RayHit | null {
+  switch (obstacle.kind) {
+    case 'circle':
+      return raycastCircle(obstacle, origin, direction, max_distance);
+    case 'rect':
+      return raycastRect(obstacle, origin, direction, max_distance);
+    case 'polyline':
+      return raycastPolyline(obstacle, origin, direction, max_distance);
+  }
+}
+
+/**
+ * Is `point` on or within `tolerance` of the obstacle (for picking with the mouse)
+ */
+export function containsPoint(obstacle: Obstacle, point: Vec2, tolerance: number = 0): boolean {
+  switch (obstacle.kind) {
+    case 'circle':
+      return Vec2.dist(point, new Vec2(obstacle.x, obstacle.y)) <= obstacle.radius + tolerance;
+    case 'rect':
+      return (
+        point.x >= obstacle.x - tolerance &&
+        point.x <= obstacle.x + obstacle.width + tolerance &&
+        point.y >= obstacle.y - tolerance &&
+        point.y <= obstacle.y + obstacle.height + tolerance
+      );
+    case 'polyline':
+      for (let i = 0; i < obstacle.points.length - 1; i++) {
+        if (distanceToSegment(point, obstacle.points[i], obstacle.points[i + 1]) <= tolerance) {
+          return true;
+        }
+      }
+      return false;
+  }
+}
+
+function raycastCircle(
+  circle: CircleObstacle,
+  origin: Vec2,
+  direction: Vec2,
+  max_distance: number
+): RayHit | null {
+  const offset = new Vec2(origin.x - circle.x, origin.y - circle.y);
+  const c = offset.magSq() - circle.radius * circle.radius;
+
+  // Starting inside: push straight out from the center
+  if (c <= 0) {
+    return { distance: 0, normal: outward(offset, direction) };
+  }
+
+  const b = offset.x * direction.x + offset.y * direction.y;
+  const discriminant = b * b - c;
+  if (discriminant < 0) return null;
+
+  const t = -b - Math.sqrt(discriminant);
+  if (t < 0 || t > max_distance) return null;
+
+  const normal = new Vec2(offset.x + direction.x * t, offset.y + direction.y * t).normalize();
+  return { distance: t, normal };
+}
+
+function raycastRect(
+  rect: RectObstacle,
+  origin: Vec2,
+  direction: Vec2,
+  max_distance: number
+): RayHit | null {
+  const left = rect.x;
+  const right = rect.x + rect.width;
+  const top = rect.y;
+  const bottom = rect.y + rect.height;
+
+  // Starting inside: push out through the nearest side
+  if (origin.x >= left && origin.x <= right && origin.y >= top && origin.y <= bottom) {
+    const sides = [
+      { d: origin.x - left, normal: new Vec2(-1, 0) },
+      { d: right - origin.x, normal: new Vec2(1, 0) },
+      { d: origin.y - top, normal: new Vec2(0, -1) },
+      { d: bottom - origin.y, normal: new Vec2(0, 1) },
+    ];
+    sides.sort((a, b) => a.d - b.d);
+    return { distance: 0, normal: sides[0].normal };
+  }
+
+  // Slab method: the ray enters the box at the latest of the per-axis entries
+  let t_enter = -Infinity;
+  let t_exit = Infinity;
+  let normal = new Vec2(0, 0);
+
+  const axes = [
+    { o: origin.x, d: direction.x, min: left, max: right, horizontal: true },
+    { o: origin.y, d: direction.y, min: top, max: bottom, horizontal: false },
+  ];
+
+  for (const { o, d, min, max, horizontal } of axes) {
+    if (d === 0) {
+      if (o < min || o > max) return null;
+      continue;
+    }
+
+    let t1 = (min - o) / d;
+    let t2 = (max - o) / d;
+    let sign = -1; // Entering through the min side faces the negative axis
+    if (t1 > t2) {
+      [t1, t2] = [t2, t1];
+      sign = 1;
+    }
+
+    if (t1 > t_enter) {
+      t_enter = t1;
+      normal = horizontal ? new Vec2(sign, 0) : new Vec2(0, sign);
+    }
+    t_exit = Math.min(t_exit, t2);
+  }
+
+  if (t_enter > t_exit || t_enter < 0 || t_enter > max_distance) return null;
+
+  return { distance: t_enter, normal };
+}
+
+function raycastPolyline(
+  polyline: PolylineObstacle,
+  origin: Vec2,
+  direction: Vec2,
+  max_distance: number
+): RayHit | null {
+  let nearest: RayHit | null = null;
+
+  for (let i = 0; i < polyline.points.length - 1; i++) {
+    const a = polyline.points[i];
+    const b = polyline.points[i + 1];
+    const edge = new Vec2(b.x - a.x, b.y - a.y);
+
+    // Solve origin + t * direction = a + u * edge
+    const denominator = direction.x * edge.y - direction.y * edge.x;
+    if (denominator === 0) continue; // Parallel
+
+    const ax = a.x - origin.x;
+    const ay = a.y - origin.y;
+    const t = (ax * edge.y - ay * edge.x) / denominator;
+    const u = (ax * direction.y - ay * direction.x) / denominator;
+
+    if (t < 0 || t > max_distance || u < 0 || u > 1) continue;
+    if (nearest && t >= nearest.distance) continue;
+
+    // Segment normal, flipped to face the incoming ray
+    const normal = new Vec2(-edge.y, edge.x).normalize();
+    if (normal.x * direction.x + normal.y * direction.y > 0) {
+      normal.mult(-1);
+    }
+
+    nearest = { distance: t, normal };
+  }
+
+  return nearest;
+}
+
+/**
+ * Unit vector along `offset`, or against the ray when offset is zero
+ */
+function outward(offset: Vec2, direction: Vec2): Vec2 {
+  if (offset.magSq() > 0) return offset.copy().normalize();
+  return direction.copy().mult(-1);
+}
+
+/**
+ * Shortest distance from a point to the segment a-b
+ */
+function distanceToSegment(
+  point: Vec2,
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+
+  let t = 0;
+  if (lengthSq > 0) {
+    t = ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq;
+    t = Math.max(0, Math.min(1, t));
+  }
+
+  return Vec2.dist(point, new Vec2(a.x + t * dx, a.y + t * dy));
+}
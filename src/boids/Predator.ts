@@ -0,0 +1,47 @@
+import { Vec2 } from '../math/Vec2';
+import { Boid } from './Boid';
+
+/**
+ * What a predator chases: the closest boid, or the center of the densest
+ * cluster in the flock
+ */
+export type PredatorTarget = 'nearest' | 'cluster';
+
+/**
+ * Predator - An agent that hunts the flock
+ * Shares Boid's physics (forces, limits, edges, interpolation) but ignores
+ * the flocking rules and steers towards its prey instead. It is a little
+ * faster and more agile than a boid by default.
+ */
+export class Predator extends Boid {
+  constructor(x: number, y: number, heading?: number) {
+    super(x, y, heading);
+    this.max_speed = 5;
+    this.max_force = 0.3;
+  }
+
+  /**
+   * Pursuit: steer towards a target at full speed
+   */
+  pursue(target: Vec2, force_weight: number): Vec2 {
+    return this.seek(target, force_weight);
+  }
+
+  /**
+   * Closest boid to this predator, or null when there are none
+   */
+  nearestPrey(boids: Boid[]): Boid | null {
+    let nearest: Boid | null = null;
+    let nearest_distance = Infinity;
+
+    for (const boid of boids) {
+      const d = Vec2.dist(this.position, boid.position);
+      if (d < nearest_distance) {
+        nearest = boid;
+        nearest_distance = d;
+      }
+    }
+
+    return nearest;
+  }
+}
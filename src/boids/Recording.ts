@@ -0,0 +1,461 @@
+import { Vec2 } from '../math/Vec2';
+import { Boid } from './Boid';
+import { Predator } from './Predator';
+import { Simulation, StepListener } from './Simulation';
+import {
+  SimulationParams,
+  SimulationState,
+  getParams,
+  setParams,
+  stateSignature,
+} from './SimulationState';
+
+/**
+ * How a run is recorded:
+ * - 'events': keyframes plus the parameter and pointer changes before each
+ *   step; playback re-runs the deterministic steps
+ * - 'snapshots': every agent's quantized position and heading at every step;
+ *   playback just shows them (bigger, but needs no re-simulation)
+ */
+export type RecordingMode = 'events' | 'snapshots';
+
+/**
+ * Parameter and pointer changes applied just before a step
+ */
+export interface RecordedInput {
+  step: number;
+  params?: Partial<SimulationParams>;
+  pointer?: { x: number; y: number } | null;
+}
+
+/**
+ * Full state at the start of a step (the pointer isn't part of saved state,
+ * so it is kept alongside)
+ */
+export interface Keyframe {
+  step: number;
+  state: SimulationState;
+  pointer: { x: number; y: number } | null;
+}
+
+/**
+ * Agents at the start of a step, quantized to 16 bits: positions in
+ * 1/4 pixel steps and headings in 1/10000 radian steps
+ */
+export interface PackedFrame {
+  positions: Uint16Array; // x0, y0, x1, y1, ...
+  headings: Int16Array;
+  species: Uint8Array;
+  predator_positions: Uint16Array;
+  predator_headings: Int16Array;
+}
+
+/**
+ * A recorded run
+ */
+export interface Recording {
+  mode: RecordingMode;
+  length: number; // Number of recorded steps
+  keyframes: Keyframe[]; // Always starts with step 0
+  inputs: RecordedInput[]; // 'events' only
+  frames: PackedFrame[]; // 'snapshots' only: one per step plus the final state
+}
+
+// Quantization scales for packed frames
+const POSITION_SCALE = 4;
+const HEADING_SCALE = 10000;
+
+/**
+ * Recorder - Records a live simulation step by step
+ * Attaches itself as the simulation's step listener. A keyframe is taken at
+ * the start, periodically, and whenever something changed between steps
+ * that isn't a parameter (boids added or moved by hand, obstacles, species),
+ * so playback never drifts from what was shown.
+ */
+export class Recorder implements StepListener {
+  // Steps between periodic keyframes (bounds the cost of seeking)
+  static readonly KEYFRAME_INTERVAL = 120;
+
+  recording: Recording | null = null;
+
+  private simulation: Simulation | null = null;
+  private last_params: SimulationParams | null = null;
+  private last_pointer: { x: number; y: number } | null = null;
+  private signature = '';
+
+  /**
+   * Is a recording in progress?
+   */
+  get active(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Start recording a simulation (stopping any recording in progress)
+   */
+  start(simulation: Simulation, mode: RecordingMode): void {
+    this.stop();
+
+    this.simulation = simulation;
+    this.recording = { mode, length: 0, keyframes: [], inputs: [], frames: [] };
+    this.takeKeyframe(simulation);
+    simulation.addStepListener(this);
+  }
+
+  /**
+   * Stop recording and return the finished recording (null if none)
+   */
+  stop(): Recording | null {
+    const recording = this.recording;
+    const simulation = this.simulation;
+    if (!recording || !simulation) return null;
+
+    if (recording.mode === 'snapshots') {
+      recording.frames.push(packFrame(simulation));
+    }
+    simulation.removeStepListener(this);
+
+    this.recording = null;
+    this.simulation = null;
+    return recording;
+  }
+
+  beforeStep(simulation: Simulation): void {
+    const recording = this.recording;
+    if (!recording) return;
+
+    const step = recording.length;
+    const edited = stateSignature(simulation) !== this.signature;
+    const periodic = recording.mode === 'events' && step % Recorder.KEYFRAME_INTERVAL === 0;
+
+    if (edited || (periodic && step > 0)) {
+      this.takeKeyframe(simulation);
+    } else if (recording.mode === 'events') {
+      this.recordInput(simulation, step);
+    }
+
+    if (recording.mode === 'snapshots') {
+      recording.frames.push(packFrame(simulation));
+    }
+  }
+
+  afterStep(simulation: Simulation): void {
+    if (!this.recording) return;
+
+    this.recording.length++;
+    this.signature = stateSignature(simulation);
+  }
+
+  /**
+   * Store the full state at the current step (replacing one already taken
+   * at this step)
+   */
+  private takeKeyframe(simulation: Simulation): void {
+    const recording = this.recording!;
+    const keyframe = {
+      step: recording.length,
+      state: simulation.serialize(),
+      pointer: pointerOf(simulation),
+    };
+
+    const last = recording.keyframes[recording.keyframes.length - 1];
+    if (last?.step === keyframe.step) {
+      recording.keyframes[recording.keyframes.length - 1] = keyframe;
+    } else {
+      recording.keyframes.push(keyframe);
+    }
+
+    this.last_params = getParams(simulation);
+    this.last_pointer = pointerOf(simulation);
+    this.signature = stateSignature(simulation);
+  }
+
+  /**
+   * Store whatever parameters or pointer position changed since the last step
+   */
+  private recordInput(simulation: Simulation, step: number): void {
+    const params = getParams(simulation);
+    const input: RecordedInput = { step };
+    let changed = false;
+
+    const diff: Partial<SimulationParams> = {};
+    for (const key of Object.keys(params) as (keyof SimulationParams)[]) {
+      if (params[key] !== this.last_params?.[key]) {
+        Object.assign(diff, { [key]: params[key] });
+        changed = true;
+      }
+    }
+    if (changed) input.params = diff;
+
+    const pointer = pointerOf(simulation);
+    if (pointer?.x !== this.last_pointer?.x || pointer?.y !== this.last_pointer?.y) {
+      input.pointer = pointer;
+      changed = true;
+    }
+
+    if (changed) {
+      this.recording!.inputs.push(input);
+      this.last_params = params;
+      this.last_pointer = pointer;
+    }
+  }
+}
+
+/**
+ * Player - Plays a recording back into its own Simulation
+ * `seek` jumps to any step, forward or back: 'events' recordings restore
+ * the nearest earlier keyframe and re-run the steps from there, 'snapshots'
+ * recordings unpack the stored frame.
+ */
+export class Player {
+  readonly recording: Recording;
+  readonly simulation: Simulation;
+
+  // Current position in the recording, from 0 to recording.length
+  step: number = 0;
+  playing: boolean = true;
+
+  private accumulator: number = 0;
+  private inputs = new Map<number, RecordedInput>();
+  private keyframe: Keyframe | null = null;
+
+  constructor(recording: Recording) {
+    this.recording = recording;
+    for (const input of recording.inputs) {
+      this.inputs.set(input.step, input);
+    }
+
+    const initial = recording.keyframes[0].state;
+    this.simulation = new Simulation(initial.width, initial.height);
+    this.restoreKeyframe(recording.keyframes[0]);
+    if (recording.mode === 'snapshots') {
+      this.showFrame(0);
+    }
+  }
+
+  /**
+   * Has playback reached the end of the recording?
+   */
+  get finished(): boolean {
+    return this.step >= this.recording.length;
+  }
+
+  /**
+   * Jump to a step (clamped to the recording)
+   */
+  seek(step: number): void {
+    const target = Math.max(0, Math.min(this.recording.length, Math.round(step)));
+    if (target === this.step) return;
+
+    if (this.recording.mode === 'snapshots') {
+      const keyframe = this.keyframeBefore(target);
+      if (keyframe !== this.keyframe) {
+        this.restoreKeyframe(keyframe);
+      }
+      this.showFrame(target);
+      this.step = target;
+      return;
+    }
+
+    // Going back (or past a keyframe) means re-running from the nearest keyframe
+    const keyframe = this.keyframeBefore(target);
+    if (target < this.step || keyframe.step > this.step) {
+      this.restoreKeyframe(keyframe);
+      this.step = keyframe.step;
+    }
+
+    while (this.step < target) {
+      this.advance();
+    }
+  }
+
+  /**
+   * Play forward by `dt` seconds of real time at the recorded time scale
+   */
+  update(dt: number): void {
+    if (!this.playing) return;
+
+    this.accumulator += dt * this.simulation.time_scale;
+
+    let steps = 0;
+    while (
+      this.accumulator >= Simulation.FIXED_DT &&
+      steps < Simulation.MAX_STEPS_PER_UPDATE &&
+      !this.finished
+    ) {
+      this.seek(this.step + 1);
+      this.accumulator -= Simulation.FIXED_DT;
+      steps++;
+    }
+
+    if (this.finished) {
+      this.playing = false;
+      this.accumulator = 0;
+    } else if (steps === Simulation.MAX_STEPS_PER_UPDATE) {
+      this.accumulator %= Simulation.FIXED_DT;
+    }
+
+    this.simulation.alpha = Math.min(this.accumulator / Simulation.FIXED_DT, 1);
+  }
+
+  /**
+   * Run the recorded step at the current position ('events' recordings)
+   */
+  private advance(): void {
+    const keyframe = this.keyframeAt(this.step);
+    if (keyframe && keyframe !== this.keyframe) {
+      this.restoreKeyframe(keyframe);
+    }
+
+    const input = this.inputs.get(this.step);
+    if (input?.params) {
+      setParams(this.simulation, input.params);
+    }
+    if (input && input.pointer !== undefined) {
+      this.simulation.pointer = toVec2(input.pointer);
+    }
+
+    this.simulation.step();
+    this.step++;
+    this.keyframe = null;
+  }
+
+  /**
+   * Load a keyframe's state into the playback simulation
+   */
+  private restoreKeyframe(keyframe: Keyframe): void {
+    this.simulation.restore(keyframe.state);
+    this.simulation.pointer = toVec2(keyframe.pointer);
+    this.simulation.alpha = 1;
+    this.keyframe = keyframe;
+  }
+
+  /**
+   * Latest keyframe at or before a step
+   */
+  private keyframeBefore(step: number): Keyframe {
+    let found = this.recording.keyframes[0];
+    for (const keyframe of this.recording.keyframes) {
+      if (keyframe.step > step) break;
+      found = keyframe;
+    }
+    return found;
+  }
+
+  /**
+   * Keyframe taken exactly at a step, if any
+   */
+  private keyframeAt(step: number): Keyframe | undefined {
+    return this.recording.keyframes.find((keyframe) => keyframe.step === step);
+  }
+
+  /**
+   * Show a packed frame, using the frame before it as the previous
+   * positions for interpolation
+   */
+  private showFrame(step: number): void {
+    const frame = this.recording.frames[step];
+    const previous = step > 0 ? this.recording.frames[step - 1] : null;
+    const simulation = this.simulation;
+
+    simulation.boids = unpackAgents(
+      frame.positions,
+      frame.headings,
+      previous?.positions,
+      (x, y, heading, i) => {
+        const boid = new Boid(x, y, heading);
+        boid.species = Math.min(frame.species[i], simulation.species.length - 1);
+        boid.max_speed = simulation.species[boid.species].max_speed;
+        return boid;
+      }
+    );
+    simulation.predators = unpackAgents(
+      frame.predator_positions,
+      frame.predator_headings,
+      previous?.predator_positions,
+      (x, y, heading) => new Predator(x, y, heading)
+    );
+
+    // Give each agent a velocity along its heading so it renders pointing the right way
+    for (const agent of [...simulation.boids, ...simulation.predators]) {
+      agent.velocity.mult(agent.max_speed);
+    }
+  }
+}
+
+function pointerOf(simulation: Simulation): { x: number; y: number } | null {
+  return simulation.pointer ? { x: simulation.pointer.x, y: simulation.pointer.y } : null;
+}
+
+function toVec2(point: { x: number; y: number } | null): Vec2 | null {
+  return point ? new Vec2(point.x, point.y) : null;
+}
+
+/**
+ * Quantize every agent's position and heading
+ */
+function packFrame(simulation: Simulation): PackedFrame {
+  const boids = simulation.boids;
+  const predators = simulation.predators;
+
+  const frame: PackedFrame = {
+    positions: new Uint16Array(boids.length * 2),
+    headings: new Int16Array(boids.length),
+    species: new Uint8Array(boids.length),
+    predator_positions: new Uint16Array(predators.length * 2),
+    predator_headings: new Int16Array(predators.length),
+  };
+
+  boids.forEach((boid, i) => {
+    packAgent(boid, i, frame.positions, frame.headings);
+    frame.species[i] = boid.species;
+  });
+  predators.forEach((predator, i) => {
+    packAgent(predator, i, frame.predator_positions, frame.predator_headings);
+  });
+
+  return frame;
+}
+
+function packAgent(agent: Boid, i: number, positions: Uint16Array, headings: Int16Array): void {
+  positions[i * 2] = quantizePosition(agent.position.x);
+  positions[i * 2 + 1] = quantizePosition(agent.position.y);
+  headings[i] = Math.round(agent.velocity.heading() * HEADING_SCALE);
+}
+
+function quantizePosition(value: number): number {
+  return Math.max(0, Math.min(0xffff, Math.round(value * POSITION_SCALE)));
+}
+
+/**
+ * Rebuild agents from packed positions and headings. Previous positions come
+ * from the previous frame when it holds the same agents and they didn't
+ * jump (e.g. wrap around the edge).
+ */
+function unpackAgents<T extends Boid>(
+  positions: Uint16Array,
+  headings: Int16Array,
+  previous: Uint16Array | undefined,
+  create: (x: number, y: number, heading: number, i: number) => T
+): T[] {
+  const agents: T[] = [];
+  const same_agents = previous?.length === positions.length;
+
+  for (let i = 0; i < headings.length; i++) {
+    const x = positions[i * 2] / POSITION_SCALE;
+    const y = positions[i * 2 + 1] / POSITION_SCALE;
+    const agent = create(x, y, headings[i] / HEADING_SCALE, i);
+
+    if (previous && same_agents) {
+      const px = previous[i * 2] / POSITION_SCALE;
+      const py = previous[i * 2 + 1] / POSITION_SCALE;
+      if (Math.abs(px - x) < 50 && Math.abs(py - y) < 50) {
+        agent.previous_position.set(px, py);
+      }
+    }
+
+    agents.push(agent);
+  }
+
+  return agents;
+}
@@ -1,13 +1,146 @@
+import { NeighborStats, PerceptionLimits } from './Agent';
 import { Boid } from './Boid';
+import { Predator, PredatorTarget } from './Predator';
+import { GridCells, SpatialGrid } from './SpatialGrid';
+import { FIXED_DT, FixedTimestep, MAX_STEPS_PER_UPDATE } from './FixedTimestep';
+import { Random } from '../math/Random';
+import { Vec2 } from '../math/Vec2';
+import { Obstacle, containsPoint } from './Obstacle';
+import {
+  InteractionRule,
+  Species,
+  SPECIES_PALETTE,
+  createInteraction,
+  createSpecies,
+} from './Species';
+import {
+  SimulationState,
+  restoreSimulation,
+  serializeSimulation,
+  validateState,
+} from './SimulationState';
+
+/**
+ * How boids react to the pointer: ignore it, seek it as a goal,
+ * or flee it as a predator
+ */
+export type PointerMode = 'off' | 'attract' | 'repel';
+
+/**
+ * What happens at the canvas edges: wrap to the opposite side, bounce off
+ * the walls, or steer away from the walls within a margin
+ */
+export type BoundaryMode = 'wrap' | 'bounce' | 'avoid';
+
+/**
+ * How agents and obstacles follow a change of world size: scale positions
+ * so the layout keeps its proportions (remap), or keep positions and pull
+ * anything now outside back to the edge (clamp)
+ */
+export type ResizeMode = 'remap' | 'clamp';
+
+/**
+ * Which flockmates count as neighbors: everyone within the perception radii
+ * (metric), the k nearest regardless of distance (topological), or the
+ * k nearest within the radii (hybrid)
+ */
+export type NeighborStrategy = 'metric' | 'topological' | 'hybrid';
+
+/**
+ * Observer called around every fixed step (e.g. to record a run or
+ * measure the flock)
+ */
+export interface StepListener {
+  beforeStep(simulation: Simulation): void;
+  afterStep(simulation: Simulation): void;
+}
+
+/**
+ * The flocking forces a boid gets this step and the flockmates they come
+ * from, for inspecting a boid (see `Simulation.inspect`)
+ */
+export interface BoidInspection {
+  boid: Boid;
+  neighbors: Boid[]; // Flockmates at least one rule counts, as in a step
+  separation: Vec2;
+  alignment: Vec2;
+  cohesion: Vec2;
+}
 
 export class Simulation {
+  // Length of one step in seconds, and the most steps one update may run (see FixedTimestep)
+  static readonly FIXED_DT = FIXED_DT;
+  static readonly MAX_STEPS_PER_UPDATE = MAX_STEPS_PER_UPDATE;
+
   boids: Boid[] = [];
   width: number;
   height: number;
   separation_force: number = 1.5;
   alignment_force: number = 1.0;
   cohesion_force: number = 1.0;
-  perception_radius: number = 100;
+  perception_radius: number = 100; // Alignment and cohesion
+  separation_radius: number = 100;
+  // Full width of each boid's view cone in degrees; 360 sees all around
+  view_angle: number = 360;
+  neighbor_strategy: NeighborStrategy = 'metric';
+  // k for the topological and hybrid strategies (starlings use about 7)
+  neighbor_count: number = 7;
+  use_spatial_index: boolean = true;
+  seed: number = 1;
+  time_scale: number = 1;
+  paused: boolean = false;
+
+  // Kinds of boid; every boid's `species` indexes into this list
+  species: Species[] = [createSpecies('Flock')];
+  // interactions[a][b]: which rules boids of species a apply to neighbors of species b
+  interactions: InteractionRule[][] = [[createInteraction()]];
+
+  // Edge behavior
+  boundary_mode: BoundaryMode = 'wrap';
+  boundary_margin: number = 50;
+  boundary_force: number = 1.5;
+
+  // Static obstacles and how far ahead boids look for them
+  obstacles: Obstacle[] = [];
+  obstacle_look_ahead: number = 60;
+  obstacle_force: number = 3.0;
+
+  // Predators hunting the flock, and how the flock reacts to them
+  predators: Predator[] = [];
+  predator_target: PredatorTarget = 'nearest';
+  predator_speed: number = 5;
+  predator_force: number = 1.0;
+  fear_radius: number = 80;
+  fear_force: number = 2.5;
+  // When on, a predator that gets within `catch_radius` of a boid removes it
+  predator_catch: boolean = false;
+  catch_radius: number = 8;
+  catches: number = 0;
+
+  // Pointer interaction (mouse or touch)
+  pointer_mode: PointerMode = 'off';
+  pointer_radius: number = 150;
+  pointer_force: number = 2.0;
+  // Pointer location on the canvas, or null when it isn't over the canvas
+  pointer: Vec2 | null = null;
+
+  // Number of steps run so far
+  step_count: number = 0;
+
+  // Observers of every step, called in the order they were added
+  private stepListeners: StepListener[] = [];
+
+  // Boids whose flocking each step keeps for `inspect`: a few, or the whole flock
+  inspected: Boid[] | 'all' = [];
+  private inspections = new Map<Boid, BoidInspection>();
+
+  // Fraction of a step left in the accumulator, for render interpolation
+  alpha: number = 0;
+  private clock = new FixedTimestep();
+
+  // Seeded PRNG behind every random decision in the simulation
+  readonly random = new Random(this.seed);
+  private grid = new SpatialGrid();
 
   constructor(width: number, height: number) {
     this.width = width;
@@ -21,6 +154,136 @@ export class Simulation {
     this.boids.push(boid);
   }
 
+  /**
+   * Spawn a boid of a species at a random position and heading drawn from
+   * the seeded PRNG
+   */
+  spawnBoid(species: number = 0): Boid {
+    const x = this.random.range(0, this.width);
+    const y = this.random.range(0, this.height);
+    const boid = new Boid(x, y, this.random.angle());
+    boid.species = species;
+    boid.max_speed = this.species[species].max_speed;
+    boid.max_force = this.species[species].max_force;
+    this.addBoid(boid);
+    return boid;
+  }
+
+  /**
+   * Spawn `count` new boids of a species
+   */
+  populate(count: number, species: number = 0): void {
+    for (let i = 0; i < count; i++) {
+      this.spawnBoid(species);
+    }
+  }
+
+  /**
+   * Add a species (every rule applies between it and all others) and
+   * return its index
+   */
+  addSpecies(species?: Species): number {
+    const index = this.species.length;
+    this.species.push(
+      species ??
+        createSpecies(`Species ${index + 1}`, {
+          color: SPECIES_PALETTE[index % SPECIES_PALETTE.length],
+        })
+    );
+
+    for (const row of this.interactions) {
+      row.push(createInteraction());
+    }
+    this.interactions.push(this.species.map(() => createInteraction()));
+
+    return index;
+  }
+
+  /**
+   * Remove a species and all of its boids. Boids of later species are
+   * renumbered. The last remaining species can't be removed.
+   */
+  removeSpecies(index: number): void {
+    if (this.species.length <= 1 || index < 0 || index >= this.species.length) return;
+
+    this.boids = this.boids.filter((boid) => boid.species !== index);
+    for (const boid of this.boids) {
+      if (boid.species > index) boid.species--;
+    }
+
+    this.species.splice(index, 1);
+    this.interactions.splice(index, 1);
+    for (const row of this.interactions) {
+      row.splice(index, 1);
+    }
+  }
+
+  /**
+   * Number of boids of a species
+   */
+  countSpecies(index: number): number {
+    let count = 0;
+    for (const boid of this.boids) {
+      if (boid.species === index) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Spawn or remove boids (newest first) until a species has `count` boids
+   */
+  setSpeciesCount(index: number, count: number): void {
+    const current = this.countSpecies(index);
+
+    if (count > current) {
+      this.populate(count - current, index);
+    } else if (count < current) {
+      let excess = current - count;
+      for (let i = this.boids.length - 1; i >= 0 && excess > 0; i--) {
+        if (this.boids[i].species === index) {
+          this.boids.splice(i, 1);
+          excess--;
+        }
+      }
+    }
+  }
+
+  /**
+   * Copy a species' speed and force limits onto its boids
+   * (call after changing them on the species)
+   */
+  applySpeciesLimits(index: number): void {
+    const species = this.species[index];
+    for (const boid of this.boids) {
+      if (boid.species === index) {
+        boid.max_speed = species.max_speed;
+        boid.max_force = species.max_force;
+      }
+    }
+  }
+
+  /**
+   * Set the seed and restart the PRNG sequence from it
+   */
+  reseed(seed: number): void {
+    this.seed = seed;
+    this.random.reseed(seed);
+  }
+
+  /**
+   * Replace the flock with the same number of freshly spawned boids per
+   * species, reseeding first so the same seed always gives the same flock
+   */
+  restart(): void {
+    const counts = this.species.map((_, index) => this.countSpecies(index));
+    const predator_count = this.predators.length;
+    this.clear();
+    this.predators = [];
+    this.reseed(this.seed);
+    counts.forEach((count, index) => this.populate(count, index));
+    this.setPredatorCount(predator_count);
+  }
+
   /**
    * Remove a boid from the simulation
    */
@@ -32,26 +295,487 @@ export class Simulation {
   }
 
   /**
-   * Update all boids: apply forces, update positions, wrap screen
+   * Add a predator to the simulation
+   */
+  addPredator(predator: Predator): void {
+    this.predators.push(predator);
+  }
+
+  /**
+   * Spawn a predator at a random position and heading drawn from the seeded PRNG
+   */
+  spawnPredator(): Predator {
+    const x = this.random.range(0, this.width);
+    const y = this.random.range(0, this.height);
+    const predator = new Predator(x, y, this.random.angle());
+    predator.max_speed = this.predator_speed;
+    this.addPredator(predator);
+    return predator;
+  }
+
+  /**
+   * Remove a predator from the simulation
+   */
+  removePredator(predator: Predator): void {
+    const index = this.predators.indexOf(predator);
+    if (index > -1) {
+      this.predators.splice(index, 1);
+    }
+  }
+
+  /**
+   * Spawn or remove predators (newest first) until there are `count`
+   */
+  setPredatorCount(count: number): void {
+    while (this.predators.length < count) {
+      this.spawnPredator();
+    }
+    while (this.predators.length > count) {
+      this.removePredator(this.predators[this.predators.length - 1]);
+    }
+  }
+
+  /**
+   * Copy `predator_speed` onto every predator (call after changing it)
+   */
+  applyPredatorSpeed(): void {
+    for (const predator of this.predators) {
+      predator.max_speed = this.predator_speed;
+    }
+  }
+
+  /**
+   * Center of the densest cluster: the average position of the flockmates
+   * within the perception radius of the boid that has the most of them.
+   * Uses the spatial grid when enabled, so call it after the grid is rebuilt.
+   */
+  densestClusterCenter(): Vec2 | null {
+    let densest: Boid[] = [];
+
+    for (const boid of this.boids) {
+      const cluster = this.getNeighbors(boid).filter(
+        (other) => Vec2.dist(boid.position, other.position) < this.perception_radius
+      );
+      if (cluster.length > densest.length) {
+        densest = cluster;
+      }
+    }
+
+    if (densest.length === 0) return null;
+
+    const center = new Vec2(0, 0);
+    for (const boid of densest) {
+      center.add(boid.position);
+    }
+    return center.div(densest.length);
+  }
+
+  /**
+   * Add a static obstacle
+   */
+  addObstacle(obstacle: Obstacle): void {
+    this.obstacles.push(obstacle);
+  }
+
+  /**
+   * Remove a static obstacle
+   */
+  removeObstacle(obstacle: Obstacle): void {
+    const index = this.obstacles.indexOf(obstacle);
+    if (index > -1) {
+      this.obstacles.splice(index, 1);
+    }
+  }
+
+  /**
+   * Find the top-most (last added) obstacle at a point, or null
+   */
+  obstacleAt(point: Vec2, tolerance: number = 0): Obstacle | null {
+    for (let i = this.obstacles.length - 1; i >= 0; i--) {
+      if (containsPoint(this.obstacles[i], point, tolerance)) {
+        return this.obstacles[i];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Change the world size at runtime, moving boids, predators and (when
+   * remapping) obstacles to fit. Ignores sizes that aren't positive.
+   */
+  resize(width: number, height: number, mode: ResizeMode = 'remap'): void {
+    if (!(width > 0 && height > 0)) return;
+    if (width === this.width && height === this.height) return;
+
+    const scaleX = width / this.width;
+    const scaleY = height / this.height;
+    const move =
+      mode === 'remap'
+        ? (point: { x: number; y: number }) => {
+            point.x *= scaleX;
+            point.y *= scaleY;
+          }
+        : (point: { x: number; y: number }) => {
+            point.x = Math.max(0, Math.min(width, point.x));
+            point.y = Math.max(0, Math.min(height, point.y));
+          };
+
+    for (const agent of [...this.boids, ...this.predators]) {
+      move(agent.position);
+      move(agent.previous_position);
+    }
+
+    // Clamped obstacles stay put; ones now outside the world are harmless
+    if (mode === 'remap') {
+      for (const obstacle of this.obstacles) {
+        if (obstacle.kind === 'polyline') {
+          obstacle.points.forEach(move);
+        } else {
+          move(obstacle);
+          if (obstacle.kind === 'rect') {
+            obstacle.width *= scaleX;
+            obstacle.height *= scaleY;
+          }
+        }
+      }
+    }
+
+    this.width = width;
+    this.height = height;
+    this.pointer = null;
+  }
+
+  /**
+   * Snapshot the whole run as versioned, JSON-safe data
+   */
+  serialize(): SimulationState {
+    return serializeSimulation(this);
+  }
+
+  /**
+   * Restore a run from saved data (e.g. parsed JSON)
+   * Throws a StateError naming the bad field when the data is malformed or
+   * from another schema version; the simulation is untouched in that case.
+   */
+  restore(data: unknown): void {
+    restoreSimulation(this, validateState(data));
+  }
+
+  /**
+   * Call a listener around every step from now on
+   */
+  addStepListener(listener: StepListener): void {
+    if (!this.stepListeners.includes(listener)) {
+      this.stepListeners.push(listener);
+    }
+  }
+
+  /**
+   * Stop calling a listener (no-op if it isn't attached)
    */
-  update(): void {
+  removeStepListener(listener: StepListener): void {
+    this.stepListeners = this.stepListeners.filter((l) => l !== listener);
+  }
+
+  /**
+   * Advance the simulation by `dt` seconds of real time
+   * Scaled time is accumulated and consumed in fixed steps; whatever is left
+   * over becomes `alpha` so the renderer can interpolate between steps
+   */
+  update(dt: number = Simulation.FIXED_DT): void {
+    if (this.paused) return;
+    this.alpha = this.clock.advance(dt * this.time_scale, () => this.step());
+  }
+
+  /**
+   * Run exactly one fixed step, even while paused (for frame-by-frame stepping)
+   */
+  singleStep(): void {
+    this.step();
+    this.clock.reset();
+    this.alpha = 1;
+  }
+
+  /**
+   * One fixed step: apply forces, update positions, handle edges
+   * Forces are computed for every boid before any boid moves, so each boid
+   * sees the same snapshot of the flock. Steps are deterministic: the result
+   * depends only on the current state and parameters (the PRNG is only used
+   * for spawning), so a restored state replays identically.
+   */
+  step(): void {
+    for (const listener of this.stepListeners) {
+      listener.beforeStep(this);
+    }
+
+    const { radius, limits } = this.preparePerception();
+    this.inspections.clear();
+
     for (const boid of this.boids) {
-      // Calculate all three forces
-      const sep = boid.separation(this.boids, this.perception_radius, this.separation_force);
-      const align = boid.alignment(this.boids, this.perception_radius, this.alignment_force);
-      const cohesion = boid.cohesion(this.boids, this.perception_radius, this.cohesion_force);
+      const neighbors = this.selectNeighbors(boid, limits.view_angle);
+      const { separation, alignment, cohesion } = this.isInspected(boid)
+        ? this.keepInspection(boid, neighbors, radius, limits)
+        : this.flockingForces(boid, neighbors, radius, limits);
 
       // Apply forces
-      boid.applyForce(sep);
-      boid.applyForce(align);
+      boid.applyForce(separation);
+      boid.applyForce(alignment);
       boid.applyForce(cohesion);
 
+      // Pointer acts as a goal or a predator
+      if (this.pointer) {
+        if (this.pointer_mode === 'attract') {
+          boid.applyForce(boid.attract(this.pointer, this.pointer_radius, this.pointer_force));
+        } else if (this.pointer_mode === 'repel') {
+          boid.applyForce(boid.repel(this.pointer, this.pointer_radius, this.pointer_force));
+        }
+      }
+
+      // Flee every predator within the fear radius
+      for (const predator of this.predators) {
+        boid.applyForce(boid.repel(predator.position, this.fear_radius, this.fear_force));
+      }
+
+      this.applyEnvironmentForces(boid);
+    }
+
+    // Predators chase the nearest boid or the densest cluster
+    const cluster =
+      this.predators.length > 0 && this.predator_target === 'cluster'
+        ? this.densestClusterCenter()
+        : null;
+
+    for (const predator of this.predators) {
+      const target =
+        this.predator_target === 'cluster'
+          ? cluster
+          : (predator.nearestPrey(this.boids)?.position ?? null);
+      if (target) {
+        predator.applyForce(predator.pursue(target, this.predator_force));
+      }
+
+      this.applyEnvironmentForces(predator);
+    }
+
+    for (const agent of [...this.boids, ...this.predators]) {
       // Update physics
-      boid.update();
+      agent.update();
+      this.handleEdges(agent);
+    }
+
+    if (this.predator_catch) {
+      this.catchPrey();
+    }
+
+    this.step_count++;
+    for (const listener of this.stepListeners) {
+      listener.afterStep(this);
+    }
+  }
+
+  /**
+   * The flocking forces each of `boids` steers by and the flockmates its
+   * rules count (e.g. to draw them over a selected boid)
+   * Boids in `inspected` are answered from what the last step kept; others
+   * (and any boid before a step, or on a worker's mirror, which never steps)
+   * are worked out from the flock as it is now, without moving anything.
+   */
+  inspect(boids: Boid[] = this.boids): BoidInspection[] {
+    const flock = new Set(this.boids);
+    let perception: { radius: number; limits: PerceptionLimits } | null = null;
 
-      // Handle screen wrapping
-      boid.wrapAround(this.width, this.height);
+    return boids.map((boid) => {
+      const kept = this.inspections.get(boid);
+      if (kept) {
+        // Flockmates may have been caught or removed since the step
+        return { ...kept, neighbors: kept.neighbors.filter((neighbor) => flock.has(neighbor)) };
+      }
+
+      perception ??= this.preparePerception();
+      const { radius, limits } = perception;
+      return this.inspectBoid(boid, this.selectNeighbors(boid, limits.view_angle), radius, limits);
+    });
+  }
+
+  /**
+   * The spatial grid's cells for the flock as it is now (rebuilt, so this
+   * also works on a worker's mirror), or null when the spatial index is off
+   */
+  gridCells(): GridCells | null {
+    if (!this.use_spatial_index) return null;
+    this.preparePerception();
+    return this.grid.describe();
+  }
+
+  /**
+   * Index the flock for neighbor queries and work out the perception radius
+   * and limits under the neighbor strategy
+   */
+  private preparePerception(): { radius: number; limits: PerceptionLimits } {
+    if (this.use_spatial_index) {
+      this.grid.rebuild(
+        this.boids,
+        this.width,
+        this.height,
+        Math.max(this.perception_radius, this.separation_radius)
+      );
     }
+
+    // Topological neighbors count at any distance
+    const topological = this.neighbor_strategy === 'topological';
+    return {
+      radius: topological ? Infinity : this.perception_radius,
+      limits: {
+        separation_radius: topological ? Infinity : this.separation_radius,
+        view_angle: (this.view_angle * Math.PI) / 180,
+      },
+    };
+  }
+
+  /**
+   * Separation, alignment and cohesion of a boid from its neighbors
+   * Neighbor stats are gathered once, then all three forces are built from
+   * them, scaled by the boid's species weights.
+   */
+  private flockingForces(
+    boid: Boid,
+    neighbors: Boid[],
+    radius: number,
+    limits: PerceptionLimits
+  ): { separation: Vec2; alignment: Vec2; cohesion: Vec2 } {
+    const stats = boid.gatherNeighbors(neighbors, radius, this.interactions[boid.species], limits);
+    return this.weightedForces(boid, stats);
+  }
+
+  /**
+   * A boid's flocking forces along with the flockmates its rules count
+   */
+  private inspectBoid(
+    boid: Boid,
+    candidates: Boid[],
+    radius: number,
+    limits: PerceptionLimits
+  ): BoidInspection {
+    const neighbors: Boid[] = [];
+    const interactions = this.interactions[boid.species];
+    const stats = boid.gatherNeighbors(candidates, radius, interactions, limits, neighbors);
+    return { boid, neighbors, ...this.weightedForces(boid, stats) };
+  }
+
+  /**
+   * Is this step's flocking for a boid kept for `inspect`?
+   */
+  private isInspected(boid: Boid): boolean {
+    return this.inspected === 'all' || this.inspected.includes(boid);
+  }
+
+  /**
+   * Flocking forces for an inspected boid, kept until the next step so
+   * `inspect` doesn't redo them every frame
+   */
+  private keepInspection(
+    boid: Boid,
+    candidates: Boid[],
+    radius: number,
+    limits: PerceptionLimits
+  ): BoidInspection {
+    const inspection = this.inspectBoid(boid, candidates, radius, limits);
+    this.inspections.set(boid, inspection);
+    return inspection;
+  }
+
+  /**
+   * The three flocking forces from gathered neighbor stats, scaled by the
+   * global forces and the boid's species weights
+   */
+  private weightedForces(
+    boid: Boid,
+    stats: NeighborStats<Vec2>
+  ): { separation: Vec2; alignment: Vec2; cohesion: Vec2 } {
+    const species = this.species[boid.species];
+    return {
+      separation: boid.separationFrom(stats, this.separation_force * species.separation_weight),
+      alignment: boid.alignmentFrom(stats, this.alignment_force * species.alignment_weight),
+      cohesion: boid.cohesionFrom(stats, this.cohesion_force * species.cohesion_weight),
+    };
+  }
+
+  /**
+   * Steer around obstacles ahead and, with soft walls, away from the edges
+   */
+  private applyEnvironmentForces(agent: Boid): void {
+    // Steer around obstacles ahead
+    if (this.obstacles.length > 0) {
+      agent.applyForce(
+        agent.avoidObstacles(this.obstacles, this.obstacle_look_ahead, this.obstacle_force)
+      );
+    }
+
+    // Soft walls steer boids back before they reach the edge
+    if (this.boundary_mode === 'avoid') {
+      agent.applyForce(
+        agent.avoidEdges(this.width, this.height, this.boundary_margin, this.boundary_force)
+      );
+    }
+  }
+
+  /**
+   * Handle the canvas edges (soft walls still bounce as a last resort)
+   */
+  private handleEdges(agent: Boid): void {
+    if (this.boundary_mode === 'wrap') {
+      agent.wrapAround(this.width, this.height);
+    } else {
+      agent.bounce(this.width, this.height);
+    }
+  }
+
+  /**
+   * Each predator removes the nearest boid if it is within the catch radius
+   */
+  private catchPrey(): void {
+    for (const predator of this.predators) {
+      const prey = predator.nearestPrey(this.boids);
+      if (prey && Vec2.dist(predator.position, prey.position) < this.catch_radius) {
+        this.removeBoid(prey);
+        this.catches++;
+      }
+    }
+  }
+
+  /**
+   * The flockmates a boid's rules consume under the neighbor strategy:
+   * the metric candidates as they are, or the k nearest of them
+   */
+  private selectNeighbors(boid: Boid, view_angle: number): Boid[] {
+    const candidates = this.getNeighbors(boid);
+    if (this.neighbor_strategy === 'metric') return candidates;
+
+    // At least one neighbor, counted in whole boids
+    const k = Math.max(1, Math.floor(this.neighbor_count));
+    let nearest = boid.nearestNeighbors(candidates, k, view_angle);
+
+    // The grid only covers the perception radii around the boid; topological
+    // neighbors may lie further out, so fall back to the whole flock then
+    if (
+      this.neighbor_strategy === 'topological' &&
+      this.use_spatial_index &&
+      (nearest.length < k ||
+        Vec2.dist(boid.position, nearest[k - 1].position) >
+          Math.max(this.perception_radius, this.separation_radius))
+    ) {
+      nearest = boid.nearestNeighbors(this.boids, k, view_angle);
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Get the candidate flockmates for a boid: the nearby grid cells when the
+   * spatial index is enabled, otherwise the whole flock (brute force)
+   */
+  private getNeighbors(boid: Boid): Boid[] {
+    return this.use_spatial_index ? this.grid.query(boid.position) : this.boids;
   }
 
   /**
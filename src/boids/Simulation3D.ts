@@ -0,0 +1,158 @@
+import { Random } from '../math/Random';
+import { Vec3 } from '../math/Vec3';
+import { PerceptionLimits } from './Agent';
+import { Boid3D } from './Boid3D';
+import { FIXED_DT, FixedTimestep } from './FixedTimestep';
+
+/**
+ * What happens at the faces of the box: wrap to the opposite face, or
+ * bounce off it
+ */
+export type BoxMode = 'wrap' | 'bounce';
+
+/**
+ * Simulation3D - The flock in a width x height x depth box
+ * The counterpart of Simulation for the 3D mode: the same fixed timestep,
+ * seeded spawning and flocking parameters, with boids whose rules are
+ * shared with 2D (see Agent). It covers the core rules only (no species,
+ * obstacles, predators or pointer), and checks every pair of boids, so it
+ * is meant for flocks of a few hundred.
+ */
+export class Simulation3D {
+  /**
+   * Most boids the flock can hold (every pair is checked each step)
+   */
+  static readonly MAX_BOIDS = 600;
+
+  boids: Boid3D[] = [];
+  width: number;
+  height: number;
+  depth: number;
+  separation_force: number = 1.5;
+  alignment_force: number = 1.0;
+  cohesion_force: number = 1.0;
+  perception_radius: number = 100; // Alignment and cohesion
+  separation_radius: number = 50;
+  // Full width of each boid's view cone in degrees; 360 sees all around
+  view_angle: number = 360;
+  max_speed: number = 4;
+  max_force: number = 0.2;
+  box_mode: BoxMode = 'wrap';
+  seed: number = 1;
+  time_scale: number = 1;
+  paused: boolean = false;
+
+  // Number of steps run so far
+  step_count: number = 0;
+
+  // Fraction of a step left in the accumulator, for render interpolation
+  alpha: number = 0;
+  private clock = new FixedTimestep();
+
+  // Seeded PRNG behind every random decision in the simulation
+  readonly random = new Random(this.seed);
+
+  constructor(width: number, height: number, depth: number) {
+    this.width = width;
+    this.height = height;
+    this.depth = depth;
+  }
+
+  /**
+   * Spawn a boid at a random position and direction drawn from the seeded
+   * PRNG
+   */
+  spawnBoid(): Boid3D {
+    const random = this.random;
+    const boid = new Boid3D(
+      random.range(0, this.width),
+      random.range(0, this.height),
+      random.range(0, this.depth),
+      Vec3.fromUnit(random.next(), random.next())
+    );
+    boid.max_speed = this.max_speed;
+    boid.max_force = this.max_force;
+    this.boids.push(boid);
+    return boid;
+  }
+
+  /**
+   * Spawn or remove boids (newest first) until there are `count`, up to
+   * MAX_BOIDS
+   */
+  setCount(count: number): void {
+    count = Math.min(count, Simulation3D.MAX_BOIDS);
+    while (this.boids.length < count) {
+      this.spawnBoid();
+    }
+    this.boids.length = Math.min(this.boids.length, Math.max(0, count));
+  }
+
+  /**
+   * Copy the speed and force limits onto every boid (call after changing
+   * them)
+   */
+  applyLimits(): void {
+    for (const boid of this.boids) {
+      boid.max_speed = this.max_speed;
+      boid.max_force = this.max_force;
+    }
+  }
+
+  /**
+   * Set the seed and restart the PRNG sequence from it
+   */
+  reseed(seed: number): void {
+    this.seed = seed;
+    this.random.reseed(seed);
+  }
+
+  /**
+   * Replace the flock with as many freshly spawned boids, reseeding first
+   * so the same seed always gives the same flock
+   */
+  restart(): void {
+    const count = this.boids.length;
+    this.boids = [];
+    this.reseed(this.seed);
+    this.setCount(count);
+  }
+
+  /**
+   * Advance the simulation by `dt` seconds of real time, in fixed steps
+   * (see Simulation.update)
+   */
+  update(dt: number = FIXED_DT): void {
+    if (this.paused) return;
+    this.alpha = this.clock.advance(dt * this.time_scale, () => this.step());
+  }
+
+  /**
+   * One fixed step: every boid's forces are computed from the same
+   * snapshot of the flock, then everyone moves and the box's faces apply
+   */
+  step(): void {
+    const limits: PerceptionLimits = {
+      separation_radius: this.separation_radius,
+      view_angle: (this.view_angle * Math.PI) / 180,
+    };
+
+    for (const boid of this.boids) {
+      const stats = boid.gatherNeighbors(this.boids, this.perception_radius, undefined, limits);
+      boid.applyForce(boid.separationFrom(stats, this.separation_force));
+      boid.applyForce(boid.alignmentFrom(stats, this.alignment_force));
+      boid.applyForce(boid.cohesionFrom(stats, this.cohesion_force));
+    }
+
+    for (const boid of this.boids) {
+      boid.update();
+      if (this.box_mode === 'wrap') {
+        boid.wrapAround(this.width, this.height, this.depth);
+      } else {
+        boid.bounce(this.width, this.height, this.depth);
+      }
+    }
+
+    this.step_count++;
+  }
+}
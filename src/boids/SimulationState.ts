@@ -0,0 +1,493 @@
+import { Boid } from './Boid';
+import { Obstacle } from './Obstacle';
+import { Predator, PredatorTarget } from './Predator';
+import { InteractionRule, SPECIES_RANGES, Species } from './Species';
+import type { BoundaryMode, NeighborStrategy, PointerMode, Simulation } from './Simulation';
+import { Vec2 } from '../math/Vec2';
+
+/**
+ * Version of the saved-state schema. Bump it whenever the shape changes;
+ * files with any other version are rejected with a clear error.
+ */
+export const STATE_VERSION = 1;
+
+/**
+ * Saved state of a single boid or predator
+ */
+export interface AgentState {
+  position: { x: number; y: number };
+  velocity: { x: number; y: number };
+  acceleration: { x: number; y: number };
+  max_speed: number;
+  max_force: number;
+  species: number;
+}
+
+/**
+ * Every tunable simulation parameter (the transient pointer and pause
+ * state are left out)
+ */
+export interface SimulationParams {
+  separation_force: number;
+  alignment_force: number;
+  cohesion_force: number;
+  perception_radius: number;
+  separation_radius: number;
+  view_angle: number;
+  neighbor_strategy: NeighborStrategy;
+  neighbor_count: number;
+  use_spatial_index: boolean;
+  seed: number;
+  time_scale: number;
+  boundary_mode: BoundaryMode;
+  boundary_margin: number;
+  boundary_force: number;
+  obstacle_look_ahead: number;
+  obstacle_force: number;
+  predator_target: PredatorTarget;
+  predator_speed: number;
+  predator_force: number;
+  fear_radius: number;
+  fear_force: number;
+  predator_catch: boolean;
+  catch_radius: number;
+  pointer_mode: PointerMode;
+  pointer_radius: number;
+  pointer_force: number;
+}
+
+/**
+ * Versioned JSON snapshot of a whole run
+ */
+export interface SimulationState {
+  version: number;
+  width: number;
+  height: number;
+  params: SimulationParams;
+  species: Species[];
+  interactions: InteractionRule[][];
+  obstacles: Obstacle[];
+  boids: AgentState[];
+  predators: AgentState[];
+  catches: number;
+}
+
+/**
+ * Thrown when saved state is malformed or from an unsupported version
+ * The message names the offending field, e.g. "boids[3].velocity.x".
+ */
+export class StateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateError';
+  }
+}
+
+// Allowed values for each string-union parameter
+export const PARAM_OPTIONS: Partial<Record<keyof SimulationParams, readonly string[]>> = {
+  neighbor_strategy: ['metric', 'topological', 'hybrid'],
+  boundary_mode: ['wrap', 'bounce', 'avoid'],
+  predator_target: ['nearest', 'cluster'],
+  pointer_mode: ['off', 'attract', 'repel'],
+};
+
+// Bounds of each numeric parameter with a slider, shared by the control
+// panel and the checks on parameters loaded from links and files
+export const PARAM_RANGES: Partial<Record<keyof SimulationParams, { min: number; max: number }>> = {
+  separation_force: { min: 0, max: 5 },
+  alignment_force: { min: 0, max: 5 },
+  cohesion_force: { min: 0, max: 5 },
+  perception_radius: { min: 10, max: 200 },
+  separation_radius: { min: 10, max: 200 },
+  view_angle: { min: 30, max: 360 },
+  neighbor_count: { min: 1, max: 20 },
+  time_scale: { min: 0.1, max: 4 },
+  boundary_margin: { min: 10, max: 200 },
+  boundary_force: { min: 0, max: 5 },
+  obstacle_look_ahead: { min: 10, max: 200 },
+  obstacle_force: { min: 0, max: 10 },
+  predator_speed: { min: 1, max: 10 },
+  predator_force: { min: 0, max: 5 },
+  fear_radius: { min: 10, max: 300 },
+  fear_force: { min: 0, max: 5 },
+  pointer_radius: { min: 20, max: 400 },
+  pointer_force: { min: 0, max: 5 },
+};
+
+/**
+ * Is `value` within the bounds of parameter `key` (if it has any)?
+ */
+export function inParamRange(key: keyof SimulationParams, value: number): boolean {
+  const range = PARAM_RANGES[key];
+  return !range || (value >= range.min && value <= range.max);
+}
+
+// Parameter names in schema order
+export const PARAM_KEYS: (keyof SimulationParams)[] = [
+  'separation_force',
+  'alignment_force',
+  'cohesion_force',
+  'perception_radius',
+  'separation_radius',
+  'view_angle',
+  'neighbor_strategy',
+  'neighbor_count',
+  'use_spatial_index',
+  'seed',
+  'time_scale',
+  'boundary_mode',
+  'boundary_margin',
+  'boundary_force',
+  'obstacle_look_ahead',
+  'obstacle_force',
+  'predator_target',
+  'predator_speed',
+  'predator_force',
+  'fear_radius',
+  'fear_force',
+  'predator_catch',
+  'catch_radius',
+  'pointer_mode',
+  'pointer_radius',
+  'pointer_force',
+];
+
+/**
+ * Current value of every tunable parameter
+ */
+export function getParams(simulation: Simulation): SimulationParams {
+  const params = {} as Record<keyof SimulationParams, unknown>;
+  for (const key of PARAM_KEYS) {
+    params[key] = simulation[key];
+  }
+  return params as SimulationParams;
+}
+
+/**
+ * Set the given parameters, copying only known keys (never stray ones
+ * from a file or URL)
+ */
+export function setParams(simulation: Simulation, params: Partial<SimulationParams>): void {
+  for (const key of PARAM_KEYS) {
+    if (params[key] !== undefined) {
+      Object.assign(simulation, { [key]: params[key] });
+    }
+  }
+}
+
+/**
+ * Snapshot a simulation as plain JSON-safe data
+ */
+export function serializeSimulation(simulation: Simulation): SimulationState {
+  return {
+    version: STATE_VERSION,
+    width: simulation.width,
+    height: simulation.height,
+    params: getParams(simulation),
+    species: simulation.species.map((species) => ({ ...species })),
+    interactions: simulation.interactions.map((row) => row.map((rule) => ({ ...rule }))),
+    obstacles: JSON.parse(JSON.stringify(simulation.obstacles)),
+    boids: simulation.boids.map(serializeAgent),
+    predators: simulation.predators.map(serializeAgent),
+    catches: simulation.catches,
+  };
+}
+
+/**
+ * Replace a simulation's parameters, species, obstacles and agents with a
+ * validated snapshot. The simulation object is kept, so anything bound to
+ * it (like the control panel) stays connected.
+ */
+export function restoreSimulation(simulation: Simulation, state: SimulationState): void {
+  simulation.width = state.width;
+  simulation.height = state.height;
+  setParams(simulation, state.params);
+  simulation.reseed(state.params.seed);
+
+  simulation.species = state.species.map((species) => ({ ...species }));
+  simulation.interactions = state.interactions.map((row) => row.map((rule) => ({ ...rule })));
+  simulation.obstacles = JSON.parse(JSON.stringify(state.obstacles));
+
+  simulation.clear();
+  for (const saved of state.boids) {
+    const boid = new Boid(saved.position.x, saved.position.y);
+    restoreAgent(boid, saved);
+    simulation.addBoid(boid);
+  }
+
+  simulation.predators = [];
+  for (const saved of state.predators) {
+    const predator = new Predator(saved.position.x, saved.position.y);
+    restoreAgent(predator, saved);
+    simulation.addPredator(predator);
+  }
+
+  simulation.catches = state.catches;
+  simulation.alpha = 0;
+}
+
+/**
+ * Cheap fingerprint of the state outside the parameters. A step changes it
+ * only by moving agents and catching boids, so comparing it before a step
+ * with the value after the previous one reveals edits made in between
+ * (such as resetting the catch count).
+ */
+export function stateSignature(simulation: Simulation): string {
+  let checksum = 0;
+  for (const agent of [...simulation.boids, ...simulation.predators]) {
+    checksum += agent.position.x * 3 + agent.position.y * 7 + agent.max_speed + agent.max_force;
+  }
+
+  return [
+    simulation.width,
+    simulation.height,
+    simulation.boids.length,
+    simulation.predators.length,
+    simulation.catches,
+    checksum,
+    JSON.stringify(simulation.obstacles),
+    JSON.stringify(simulation.species),
+    JSON.stringify(simulation.interactions),
+  ].join('|');
+}
+
+/**
+ * Check that parsed JSON is a complete state of the current version,
+ * throwing a StateError that names the first bad field otherwise
+ */
+export function validateState(data: unknown): SimulationState {
+  const state = expectObject(data, 'state');
+
+  if (!('version' in state)) {
+    throw new StateError('Not a saved simulation: "version" is missing');
+  }
+  const version = expectNumber(state.version, 'version');
+  if (version < STATE_VERSION) {
+    throw new StateError(
+      `Saved with schema version ${version}, which is older than the supported version ${STATE_VERSION}`
+    );
+  }
+  if (version > STATE_VERSION) {
+    throw new StateError(
+      `Saved with schema version ${version}, which is newer than the supported version ${STATE_VERSION}`
+    );
+  }
+
+  expectPositive(state.width, 'width');
+  expectPositive(state.height, 'height');
+
+  const params = expectObject(state.params, 'params');
+  for (const key of PARAM_KEYS) {
+    const path = `params.${key}`;
+    const options = PARAM_OPTIONS[key];
+    if (options) {
+      expectOneOf(params[key], options, path);
+    } else if (key === 'use_spatial_index' || key === 'predator_catch') {
+      expectBoolean(params[key], path);
+    } else {
+      expectInRange(expectNumber(params[key], path), PARAM_RANGES[key], path);
+    }
+  }
+
+  const { species } = validateSpecies(state.species, state.interactions);
+
+  expectArray(state.obstacles, 'obstacles').forEach((obstacle, i) =>
+    validateObstacle(obstacle, `obstacles[${i}]`)
+  );
+
+  expectArray(state.boids, 'boids').forEach((boid, i) =>
+    validateAgent(boid, `boids[${i}]`, species.length)
+  );
+  expectArray(state.predators, 'predators').forEach((predator, i) =>
+    validateAgent(predator, `predators[${i}]`, species.length)
+  );
+
+  expectNumber(state.catches, 'catches');
+
+  return data as SimulationState;
+}
+
+/**
+ * Check a list of species and their interaction matrix (one row and one
+ * entry per species), throwing a StateError that names the first bad
+ * field otherwise
+ */
+export function validateSpecies(
+  speciesData: unknown,
+  interactionsData: unknown
+): { species: Species[]; interactions: InteractionRule[][] } {
+  const species = expectArray(speciesData, 'species');
+  if (species.length === 0) {
+    throw new StateError('species must have at least one entry');
+  }
+  species.forEach((entry, i) => {
+    const path = `species[${i}]`;
+    const fields = expectObject(entry, path);
+    expectString(fields.name, `${path}.name`);
+    expectString(fields.color, `${path}.color`);
+    for (const key of [
+      'separation_weight',
+      'alignment_weight',
+      'cohesion_weight',
+      'max_speed',
+      'max_force',
+      'size',
+    ] as const) {
+      expectInRange(
+        expectNumber(fields[key], `${path}.${key}`),
+        SPECIES_RANGES[key],
+        `${path}.${key}`
+      );
+    }
+  });
+
+  const interactions = expectArray(interactionsData, 'interactions');
+  if (interactions.length !== species.length) {
+    throw new StateError(`interactions must have one row per species (${species.length})`);
+  }
+  interactions.forEach((row, a) => {
+    const rules = expectArray(row, `interactions[${a}]`);
+    if (rules.length !== species.length) {
+      throw new StateError(
+        `interactions[${a}] must have one entry per species (${species.length})`
+      );
+    }
+    rules.forEach((rule, b) => {
+      const path = `interactions[${a}][${b}]`;
+      const fields = expectObject(rule, path);
+      for (const key of ['separation', 'alignment', 'cohesion']) {
+        expectBoolean(fields[key], `${path}.${key}`);
+      }
+    });
+  });
+
+  return { species: species as Species[], interactions: interactions as InteractionRule[][] };
+}
+
+/**
+ * Parse and validate saved JSON text
+ */
+export function parseState(json: string): SimulationState {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new StateError(`Not valid JSON: ${(error as Error).message}`);
+  }
+  return validateState(data);
+}
+
+function serializeAgent(agent: Boid): AgentState {
+  return {
+    position: { x: agent.position.x, y: agent.position.y },
+    velocity: { x: agent.velocity.x, y: agent.velocity.y },
+    acceleration: { x: agent.acceleration.x, y: agent.acceleration.y },
+    max_speed: agent.max_speed,
+    max_force: agent.max_force,
+    species: agent.species,
+  };
+}
+
+function restoreAgent(agent: Boid, saved: AgentState): void {
+  agent.velocity = new Vec2(saved.velocity.x, saved.velocity.y);
+  agent.acceleration = new Vec2(saved.acceleration.x, saved.acceleration.y);
+  agent.max_speed = saved.max_speed;
+  agent.max_force = saved.max_force;
+  agent.species = saved.species;
+}
+
+function validateAgent(data: unknown, path: string, species_count: number): void {
+  const agent = expectObject(data, path);
+  for (const key of ['position', 'velocity', 'acceleration']) {
+    const vector = expectObject(agent[key], `${path}.${key}`);
+    expectNumber(vector.x, `${path}.${key}.x`);
+    expectNumber(vector.y, `${path}.${key}.y`);
+  }
+  expectNumber(agent.max_speed, `${path}.max_speed`);
+  expectNumber(agent.max_force, `${path}.max_force`);
+
+  const species = expectNumber(agent.species, `${path}.species`);
+  if (!Number.isInteger(species) || species < 0 || species >= species_count) {
+    throw new StateError(`${path}.species must be a species index below ${species_count}`);
+  }
+}
+
+function validateObstacle(data: unknown, path: string): void {
+  const obstacle = expectObject(data, path);
+  const kind = expectOneOf(obstacle.kind, ['circle', 'rect', 'polyline'], `${path}.kind`);
+
+  if (kind === 'polyline') {
+    expectArray(obstacle.points, `${path}.points`).forEach((point, i) => {
+      const fields = expectObject(point, `${path}.points[${i}]`);
+      expectNumber(fields.x, `${path}.points[${i}].x`);
+      expectNumber(fields.y, `${path}.points[${i}].y`);
+    });
+    return;
+  }
+
+  const keys = kind === 'circle' ? ['x', 'y', 'radius'] : ['x', 'y', 'width', 'height'];
+  for (const key of keys) {
+    expectNumber(obstacle[key], `${path}.${key}`);
+  }
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new StateError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new StateError(`${path} must be an array`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new StateError(`${path} must be a finite number`);
+  }
+  return value;
+}
+
+function expectInRange(
+  value: number,
+  range: { min: number; max: number } | undefined,
+  path: string
+): number {
+  if (range && (value < range.min || value > range.max)) {
+    throw new StateError(`${path} must be between ${range.min} and ${range.max}`);
+  }
+  return value;
+}
+
+function expectPositive(value: unknown, path: string): number {
+  const number = expectNumber(value, path);
+  if (number <= 0) {
+    throw new StateError(`${path} must be greater than 0`);
+  }
+  return number;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new StateError(`${path} must be true or false`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new StateError(`${path} must be a string`);
+  }
+  return value;
+}
+
+function expectOneOf(value: unknown, options: readonly string[], path: string): string {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    throw new StateError(`${path} must be one of ${options.map((o) => `"${o}"`).join(', ')}`);
+  }
+  return value;
+}
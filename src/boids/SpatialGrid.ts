@@ -0,0 +1,110 @@
+import { Boid } from './Boid';
+import { Vec2 } from '../math/Vec2';
+
+/**
+ * Layout of a grid and how many boids each cell holds (row by row), for
+ * drawing it
+ */
+export interface GridCells {
+  cell_size: number;
+  cols: number;
+  rows: number;
+  counts: number[];
+}
+
+/**
+ * SpatialGrid buckets boids into uniform cells so neighbor queries only
+ * look at nearby flockmates instead of the whole flock.
+ *
+ * The grid is rebuilt every step with a cell size of at least the
+ * perception radius, so every boid within that radius of a point lives in
+ * the 3x3 block of cells around it. Cell indices wrap toroidally, which
+ * keeps boids that sit on (or just past) the canvas edge in a valid cell.
+ */
+export class SpatialGrid {
+  private cellSize: number = 1;
+  private cols: number = 1;
+  private rows: number = 1;
+  private cells: Boid[][] = [[]];
+
+  /**
+   * Smallest allowed cell size, so tiny or negative radii don't explode
+   * the number of cells
+   */
+  static readonly MIN_CELL_SIZE = 10;
+
+  /**
+   * Side of each cell as last rebuilt (never below MIN_CELL_SIZE)
+   */
+  get cell_size(): number {
+    return this.cellSize;
+  }
+
+  /**
+   * Re-bucket all boids for the current step
+   */
+  rebuild(boids: Boid[], width: number, height: number, cellSize: number): void {
+    this.cellSize = Math.max(cellSize, SpatialGrid.MIN_CELL_SIZE);
+    this.cols = Math.max(1, Math.ceil(width / this.cellSize));
+    this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+
+    const cellCount = this.cols * this.rows;
+    this.cells = [];
+    for (let i = 0; i < cellCount; i++) {
+      this.cells.push([]);
+    }
+
+    for (const boid of boids) {
+      const col = this.wrap(Math.floor(boid.position.x / this.cellSize), this.cols);
+      const row = this.wrap(Math.floor(boid.position.y / this.cellSize), this.rows);
+      this.cells[row * this.cols + col].push(boid);
+    }
+  }
+
+  /**
+   * Get every boid in the 3x3 block of cells around a position.
+   * The result is a superset of the boids within the cell size; callers
+   * still filter by exact distance.
+   */
+  query(position: Vec2): Boid[] {
+    const col = Math.floor(position.x / this.cellSize);
+    const row = Math.floor(position.y / this.cellSize);
+
+    // Collect unique cell indices (small grids wrap onto the same cell)
+    const visited = new Set<number>();
+    const result: Boid[] = [];
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const index = this.wrap(row + dy, this.rows) * this.cols + this.wrap(col + dx, this.cols);
+        if (visited.has(index)) continue;
+        visited.add(index);
+
+        for (const boid of this.cells[index]) {
+          result.push(boid);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The cells as last rebuilt
+   */
+  describe(): GridCells {
+    return {
+      cell_size: this.cellSize,
+      cols: this.cols,
+      rows: this.rows,
+      counts: this.cells.map((cell) => cell.length),
+    };
+  }
+
+  /**
+   * Wrap a cell coordinate into [0, count)
+   */
+  private wrap(value: number, count: number): number {
+    return ((value % count) + count) % count;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * A kind of boid with its own rule weights, limits and look
+ * Rule weights multiply the simulation's global separation/alignment/cohesion
+ * forces, so the global sliders still scale every species at once.
+ */
+export interface Species {
+  name: string;
+  separation_weight: number;
+  alignment_weight: number;
+  cohesion_weight: number;
+  max_speed: number;
+  max_force: number;
+  color: string; // CSS color, e.g. '#0064c8'
+  size: number;
+}
+
+/**
+ * Which rules a boid applies to a neighbor of some (possibly other) species
+ */
+export interface InteractionRule {
+  separation: boolean;
+  alignment: boolean;
+  cohesion: boolean;
+}
+
+/**
+ * Bounds of each numeric species setting, shared by the Species folder's
+ * sliders and the checks on species loaded from links and files
+ */
+export const SPECIES_RANGES: Partial<Record<keyof Species, { min: number; max: number }>> = {
+  separation_weight: { min: 0, max: 3 },
+  alignment_weight: { min: 0, max: 3 },
+  cohesion_weight: { min: 0, max: 3 },
+  max_speed: { min: 1, max: 10 },
+  max_force: { min: 0.05, max: 1 },
+  size: { min: 3, max: 20 },
+};
+
+/**
+ * Colors handed out to new species in order
+ */
+export const SPECIES_PALETTE = ['#0064c8', '#e8743b', '#3ba272', '#c94bb3', '#e5c03c', '#5bc0de'];
+
+/**
+ * Create a species with the classic single-flock defaults
+ */
+export function createSpecies(name: string, overrides: Partial<Species> = {}): Species {
+  return {
+    name,
+    separation_weight: 1,
+    alignment_weight: 1,
+    cohesion_weight: 1,
+    max_speed: 4,
+    max_force: 0.2,
+    color: SPECIES_PALETTE[0],
+    size: 8,
+    ...overrides,
+  };
+}
+
+/**
+ * Interaction where every rule applies (the classic single-flock behavior)
+ */
+export function createInteraction(overrides: Partial<InteractionRule> = {}): InteractionRule {
+  return {
+    separation: true,
+    alignment: true,
+    cohesion: true,
+    ...overrides,
+  };
+}
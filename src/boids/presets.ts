@@ -0,0 +1,135 @@
+import { Simulation } from './Simulation';
+import {
+  PARAM_KEYS,
+  PARAM_OPTIONS,
+  SimulationParams,
+  getParams,
+  inParamRange,
+  setParams,
+} from './SimulationState';
+
+/**
+ * A named parameter set. Parameters left out keep their default values.
+ */
+export interface Preset {
+  name: string;
+  params: Partial<SimulationParams>;
+}
+
+/**
+ * Presets that ship with the app
+ */
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'Default',
+    params: {},
+  },
+  {
+    // Strong alignment and cohesion with a short reach: compact, orderly groups
+    name: 'Tight School',
+    params: {
+      separation_force: 1.2,
+      alignment_force: 2.0,
+      cohesion_force: 2.0,
+      perception_radius: 60,
+      separation_radius: 25,
+      view_angle: 300,
+    },
+  },
+  {
+    // Starling-style topological neighbors with a rear blind spot
+    name: 'Murmuration',
+    params: {
+      separation_force: 1.5,
+      alignment_force: 1.5,
+      cohesion_force: 1.2,
+      separation_radius: 30,
+      view_angle: 270,
+      neighbor_strategy: 'topological',
+      neighbor_count: 7,
+      boundary_mode: 'avoid',
+    },
+  },
+  {
+    // Little alignment and heavy cohesion: boids swarm around each other
+    name: 'Chaotic Swarm',
+    params: {
+      separation_force: 0.5,
+      alignment_force: 0.1,
+      cohesion_force: 2.5,
+      perception_radius: 150,
+      time_scale: 1.5,
+    },
+  },
+  {
+    // Narrow forward vision and strong alignment form long single-file lanes
+    name: 'Lanes',
+    params: {
+      separation_force: 2.0,
+      alignment_force: 3.0,
+      cohesion_force: 0.2,
+      perception_radius: 60,
+      separation_radius: 20,
+      view_angle: 120,
+    },
+  },
+];
+
+/**
+ * Parameters of a freshly constructed simulation
+ */
+export function defaultParams(): SimulationParams {
+  return getParams(new Simulation(1, 1));
+}
+
+/**
+ * Apply a preset on top of the defaults. The seed is kept so switching
+ * presets doesn't reshuffle the flock.
+ */
+export function applyPreset(simulation: Simulation, preset: Preset): void {
+  const seed = simulation.seed;
+  setParams(simulation, { ...defaultParams(), ...preset.params, seed });
+  simulation.applyPredatorSpeed();
+}
+
+/**
+ * Encode parameters as a URL query string (without the leading "?")
+ */
+export function encodeParams(params: Partial<SimulationParams>): string {
+  const query = new URLSearchParams();
+  for (const key of PARAM_KEYS) {
+    if (params[key] !== undefined) {
+      query.set(key, String(params[key]));
+    }
+  }
+  return query.toString();
+}
+
+/**
+ * Decode parameters from a URL query string. Unknown keys and values that
+ * don't fit a parameter's type, options or range are skipped.
+ */
+export function decodeParams(query: string): Partial<SimulationParams> {
+  const defaults = defaultParams();
+  const search = new URLSearchParams(query);
+  const params: Record<string, unknown> = {};
+
+  for (const key of PARAM_KEYS) {
+    const raw = search.get(key);
+    if (raw === null) continue;
+
+    const options = PARAM_OPTIONS[key];
+    if (options) {
+      if (options.includes(raw)) params[key] = raw;
+    } else if (typeof defaults[key] === 'boolean') {
+      if (raw === 'true' || raw === 'false') params[key] = raw === 'true';
+    } else {
+      const value = Number(raw);
+      if (raw.trim() !== '' && Number.isFinite(value) && inParamRange(key, value)) {
+        params[key] = value;
+      }
+    }
+  }
+
+  return params as Partial<SimulationParams>;
+}
@@ -0,0 +1,312 @@
+import { Simulation } from '../boids/Simulation';
+import { FlockMetrics, METRIC_KEYS, computeMetrics } from '../boids/Metrics';
+import { PARAM_KEYS, PARAM_OPTIONS, SimulationParams, setParams } from '../boids/SimulationState';
+import { defaultParams } from '../boids/presets';
+
+/**
+ * Thrown for command-line arguments that can't be used; the message says
+ * which one and why
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export type OutputFormat = 'csv' | 'json';
+
+/**
+ * Everything a parameter sweep needs, parsed from the command line
+ */
+export interface SweepOptions {
+  // Values to try for each swept parameter; every combination is run
+  grid: Partial<Record<keyof SimulationParams, number[]>>;
+  seeds: number[];
+  steps: number;
+  // Steps run before metrics start being averaged
+  warmup: number;
+  boids: number;
+  width: number;
+  height: number;
+  format: OutputFormat;
+  // Output file, or null for stdout
+  out: string | null;
+}
+
+/**
+ * Summary of one run: the parameters and seed it used, plus the mean (over
+ * the steps after warm-up) and final value of every metric
+ */
+export interface RunSummary {
+  seed: number;
+  params: Partial<SimulationParams>;
+  mean: FlockMetrics;
+  final: FlockMetrics;
+}
+
+/**
+ * Parameters swept by default (each at its default value unless given)
+ */
+export const DEFAULT_SWEEP_KEYS: (keyof SimulationParams)[] = [
+  'separation_force',
+  'alignment_force',
+  'cohesion_force',
+  'perception_radius',
+];
+
+export const USAGE = `Usage: npm run sweep -- [options]
+
+Runs the simulation headless for every combination of the swept parameter
+values and seeds, and writes one summary row per run.
+
+Options:
+  --<param> <values>   Values for any numeric parameter, e.g.
+                       --cohesion_force 0.5,1,2 or --perception_radius 50:150:25
+                       (start:stop:step, inclusive)
+  --seeds <values>     Seeds to run each combination with (default: 1)
+  --steps <n>          Steps per run (default: 1000)
+  --warmup <n>         Steps before metrics are averaged (default: 0)
+  --boids <n>          Boids per run (default: 50)
+  --width <n>          World width (default: 800)
+  --height <n>         World height (default: 800)
+  --format csv|json    Output format (default: from --out, else csv)
+  --out <file>         Write to a file instead of stdout
+  --help               Show this message
+`;
+
+/**
+ * Parse command-line arguments (without the node and script paths)
+ * Returns null when --help was asked for.
+ */
+export function parseArgs(args: string[]): SweepOptions | null {
+  const defaults = defaultParams();
+  const options: SweepOptions = {
+    grid: {},
+    seeds: [1],
+    steps: 1000,
+    warmup: 0,
+    boids: 50,
+    width: 800,
+    height: 800,
+    format: 'csv',
+    out: null,
+  };
+  let format: OutputFormat | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') return null;
+    if (!arg.startsWith('--')) {
+      throw new UsageError(`Unexpected argument "${arg}"`);
+    }
+
+    const name = arg.slice(2);
+    const value = args[++i];
+    if (value === undefined) {
+      throw new UsageError(`Missing value for ${arg}`);
+    }
+
+    switch (name) {
+      case 'seeds':
+        options.seeds = parseValues(arg, value).map((seed) => Math.floor(seed));
+        break;
+      case 'steps':
+      case 'warmup':
+      case 'boids':
+      case 'width':
+      case 'height':
+        options[name] = parseCount(arg, value);
+        break;
+      case 'format':
+        if (value !== 'csv' && value !== 'json') {
+          throw new UsageError(`${arg} must be csv or json, got "${value}"`);
+        }
+        format = value;
+        break;
+      case 'out':
+        options.out = value;
+        break;
+      default: {
+        const key = PARAM_KEYS.find((k) => k === name);
+        if (!key || typeof defaults[key] !== 'number' || PARAM_OPTIONS[key]) {
+          throw new UsageError(`Unknown option ${arg}`);
+        }
+        options.grid[key] = parseValues(arg, value);
+      }
+    }
+  }
+
+  if (options.warmup >= options.steps) {
+    throw new UsageError('--warmup must be less than --steps');
+  }
+
+  // Sweep the usual parameters even if only some were given
+  for (const key of DEFAULT_SWEEP_KEYS) {
+    options.grid[key] ??= [defaults[key] as number];
+  }
+
+  options.format = format ?? (options.out?.endsWith('.json') ? 'json' : 'csv');
+  return options;
+}
+
+/**
+ * Every combination of the grid's values, in a stable order (the last
+ * parameter varies fastest)
+ */
+export function expandGrid(grid: SweepOptions['grid']): Partial<SimulationParams>[] {
+  let combinations: Partial<SimulationParams>[] = [{}];
+  for (const key of PARAM_KEYS) {
+    const values = grid[key];
+    if (!values) continue;
+    combinations = combinations.flatMap((params) =>
+      values.map((value) => ({ ...params, [key]: value }))
+    );
+  }
+  return combinations;
+}
+
+/**
+ * Run one simulation headless and summarize its metrics
+ */
+export function runOnce(
+  params: Partial<SimulationParams>,
+  seed: number,
+  options: Pick<SweepOptions, 'steps' | 'warmup' | 'boids' | 'width' | 'height'>
+): RunSummary {
+  const simulation = new Simulation(options.width, options.height);
+  setParams(simulation, params);
+  simulation.applyPredatorSpeed();
+  simulation.reseed(seed);
+  simulation.populate(options.boids);
+
+  const total = zeroMetrics();
+  let final = zeroMetrics();
+  for (let step = 1; step <= options.steps; step++) {
+    simulation.step();
+    if (step <= options.warmup) continue;
+
+    final = computeMetrics(simulation);
+    for (const key of METRIC_KEYS) {
+      total[key] += final[key];
+    }
+  }
+
+  const measured = options.steps - options.warmup;
+  const mean = zeroMetrics();
+  for (const key of METRIC_KEYS) {
+    mean[key] = total[key] / measured;
+  }
+
+  return { seed, params, mean, final };
+}
+
+/**
+ * Run every combination of the grid with every seed
+ * `onProgress` is called after each run with the number done and the total.
+ */
+export function runSweep(
+  options: SweepOptions,
+  onProgress?: (done: number, total: number) => void
+): RunSummary[] {
+  const combinations = expandGrid(options.grid);
+  const total = combinations.length * options.seeds.length;
+  const results: RunSummary[] = [];
+
+  for (const params of combinations) {
+    for (const seed of options.seeds) {
+      results.push(runOnce(params, seed, options));
+      onProgress?.(results.length, total);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Format summaries as CSV: seed, the swept parameters, then
+ * `<metric>_mean` and `<metric>_final` columns
+ */
+export function summariesToCSV(results: RunSummary[]): string {
+  const keys = PARAM_KEYS.filter((key) => results.some((r) => r.params[key] !== undefined));
+  const header = [
+    'seed',
+    ...keys,
+    ...METRIC_KEYS.flatMap((metric) => [`${metric}_mean`, `${metric}_final`]),
+  ];
+
+  const lines = [header.join(',')];
+  for (const result of results) {
+    lines.push(
+      [
+        result.seed,
+        ...keys.map((key) => result.params[key] ?? ''),
+        ...METRIC_KEYS.flatMap((metric) => [result.mean[metric], result.final[metric]]),
+      ].join(',')
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format summaries in the chosen output format
+ */
+export function formatResults(results: RunSummary[], format: OutputFormat): string {
+  return format === 'json' ? JSON.stringify(results, null, 2) + '\n' : summariesToCSV(results);
+}
+
+/**
+ * Parse "a,b,c" or "start:stop:step" into a list of numbers
+ */
+function parseValues(arg: string, value: string): number[] {
+  const range = value.split(':');
+  if (range.length === 3) {
+    const [start, stop, step] = range.map((part) => parseNumber(arg, part));
+    if (step <= 0 || stop < start) {
+      throw new UsageError(`${arg} range "${value}" must have stop >= start and step > 0`);
+    }
+    const values: number[] = [];
+    // Count steps instead of adding, so rounding doesn't skip the stop value
+    const count = Math.floor((stop - start) / step + 1e-9);
+    for (let i = 0; i <= count; i++) {
+      values.push(Number((start + i * step).toPrecision(12)));
+    }
+    return values;
+  }
+
+  return value.split(',').map((part) => parseNumber(arg, part));
+}
+
+/**
+ * Parse a finite number
+ */
+function parseNumber(arg: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`${arg} expects numbers, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Parse a non-negative whole number
+ */
+function parseCount(arg: string, value: string): number {
+  const number = parseNumber(arg, value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new UsageError(`${arg} expects a whole number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * All-zero metrics, for accumulating
+ */
+function zeroMetrics(): FlockMetrics {
+  return {
+    polarization: 0,
+    angular_momentum: 0,
+    nearest_neighbor_distance: 0,
+    cluster_count: 0,
+  };
+}
@@ -0,0 +1,38 @@
+import { writeFileSync } from 'node:fs';
+import { USAGE, UsageError, formatResults, parseArgs, runSweep } from './batch';
+
+/**
+ * Headless parameter sweep: `npm run sweep -- --cohesion_force 0.5,1,2 --seeds 1,2,3`
+ * Results go to stdout (or --out), progress to stderr, so the output can
+ * be piped. Exits with 2 on bad arguments.
+ */
+function main(args: string[]): number {
+  let options;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (!options) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const results = runSweep(options, (done, total) => {
+    process.stderr.write(`Run ${done}/${total}\n`);
+  });
+  const output = formatResults(results, options.format);
+
+  if (options.out) {
+    writeFileSync(options.out, output);
+    process.stderr.write(`Wrote ${results.length} runs to ${options.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
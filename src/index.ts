@@ -1,13 +1,25 @@
 import p5 from 'p5';
 import { Simulation } from './boids/Simulation';
 import { CanvasRenderer } from './renderer/CanvasRenderer';
-import { Boid } from './boids/Boid';
+import { Renderer } from './renderer/Renderer';
+import { WebGLRenderer } from './renderer/WebGLRenderer';
+import { Exporter } from './renderer/Exporter';
 import { ControlPanel } from './ui/ControlPanel';
 import { AboutPanel } from './ui/AboutPanel';
+import { MetricsPanel } from './ui/MetricsPanel';
+import { MetricsLog } from './boids/Metrics';
+import { SimulationRunner } from './worker/SimulationRunner';
+import { PointerInput } from './ui/PointerInput';
+import { ObstacleEditor } from './ui/ObstacleEditor';
+import { setParams } from './boids/SimulationState';
+import { readUrlConfig } from './ui/urlState';
+import { Viewport } from './ui/Viewport';
+import { CameraControls } from './ui/CameraControls';
+import { sketch3D } from './sketch3d';
 
-// Canvas dimensions (800x800 square canvas for side-by-side layout)
-const WIDTH = 800;
-const HEIGHT = 800;
+// World size used until the canvas container can be measured
+const DEFAULT_WIDTH = 800;
+const DEFAULT_HEIGHT = 800;
 
 // Initial simulation parameters
 const INITIAL_BOID_COUNT = 50;
@@ -15,7 +27,14 @@ const PERCEPTION_RADIUS = 100;
 
 // Initialize simulation and renderer
 let simulation: Simulation;
-let renderer: CanvasRenderer;
+let renderer: Renderer;
+let obstacleEditor: ObstacleEditor;
+let controlPanel: ControlPanel;
+let metricsPanel: MetricsPanel;
+let runner: SimulationRunner;
+let exporter: Exporter;
+let viewport: Viewport;
+let cameraControls: CameraControls;
 
 /**
  * p5.js sketch definition
@@ -23,51 +42,146 @@ let renderer: CanvasRenderer;
  */
 const sketch = (p: p5) => {
   p.setup = function () {
+    // Configuration from a shared link (applied once the boids exist)
+    const fromUrl = readUrlConfig(window.location.search);
+
+    // The canvas fills its container; the world matches it unless the link
+    // fixes its size (?size=WxH)
+    const canvasContainer = document.getElementById('canvas-container');
+    const screenWidth = canvasContainer?.clientWidth || DEFAULT_WIDTH;
+    const screenHeight = canvasContainer?.clientHeight || DEFAULT_HEIGHT;
+    const world = fromUrl.world_size ?? { width: screenWidth, height: screenHeight };
+
     // Create simulation
-    simulation = new Simulation(WIDTH, HEIGHT);
+    simulation = new Simulation(world.width, world.height);
     simulation.perception_radius = PERCEPTION_RADIUS;
 
-    // Create renderer
-    renderer = new CanvasRenderer(p);
-    renderer.setup(WIDTH, HEIGHT);
+    // Create renderer: the instanced WebGL backend when the link asks for
+    // it (?renderer=webgl) and the browser supports it, else the 2D canvas
+    renderer = (fromUrl.renderer === 'webgl' && WebGLRenderer.create(p)) || new CanvasRenderer(p);
+    renderer.setup(screenWidth, screenHeight);
 
     // Move canvas into the canvas container div
-    const canvasContainer = document.getElementById('canvas-container');
-    const canvas = (p as any).canvas;
+    const canvas = (p as any).canvas as HTMLCanvasElement;
     if (canvasContainer && canvas) {
       canvasContainer.appendChild(canvas);
     }
 
-    // Add initial boids
-    for (let i = 0; i < INITIAL_BOID_COUNT; i++) {
-      const x = p.random(WIDTH);
-      const y = p.random(HEIGHT);
-      simulation.addBoid(new Boid(x, y));
+    // Follow the container's size and pixel density from now on
+    viewport = new Viewport(
+      canvasContainer ?? document.body,
+      simulation,
+      renderer.camera,
+      !fromUrl.world_size
+    );
+
+    // Feed mouse/touch position to the simulation for pointer interaction
+    new PointerInput(canvas, simulation, renderer.camera);
+
+    // Place and delete obstacles with the mouse
+    obstacleEditor = new ObstacleEditor(canvas, simulation, renderer.camera);
+
+    // Zoom, pan, and select or follow a boid with the mouse
+    cameraControls = new CameraControls(canvas, simulation, renderer, obstacleEditor);
+
+    // Apply any configuration from a shared link, then add the initial boids
+    // from its seed or a fresh one (shown in the control panel so an
+    // interesting run can be restarted identically)
+    setParams(simulation, fromUrl.params);
+    simulation.reseed(fromUrl.params.seed ?? Math.floor(Math.random() * 1_000_000));
+    if (fromUrl.species) {
+      simulation.species = fromUrl.species.species;
+      simulation.interactions = fromUrl.species.interactions;
+      fromUrl.species.counts.forEach((count, index) => simulation.populate(count, index));
+    } else {
+      simulation.populate(fromUrl.boid_count ?? INITIAL_BOID_COUNT);
     }
+    simulation.setPredatorCount(fromUrl.predator_count ?? 0);
+
+    // Step on the main thread, or in a worker when enabled in the panel
+    runner = new SimulationRunner(simulation, () => {
+      if (typeof Worker === 'undefined') {
+        throw new Error('Web Workers are not supported');
+      }
+      return new Worker(new URL('./worker/simulation.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+    });
+
+    // Snapshots and video/frame export of the rendered canvas
+    exporter = new Exporter();
 
     // Create control panel for real-time parameter adjustment
-    new ControlPanel(simulation, p);
+    controlPanel = new ControlPanel(
+      simulation,
+      obstacleEditor,
+      runner,
+      renderer,
+      exporter,
+      viewport,
+      cameraControls
+    );
+
+    // Measure the flock after every step and plot it under the controls
+    const metricsLog = new MetricsLog();
+    metricsLog.attach(simulation);
+    metricsPanel = new MetricsPanel(metricsLog);
+
+    // The worker's steps aren't observed here, so measure each frame it sends
+    runner.onFrame = () => metricsLog.afterStep(simulation);
 
     // Create about panel with collapsible toggle
     new AboutPanel();
   };
 
   p.draw = function () {
-    // Update simulation (apply forces, update positions)
-    simulation.update();
+    // Match the canvas (and possibly the world) to its container
+    viewport.update();
+
+    // Real time since the last frame, or one export frame while exporting
+    // at a fixed timestep
+    const dt = exporter.frameTime(p.deltaTime / 1000);
+
+    // While a recording is replayed, draw its simulation instead of the
+    // live one (which stays where it was)
+    const player = controlPanel.player;
+    if (player) {
+      player.update(dt);
+      renderer.draw(player.simulation);
+      controlPanel.update();
+    } else {
+      // Update simulation by that time (runs as many fixed steps as it
+      // covers), then keep any followed boid centered
+      runner.update(dt);
+      cameraControls.update();
 
-    // Render the frame
-    renderer.draw(simulation);
+      // Render the frame, plus any obstacle still being drawn
+      const drawStart = performance.now();
+      renderer.draw(simulation);
+      renderer.drawDraft(obstacleEditor.draft);
+      const drawMs = performance.now() - drawStart;
+      metricsPanel.update();
+
+      // Timings for the debug HUD (shown from the next frame)
+      renderer.stats.record(p.deltaTime, runner.update_ms, drawMs, simulation.step_count);
+    }
+
+    // Hand the finished frame to any snapshot or export in progress
+    if (exporter.wantsFrame) {
+      exporter.capture(renderer.frame());
+    }
   };
 
   /**
-   * Disable window resizing - let CSS handle responsive sizing
-   * (Returning false prevents p5 from handling resize)
+   * The viewport measures the container every frame, so p5's own resize
+   * handling isn't needed
    */
   p.windowResized = function () {
     return false;
   };
 };
 
-// Create p5 instance
-new p5(sketch);
+// Create p5 instance, running the 3D flock instead when the link asks for
+// it (?mode=3d)
+const startup = readUrlConfig(window.location.search);
+new p5(startup.mode === '3d' ? sketch3D(startup) : sketch);
@@ -0,0 +1,44 @@
+/**
+ * Random - Small seedable pseudo-random number generator (mulberry32)
+ * The same seed always produces the same sequence, which makes runs
+ * reproducible. Not suitable for anything security related.
+ */
+export class Random {
+  private state: number = 0;
+
+  constructor(seed: number = 1) {
+    this.reseed(seed);
+  }
+
+  /**
+   * Restart the sequence from a seed
+   */
+  reseed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Random angle in [0, 2π)
+   */
+  angle(): number {
+    return this.next() * Math.PI * 2;
+  }
+}
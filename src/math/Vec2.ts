@@ -0,0 +1,160 @@
+import { Vector } from './Vector';
+
+/**
+ * Vec2 - Minimal 2D vector for the simulation core
+ * Mirrors the subset of the p5.Vector API the boids use, so the model can
+ * run headless (Node, workers, benchmarks) without loading p5.
+ * Instance methods mutate and return `this` so calls can be chained.
+ */
+export class Vec2 implements Vector<Vec2> {
+  x: number;
+  y: number;
+
+  constructor(x: number = 0, y: number = 0) {
+    this.x = x;
+    this.y = y;
+  }
+
+  /**
+   * Set both components
+   */
+  set(x: number, y: number): Vec2 {
+    this.x = x;
+    this.y = y;
+    return this;
+  }
+
+  /**
+   * Add another vector to this one
+   */
+  add(v: Vec2): Vec2 {
+    this.x += v.x;
+    this.y += v.y;
+    return this;
+  }
+
+  /**
+   * Subtract another vector from this one
+   */
+  sub(v: Vec2): Vec2 {
+    this.x -= v.x;
+    this.y -= v.y;
+    return this;
+  }
+
+  /**
+   * Multiply by a scalar
+   */
+  mult(n: number): Vec2 {
+    this.x *= n;
+    this.y *= n;
+    return this;
+  }
+
+  /**
+   * Divide by a scalar (dividing by zero leaves the vector unchanged)
+   */
+  div(n: number): Vec2 {
+    if (n !== 0) {
+      this.x /= n;
+      this.y /= n;
+    }
+    return this;
+  }
+
+  /**
+   * Length of the vector
+   */
+  mag(): number {
+    return Math.sqrt(this.x * this.x + this.y * this.y);
+  }
+
+  /**
+   * Squared length (avoids the square root for comparisons)
+   */
+  magSq(): number {
+    return this.x * this.x + this.y * this.y;
+  }
+
+  /**
+   * Scale to unit length (the zero vector stays zero)
+   */
+  normalize(): Vec2 {
+    const mag = this.mag();
+    if (mag > 0) {
+      this.x /= mag;
+      this.y /= mag;
+    }
+    return this;
+  }
+
+  /**
+   * Clamp the length to at most `max`
+   */
+  limit(max: number): Vec2 {
+    const mag = this.mag();
+    if (mag > max) {
+      this.x = (this.x / mag) * max;
+      this.y = (this.y / mag) * max;
+    }
+    return this;
+  }
+
+  /**
+   * Dot product with another vector
+   */
+  dot(v: Vec2): number {
+    return this.x * v.x + this.y * v.y;
+  }
+
+  /**
+   * Distance to another point
+   */
+  dist(v: Vec2): number {
+    return Vec2.dist(this, v);
+  }
+
+  /**
+   * Angle of the vector in radians
+   */
+  heading(): number {
+    return Math.atan2(this.y, this.x);
+  }
+
+  /**
+   * Copy this vector
+   */
+  copy(): Vec2 {
+    return new Vec2(this.x, this.y);
+  }
+
+  /**
+   * Distance between two points
+   */
+  static dist(a: Vec2, b: Vec2): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  /**
+   * New vector a - b
+   */
+  static sub(a: Vec2, b: Vec2): Vec2 {
+    return new Vec2(a.x - b.x, a.y - b.y);
+  }
+
+  /**
+   * New unit vector pointing at `angle` radians
+   */
+  static fromAngle(angle: number): Vec2 {
+    return new Vec2(Math.cos(angle), Math.sin(angle));
+  }
+
+  /**
+   * New unit vector pointing in a random direction
+   */
+  static random2D(): Vec2 {
+    return Vec2.fromAngle(Math.random() * Math.PI * 2);
+  }
+}
@@ -0,0 +1,169 @@
+import { Vector } from './Vector';
+
+/**
+ * Vec3 - Minimal 3D vector for the 3D flocking mode
+ * The same API as Vec2 plus a z component, so both can run the shared
+ * flocking rules. Instance methods mutate and return `this`.
+ */
+export class Vec3 implements Vector<Vec3> {
+  x: number;
+  y: number;
+  z: number;
+
+  constructor(x: number = 0, y: number = 0, z: number = 0) {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+  }
+
+  /**
+   * Set all three components
+   */
+  set(x: number, y: number, z: number): Vec3 {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    return this;
+  }
+
+  /**
+   * Add another vector to this one
+   */
+  add(v: Vec3): Vec3 {
+    this.x += v.x;
+    this.y += v.y;
+    this.z += v.z;
+    return this;
+  }
+
+  /**
+   * Subtract another vector from this one
+   */
+  sub(v: Vec3): Vec3 {
+    this.x -= v.x;
+    this.y -= v.y;
+    this.z -= v.z;
+    return this;
+  }
+
+  /**
+   * Multiply by a scalar
+   */
+  mult(n: number): Vec3 {
+    this.x *= n;
+    this.y *= n;
+    this.z *= n;
+    return this;
+  }
+
+  /**
+   * Divide by a scalar (dividing by zero leaves the vector unchanged)
+   */
+  div(n: number): Vec3 {
+    if (n !== 0) {
+      this.x /= n;
+      this.y /= n;
+      this.z /= n;
+    }
+    return this;
+  }
+
+  /**
+   * Length of the vector
+   */
+  mag(): number {
+    return Math.sqrt(this.magSq());
+  }
+
+  /**
+   * Squared length (avoids the square root for comparisons)
+   */
+  magSq(): number {
+    return this.x * this.x + this.y * this.y + this.z * this.z;
+  }
+
+  /**
+   * Scale to unit length (the zero vector stays zero)
+   */
+  normalize(): Vec3 {
+    return this.div(this.mag());
+  }
+
+  /**
+   * Clamp the length to at most `max`
+   */
+  limit(max: number): Vec3 {
+    const mag = this.mag();
+    if (mag > max) {
+      this.mult(max / mag);
+    }
+    return this;
+  }
+
+  /**
+   * Dot product with another vector
+   */
+  dot(v: Vec3): number {
+    return this.x * v.x + this.y * v.y + this.z * v.z;
+  }
+
+  /**
+   * Distance to another point
+   */
+  dist(v: Vec3): number {
+    return Vec3.dist(this, v);
+  }
+
+  /**
+   * New vector perpendicular to this one and `v` (right-handed)
+   */
+  cross(v: Vec3): Vec3 {
+    return new Vec3(
+      this.y * v.z - this.z * v.y,
+      this.z * v.x - this.x * v.z,
+      this.x * v.y - this.y * v.x
+    );
+  }
+
+  /**
+   * Copy this vector
+   */
+  copy(): Vec3 {
+    return new Vec3(this.x, this.y, this.z);
+  }
+
+  /**
+   * Distance between two points
+   */
+  static dist(a: Vec3, b: Vec3): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dz = b.z - a.z;
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+
+  /**
+   * New vector a - b
+   */
+  static sub(a: Vec3, b: Vec3): Vec3 {
+    return new Vec3(a.x - b.x, a.y - b.y, a.z - b.z);
+  }
+
+  /**
+   * New unit vector from two numbers in [0, 1), spread evenly over the
+   * sphere (pass a seeded PRNG's output for reproducible directions)
+   */
+  static fromUnit(u: number, v: number): Vec3 {
+    const z = 2 * u - 1;
+    const ring = Math.sqrt(1 - z * z);
+    const angle = v * Math.PI * 2;
+    return new Vec3(ring * Math.cos(angle), ring * Math.sin(angle), z);
+  }
+
+  /**
+   * New unit vector pointing in a random direction
+   */
+  static random3D(): Vec3 {
+    return Vec3.fromUnit(Math.random(), Math.random());
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Vector - The operations the flocking rules need from a vector, shared by
+ * Vec2 and Vec3 so the same rule code steers boids in two or three
+ * dimensions. Mutating methods return the vector itself, like p5.Vector.
+ */
+export interface Vector<V> {
+  add(v: V): V;
+  sub(v: V): V;
+  mult(n: number): V;
+  div(n: number): V;
+  mag(): number;
+  normalize(): V;
+  limit(max: number): V;
+  dot(v: V): number;
+  dist(v: V): number;
+  copy(): V;
+}
@@ -0,0 +1,228 @@
+import { Boid } from '../boids/Boid';
+import { Simulation } from '../boids/Simulation';
+import { SpatialGrid } from '../boids/SpatialGrid';
+import { Vec2 } from '../math/Vec2';
+
+/**
+ * How boids are colored:
+ * - 'species': each species' own color
+ * - 'speed': blue when slow to red at the species' max speed
+ * - 'heading': a color wheel around the direction of travel
+ * - 'density': violet when alone to amber in the most crowded spot
+ */
+export type ColorMode = 'species' | 'speed' | 'heading' | 'density';
+
+export type BoidShape = 'triangle' | 'dart' | 'dot';
+
+/**
+ * Motion trails:
+ * - 'off': the canvas is wiped every frame
+ * - 'fade': the canvas is only partly wiped, so old frames fade out
+ *   (2D canvas renderer only)
+ * - 'history': a line through each boid's recent positions
+ */
+export type TrailMode = 'off' | 'fade' | 'history';
+
+/**
+ * Render options shared by the renderers and edited in the Appearance folder
+ */
+export interface Appearance {
+  color_mode: ColorMode;
+  shape: BoidShape;
+  size_scale: number; // Multiplies every species' size
+  trail_mode: TrailMode;
+  trail_length: number; // Positions kept per boid for 'history' trails
+  trail_fade: number; // 0-1: how much of the previous frame survives in 'fade' mode
+}
+
+/**
+ * Default render options (the look before these options existed)
+ */
+export function createAppearance(): Appearance {
+  return {
+    color_mode: 'species',
+    shape: 'triangle',
+    size_scale: 1,
+    trail_mode: 'off',
+    trail_length: 20,
+    trail_fade: 0.85,
+  };
+}
+
+export type RGB = [number, number, number];
+
+/**
+ * Outline of each shape for size 1, pointing along +x, as triangles
+ * (x0, y0, x1, y1, x2, y2 per triangle). The triangle matches the boid's
+ * classic look; the dart has a notched tail; the dot is a hexagon.
+ */
+export const SHAPE_TRIANGLES: Record<BoidShape, number[]> = {
+  triangle: [1, 0, -1, -0.5, -1, 0.5],
+  dart: [1, 0, -1, -0.6, -0.4, 0, 1, 0, -0.4, 0, -1, 0.6],
+  dot: hexagon(0.5),
+};
+
+/**
+ * Color of every boid for the chosen mode, as 0-1 channels, in the order
+ * of `simulation.boids`
+ */
+export function boidColors(simulation: Simulation, mode: ColorMode): RGB[] {
+  switch (mode) {
+    case 'species': {
+      const colors = simulation.species.map((species) => parseColor(species.color));
+      return simulation.boids.map((boid) => colors[boid.species]);
+    }
+    case 'speed':
+      return simulation.boids.map((boid) => {
+        const max_speed = simulation.species[boid.species].max_speed;
+        const t = max_speed > 0 ? boid.velocity.mag() / max_speed : 0;
+        return hsvToRgb(240 - 240 * clamp01(t), 0.85, 1);
+      });
+    case 'heading':
+      return simulation.boids.map((boid) => {
+        const degrees = (boid.velocity.heading() * 180) / Math.PI;
+        return hsvToRgb((degrees + 360) % 360, 0.7, 1);
+      });
+    case 'density': {
+      const counts = localDensity(simulation.boids, simulation);
+      const max = Math.max(1, ...counts);
+      return counts.map((count) => hsvToRgb(270 - 230 * (count / max), 0.8, 1));
+    }
+  }
+}
+
+/**
+ * Number of flockmates within the perception radius of each boid
+ */
+export function localDensity(boids: Boid[], simulation: Simulation): number[] {
+  const radius = simulation.perception_radius;
+  const grid = new SpatialGrid();
+  grid.rebuild(boids, simulation.width, simulation.height, radius);
+
+  return boids.map((boid) => {
+    let count = 0;
+    for (const other of grid.query(boid.position)) {
+      if (other !== boid && Vec2.dist(boid.position, other.position) <= radius) {
+        count++;
+      }
+    }
+    return count;
+  });
+}
+
+/**
+ * Parse a '#rgb' or '#rrggbb' color into 0-1 channels (mid-blue if it
+ * can't be read)
+ */
+export function parseColor(color: string): RGB {
+  let hex = color.trim().replace(/^#/, '');
+  if (hex.length === 3) {
+    hex = hex
+      .split('')
+      .map((digit) => digit + digit)
+      .join('');
+  }
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return [0, 100 / 255, 200 / 255];
+
+  const value = parseInt(hex, 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+/**
+ * Convert hue (degrees), saturation and value (0-1) to 0-1 RGB channels
+ */
+export function hsvToRgb(hue: number, saturation: number, value: number): RGB {
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const c = value * saturation;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = value - c;
+
+  const [r, g, b]: RGB =
+    h < 1
+      ? [c, x, 0]
+      : h < 2
+        ? [x, c, 0]
+        : h < 3
+          ? [0, c, x]
+          : h < 4
+            ? [0, x, c]
+            : h < 5
+              ? [x, 0, c]
+              : [c, 0, x];
+  return [r + m, g + m, b + m];
+}
+
+/**
+ * TrailHistory keeps each boid's recent positions for 'history' trails.
+ * A trail restarts when its boid jumps (wraps around an edge), so no line
+ * streaks across the canvas.
+ */
+export class TrailHistory {
+  private trails = new Map<Boid, Vec2[]>();
+
+  /**
+   * Add every boid's current position, keeping at most `length` per boid.
+   * Boids that left the simulation are forgotten.
+   */
+  record(boids: Boid[], length: number, width: number, height: number): void {
+    const trails = new Map<Boid, Vec2[]>();
+
+    for (const boid of boids) {
+      const trail = this.trails.get(boid) ?? [];
+      const last = trail[trail.length - 1];
+      if (
+        last &&
+        (Math.abs(last.x - boid.position.x) > width / 2 ||
+          Math.abs(last.y - boid.position.y) > height / 2)
+      ) {
+        trail.length = 0;
+      }
+
+      trail.push(boid.position.copy());
+      if (trail.length > length) {
+        trail.splice(0, trail.length - length);
+      }
+      trails.set(boid, trail);
+    }
+
+    this.trails = trails;
+  }
+
+  /**
+   * Recent positions of a boid, oldest first
+   */
+  get(boid: Boid): Vec2[] {
+    return this.trails.get(boid) ?? [];
+  }
+
+  /**
+   * Forget every trail
+   */
+  clear(): void {
+    this.trails.clear();
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Triangle fan of a hexagon with the given radius
+ */
+function hexagon(radius: number): number[] {
+  const triangles: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    const a = (i / 6) * Math.PI * 2;
+    const b = ((i + 1) / 6) * Math.PI * 2;
+    triangles.push(
+      0,
+      0,
+      Math.cos(a) * radius,
+      Math.sin(a) * radius,
+      Math.cos(b) * radius,
+      Math.sin(b) * radius
+    );
+  }
+  return triangles;
+}
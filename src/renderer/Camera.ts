@@ -0,0 +1,118 @@
+import { Vec2 } from '../math/Vec2';
+
+// Zoom range, relative to the whole world fitting the screen
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 20;
+
+/**
+ * Camera maps world coordinates (the simulation's width x height) to
+ * screen coordinates (CSS pixels of the canvas), so the world size can
+ * differ from the canvas size. At zoom 1 the whole world is scaled to fit
+ * the screen and centered, leaving bars on the sides that don't match its
+ * aspect; zooming and panning move a view center around the world.
+ * It doesn't depend on p5; renderers apply `scale` and `offset_x/y`.
+ */
+export class Camera {
+  // Canvas size in CSS pixels, and device pixels per CSS pixel
+  screen_width: number;
+  screen_height: number;
+  pixel_density: number = 1;
+
+  // Magnification over fitting the whole world, and the world point shown
+  // in the middle of the screen (null for the world's center)
+  zoom: number = 1;
+  center: Vec2 | null = null;
+
+  // Screen pixels per world unit, and where the world's origin lands
+  scale: number = 1;
+  offset_x: number = 0;
+  offset_y: number = 0;
+
+  // World size at the last fit
+  private worldWidth: number = 1;
+  private worldHeight: number = 1;
+
+  constructor(screenWidth: number, screenHeight: number) {
+    this.screen_width = screenWidth;
+    this.screen_height = screenHeight;
+  }
+
+  /**
+   * Set the canvas size (ignored unless positive)
+   */
+  setScreen(width: number, height: number, pixelDensity: number = this.pixel_density): void {
+    if (!(width > 0 && height > 0)) return;
+    this.screen_width = width;
+    this.screen_height = height;
+    this.pixel_density = pixelDensity > 0 ? pixelDensity : 1;
+  }
+
+  /**
+   * Fit a world of the given size into the screen at the current zoom and
+   * center (call before drawing a frame)
+   */
+  fit(worldWidth: number, worldHeight: number): void {
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+
+    const fitScale = Math.min(this.screen_width / worldWidth, this.screen_height / worldHeight);
+    this.scale = fitScale * this.zoom;
+
+    const centerX = this.center ? this.center.x : worldWidth / 2;
+    const centerY = this.center ? this.center.y : worldHeight / 2;
+    this.offset_x = this.screen_width / 2 - centerX * this.scale;
+    this.offset_y = this.screen_height / 2 - centerY * this.scale;
+  }
+
+  /**
+   * Zoom by `factor`, keeping the world point under a screen position in
+   * place (e.g. the mouse)
+   */
+  zoomAt(x: number, y: number, factor: number): void {
+    const anchor = this.toWorld(x, y);
+    this.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.zoom * factor));
+    this.fit(this.worldWidth, this.worldHeight);
+
+    // Shift the view so the anchor lands back under (x, y)
+    const drifted = this.toWorld(x, y);
+    const center = this.viewCenter();
+    this.center = new Vec2(center.x + anchor.x - drifted.x, center.y + anchor.y - drifted.y);
+    this.fit(this.worldWidth, this.worldHeight);
+  }
+
+  /**
+   * Move the view by a distance in screen pixels (dragging the world along)
+   */
+  pan(dx: number, dy: number): void {
+    const center = this.viewCenter();
+    this.center = new Vec2(center.x - dx / this.scale, center.y - dy / this.scale);
+    this.fit(this.worldWidth, this.worldHeight);
+  }
+
+  /**
+   * Show the whole world again
+   */
+  reset(): void {
+    this.zoom = 1;
+    this.center = null;
+    this.fit(this.worldWidth, this.worldHeight);
+  }
+
+  /**
+   * World position shown at a screen position
+   */
+  toWorld(x: number, y: number): Vec2 {
+    return new Vec2((x - this.offset_x) / this.scale, (y - this.offset_y) / this.scale);
+  }
+
+  /**
+   * Screen position of a world position
+   */
+  toScreen(x: number, y: number): Vec2 {
+    return new Vec2(x * this.scale + this.offset_x, y * this.scale + this.offset_y);
+  }
+
+  private viewCenter(): Vec2 {
+    return this.center ? this.center.copy() : new Vec2(this.worldWidth / 2, this.worldHeight / 2);
+  }
+}
@@ -1,18 +1,49 @@
 import p5 from 'p5';
-import { Simulation } from '../boids/Simulation';
+import { BoidInspection, Simulation } from '../boids/Simulation';
+import { Boid } from '../boids/Boid';
+import { Obstacle } from '../boids/Obstacle';
+import { Predator } from '../boids/Predator';
+import {
+  Appearance,
+  BoidShape,
+  RGB,
+  TrailHistory,
+  boidColors,
+  createAppearance,
+} from './Appearance';
+import { Camera } from './Camera';
+import { DebugOptions, FrameStats, createDebugOptions } from './Debug';
+import { Renderer } from './Renderer';
+import { Vec2 } from '../math/Vec2';
+
+// Forces are tiny per-step accelerations; arrows show them this much longer
+const FORCE_SCALE = 200;
 
 /**
  * CanvasRenderer handles all p5.js rendering for the boids simulation.
  * It provides a clean abstraction layer between the simulation logic
- * and the p5.js canvas rendering.
+ * and the p5.js canvas rendering. The simulation core never touches p5;
+ * this is the only place its state is adapted to the canvas.
  */
-export class CanvasRenderer {
+export class CanvasRenderer implements Renderer {
+  readonly kind = 'canvas';
+  readonly appearance: Appearance = createAppearance();
+  readonly camera = new Camera(1, 1);
+  readonly debug: DebugOptions = createDebugOptions();
+  readonly stats = new FrameStats();
+  selected: Boid | null = null;
+
+  private trails = new TrailHistory();
+  private trailStep = -1;
+
   constructor(private p: p5) {}
 
   /**
-   * Set up the canvas with specified dimensions
+   * Set up the canvas with specified dimensions (in CSS pixels; later
+   * changes come through the camera)
    */
   setup(width: number, height: number): void {
+    this.camera.setScreen(width, height, this.p.pixelDensity());
     this.p.createCanvas(width, height);
   }
 
@@ -21,12 +52,458 @@ export class CanvasRenderer {
    * This should be called once per frame (in p5's draw loop)
    */
   draw(simulation: Simulation): void {
-    // Clear the canvas with dark background for contrast
-    this.p.background(20);
+    const appearance = this.appearance;
+    this.watchInspected(simulation);
+    this.drawBackground(simulation, appearance.trail_mode === 'fade');
+    this.p.push();
+    this.applyCamera();
+    this.drawWorld(simulation);
+    this.drawTrails(simulation);
+    this.drawDebug(simulation);
+
+    // Draw each boid in the chosen color mode, at its species' size
+    const colors = boidColors(simulation, appearance.color_mode);
+    simulation.getBoids().forEach((boid, i) => {
+      const size = simulation.species[boid.species].size * appearance.size_scale;
+      this.drawBoid(boid, colors[i], size, simulation.alpha);
+    });
+
+    for (const predator of simulation.predators) {
+      this.drawPredator(predator, simulation.alpha);
+    }
+
+    this.drawSelection(simulation);
+    this.drawPointer(simulation);
+    this.p.pop();
+    this.drawHud();
+  }
+
+  /**
+   * Draw everything except the boids and predators, for backends that
+   * draw those themselves on a layer above this canvas
+   */
+  drawScenery(simulation: Simulation): void {
+    this.watchInspected(simulation);
+    this.drawBackground(simulation, false);
+    this.p.push();
+    this.applyCamera();
+    this.drawWorld(simulation);
+    this.drawTrails(simulation);
+    this.drawDebug(simulation);
+    this.drawSelection(simulation);
+    this.drawPointer(simulation);
+    this.p.pop();
+    this.drawHud();
+  }
+
+  /**
+   * Preview an obstacle that is still being drawn with the mouse
+   */
+  drawDraft(obstacle: Obstacle | null): void {
+    if (!obstacle) return;
+
+    this.p.push();
+    this.applyCamera();
+    (this.p.drawingContext as CanvasRenderingContext2D).setLineDash([6, 4]);
+    this.drawObstacle(obstacle);
+    this.p.pop();
+  }
+
+  /**
+   * p5's canvas, which holds the whole frame
+   */
+  frame(): HTMLCanvasElement {
+    return (this.p as unknown as { canvas: HTMLCanvasElement }).canvas;
+  }
+
+  /**
+   * Follow the camera's screen size and pixel density, fit the world into
+   * it and clear the canvas. With `fade`, the previous frame is only partly
+   * covered, so moving boids leave fading trails.
+   */
+  private drawBackground(simulation: Simulation, fade: boolean): void {
+    const camera = this.camera;
+    if (this.p.pixelDensity() !== camera.pixel_density) {
+      this.p.pixelDensity(camera.pixel_density);
+    }
+    if (this.p.width !== camera.screen_width || this.p.height !== camera.screen_height) {
+      this.p.resizeCanvas(camera.screen_width, camera.screen_height);
+    }
+    camera.fit(simulation.width, simulation.height);
+
+    // Clear the canvas with dark background for contrast (darker outside
+    // the world, where it doesn't fill the canvas)
+    const alpha = fade ? 255 * (1 - this.appearance.trail_fade) : 255;
+    this.p.background(10, 10, 10, alpha);
+    this.p.push();
+    this.applyCamera();
+    this.p.noStroke();
+    this.p.fill(20, 20, 20, alpha);
+    this.p.rect(0, 0, simulation.width, simulation.height);
+    this.p.pop();
+  }
+
+  /**
+   * Switch drawing from screen to world coordinates
+   */
+  private applyCamera(): void {
+    this.p.translate(this.camera.offset_x, this.camera.offset_y);
+    this.p.scale(this.camera.scale);
+  }
+
+  /**
+   * Draw the walls and obstacles underneath the flock (in world
+   * coordinates)
+   */
+  private drawWorld(simulation: Simulation): void {
+    this.drawBoundary(simulation);
+
+    for (const obstacle of simulation.obstacles) {
+      this.drawObstacle(obstacle);
+    }
+  }
+
+  /**
+   * Draw a single obstacle: filled circles and rectangles, thick polyline walls
+   */
+  private drawObstacle(obstacle: Obstacle): void {
+    this.p.push();
+    this.p.stroke(140, 140, 150);
+    this.p.fill(60, 60, 70);
+
+    switch (obstacle.kind) {
+      case 'circle':
+        this.p.circle(obstacle.x, obstacle.y, obstacle.radius * 2);
+        break;
+      case 'rect':
+        this.p.rect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+        break;
+      case 'polyline':
+        this.p.noFill();
+        this.p.strokeWeight(4);
+        this.p.beginShape();
+        for (const point of obstacle.points) {
+          this.p.vertex(point.x, point.y);
+        }
+        this.p.endShape();
+        break;
+    }
+
+    this.p.pop();
+  }
+
+  /**
+   * Outline the soft wall margin when boids steer away from the edges
+   */
+  private drawBoundary(simulation: Simulation): void {
+    if (simulation.boundary_mode !== 'avoid') return;
+
+    const margin = simulation.boundary_margin;
+
+    this.p.push();
+    this.p.noFill();
+    this.p.stroke(255, 255, 255, 30);
+    this.p.rect(margin, margin, simulation.width - margin * 2, simulation.height - margin * 2);
+    this.p.pop();
+  }
+
+  /**
+   * Outline the pointer's area of influence when pointer interaction is on
+   * (green for a goal, red for a predator)
+   */
+  private drawPointer(simulation: Simulation): void {
+    if (!simulation.pointer || simulation.pointer_mode === 'off') return;
+
+    this.p.push();
+    this.p.noFill();
+    if (simulation.pointer_mode === 'attract') {
+      this.p.stroke(80, 200, 120, 120);
+    } else {
+      this.p.stroke(220, 80, 80, 120);
+    }
+    this.p.circle(simulation.pointer.x, simulation.pointer.y, simulation.pointer_radius * 2);
+    this.p.pop();
+  }
+
+  /**
+   * Have the simulation keep each step's flocking for the boids the debug
+   * layers or the selection overlay show, instead of redoing it per frame
+   */
+  private watchInspected(simulation: Simulation): void {
+    const debug = this.debug;
+    if (debug.neighbors || debug.forces) {
+      simulation.inspected = 'all';
+    } else {
+      simulation.inspected = this.selected ? [this.selected] : [];
+    }
+  }
+
+  /**
+   * Highlight the selected boid and overlay its perception and separation
+   * radii and its separation (red), alignment (green) and cohesion (blue)
+   * forces, drawn FORCE_SCALE times their length
+   */
+  private drawSelection(simulation: Simulation): void {
+    const boid = this.selected;
+    if (!boid || !simulation.boids.includes(boid)) return;
+
+    const position = boid.interpolatedPosition(simulation.alpha);
+    const size = simulation.species[boid.species].size * this.appearance.size_scale;
+    const [inspection] = simulation.inspect([boid]);
+
+    this.p.push();
+    this.p.noFill();
+    this.p.stroke(255, 255, 255, 60);
+    this.p.circle(position.x, position.y, simulation.perception_radius * 2);
+    this.p.stroke(255, 120, 120, 50);
+    this.p.circle(position.x, position.y, simulation.separation_radius * 2);
+
+    this.p.stroke(255);
+    this.p.strokeWeight(2);
+    this.p.circle(position.x, position.y, size * 3);
+
+    this.drawForces(position, inspection);
+    this.p.pop();
+  }
+
+  /**
+   * Draw the debug layers that are on, under the boids: spatial-grid
+   * cells, every boid's perception radius, lines to the neighbors it
+   * counted and its flocking forces
+   */
+  private drawDebug(simulation: Simulation): void {
+    const debug = this.debug;
+    if (debug.grid) this.drawGrid(simulation);
+    if (!debug.perception && !debug.neighbors && !debug.forces) return;
+
+    const alpha = simulation.alpha;
+    const positions = new Map<Boid, Vec2>();
+    for (const boid of simulation.boids) {
+      positions.set(boid, boid.interpolatedPosition(alpha));
+    }
+
+    this.p.push();
+    this.p.noFill();
+    this.p.strokeWeight(1);
+
+    if (debug.perception) {
+      this.p.stroke(255, 255, 255, 25);
+      for (const position of positions.values()) {
+        this.p.circle(position.x, position.y, simulation.perception_radius * 2);
+      }
+    }
+
+    if (debug.neighbors || debug.forces) {
+      const inspections = simulation.inspect();
+      if (debug.neighbors) {
+        this.p.stroke(255, 220, 120, 50);
+        for (const { boid, neighbors } of inspections) {
+          const from = positions.get(boid)!;
+          for (const neighbor of neighbors) {
+            const to = positions.get(neighbor)!;
+            this.p.line(from.x, from.y, to.x, to.y);
+          }
+        }
+      }
+      if (debug.forces) {
+        for (const inspection of inspections) {
+          this.drawForces(positions.get(inspection.boid)!, inspection);
+        }
+      }
+    }
+
+    this.p.pop();
+  }
+
+  /**
+   * Outline the spatial grid's cells and shade the occupied ones by how
+   * many boids they hold (nothing while the spatial index is off)
+   */
+  private drawGrid(simulation: Simulation): void {
+    const grid = simulation.gridCells();
+    if (!grid) return;
+
+    const { cell_size, cols, rows, counts } = grid;
+    const busiest = counts.reduce((max, count) => Math.max(max, count), 1);
+
+    this.p.push();
+    this.p.noStroke();
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const count = counts[row * cols + col];
+        if (count === 0) continue;
+        this.p.fill(80, 140, 255, 15 + 60 * (count / busiest));
+        // The last row and column stop at the world's edge
+        const x = col * cell_size;
+        const y = row * cell_size;
+        this.p.rect(
+          x,
+          y,
+          Math.min(cell_size, simulation.width - x),
+          Math.min(cell_size, simulation.height - y)
+        );
+      }
+    }
+
+    this.p.stroke(80, 140, 255, 50);
+    for (let col = 0; col <= cols; col++) {
+      const x = Math.min(col * cell_size, simulation.width);
+      this.p.line(x, 0, x, simulation.height);
+    }
+    for (let row = 0; row <= rows; row++) {
+      const y = Math.min(row * cell_size, simulation.height);
+      this.p.line(0, y, simulation.width, y);
+    }
+    this.p.pop();
+  }
+
+  /**
+   * Draw a boid's separation (red), alignment (green) and cohesion (blue)
+   * forces from `position`, FORCE_SCALE times their length
+   */
+  private drawForces(position: Vec2, inspection: BoidInspection): void {
+    const forces: [Vec2, RGB][] = [
+      [inspection.separation, [255, 90, 90]],
+      [inspection.alignment, [90, 220, 120]],
+      [inspection.cohesion, [90, 160, 255]],
+    ];
+    for (const [force, [r, g, b]] of forces) {
+      this.p.stroke(r, g, b);
+      this.drawArrow(position, force.x * FORCE_SCALE, force.y * FORCE_SCALE);
+    }
+  }
+
+  /**
+   * Draw the frame timings in the top-left corner of the screen
+   */
+  private drawHud(): void {
+    if (!this.debug.hud) return;
+
+    const lines = this.stats.lines();
+    this.p.push();
+    this.p.noStroke();
+    this.p.fill(0, 0, 0, 160);
+    this.p.rect(8, 8, 190, lines.length * 16 + 10);
+    this.p.fill(220);
+    this.p.textFont('monospace');
+    this.p.textSize(12);
+    this.p.textAlign(this.p.LEFT, this.p.TOP);
+    lines.forEach((line, i) => this.p.text(line, 14, 14 + i * 16));
+    this.p.pop();
+  }
+
+  /**
+   * Draw an arrow from `from` along (dx, dy) in the current stroke
+   */
+  private drawArrow(from: Vec2, dx: number, dy: number): void {
+    const length = Math.hypot(dx, dy);
+    if (length < 0.5) return;
+
+    const head = Math.min(6, length / 2);
+    this.p.push();
+    this.p.translate(from.x, from.y);
+    this.p.rotate(Math.atan2(dy, dx));
+    this.p.line(0, 0, length, 0);
+    this.p.line(length, 0, length - head, -head / 2);
+    this.p.line(length, 0, length - head, head / 2);
+    this.p.pop();
+  }
+
+  /**
+   * Draw a line through each boid's recent positions in 'history' trail
+   * mode (positions are recorded once per simulation step)
+   */
+  private drawTrails(simulation: Simulation): void {
+    const appearance = this.appearance;
+    if (appearance.trail_mode !== 'history') {
+      this.trails.clear();
+      return;
+    }
+
+    if (simulation.step_count !== this.trailStep) {
+      this.trails.record(
+        simulation.boids,
+        appearance.trail_length,
+        simulation.width,
+        simulation.height
+      );
+      this.trailStep = simulation.step_count;
+    }
+
+    const colors = boidColors(simulation, appearance.color_mode);
+    this.p.push();
+    this.p.noFill();
+    this.p.strokeWeight(1.5);
+    simulation.boids.forEach((boid, i) => {
+      const trail = this.trails.get(boid);
+      if (trail.length < 2) return;
+
+      const [r, g, b] = colors[i];
+      this.p.stroke(r * 255, g * 255, b * 255, 110);
+      this.p.beginShape();
+      for (const point of trail) {
+        this.p.vertex(point.x, point.y);
+      }
+      this.p.endShape();
+    });
+    this.p.pop();
+  }
+
+  /**
+   * Draw a single boid in the chosen shape, pointing in its direction of
+   * travel, interpolated `alpha` of the way from its previous to its
+   * current step
+   */
+  private drawBoid(boid: Boid, color: RGB, size: number, alpha: number): void {
+    const position = boid.interpolatedPosition(alpha);
+    const angle = boid.velocity.heading();
+
+    this.p.push();
+    this.p.translate(position.x, position.y);
+    this.p.rotate(angle);
+    this.p.fill(color[0] * 255, color[1] * 255, color[2] * 255);
+    this.p.stroke(0);
+    this.drawShape(this.appearance.shape, size);
+    this.p.pop();
+  }
+
+  /**
+   * Draw a predator as a larger red boid
+   */
+  private drawPredator(predator: Predator, alpha: number): void {
+    const position = predator.interpolatedPosition(alpha);
+    const angle = predator.velocity.heading();
+    const size = 14 * this.appearance.size_scale;
 
-    // Draw each boid
-    for (const boid of simulation.getBoids()) {
-      boid.display(this.p);
+    this.p.push();
+    this.p.translate(position.x, position.y);
+    this.p.rotate(angle);
+    this.p.fill(220, 50, 50);
+    this.p.stroke(0);
+    this.drawShape(this.appearance.shape, size);
+    this.p.pop();
+  }
+
+  /**
+   * Draw a boid shape of the given size at the origin, pointing along +x
+   * (the outlines of Appearance's SHAPE_TRIANGLES)
+   */
+  private drawShape(shape: BoidShape, size: number): void {
+    switch (shape) {
+      case 'triangle':
+        this.p.triangle(size, 0, -size, -size / 2, -size, size / 2);
+        break;
+      case 'dart':
+        this.p.beginShape();
+        this.p.vertex(size, 0);
+        this.p.vertex(-size, -size * 0.6);
+        this.p.vertex(-size * 0.4, 0);
+        this.p.vertex(-size, size * 0.6);
+        this.p.endShape(this.p.CLOSE);
+        break;
+      case 'dot':
+        this.p.circle(0, 0, size);
+        break;
     }
   }
 }
@@ -0,0 +1,82 @@
+/**
+ * Debug layers drawn over the world, each toggled in the Debug folder
+ */
+export interface DebugOptions {
+  perception: boolean; // Every boid's perception radius
+  forces: boolean; // Separation (red), alignment (green) and cohesion (blue) arrows
+  neighbors: boolean; // Lines to the neighbors each boid counted
+  grid: boolean; // Spatial-grid cells, shaded by how many boids they hold
+  hud: boolean; // Frame rate and time spent stepping and drawing
+}
+
+/**
+ * Default debug options (everything off)
+ */
+export function createDebugOptions(): DebugOptions {
+  return {
+    perception: false,
+    forces: false,
+    neighbors: false,
+    grid: false,
+    hud: false,
+  };
+}
+
+// Weight of the newest frame in the smoothed timings
+const SMOOTHING = 0.1;
+
+/**
+ * FrameStats keeps smoothed frame timings for the debug HUD. The sketch
+ * records each frame; the numbers settle over a few dozen frames so the
+ * HUD is readable.
+ */
+export class FrameStats {
+  frame_ms: number = 0;
+  update_ms: number = 0;
+  draw_ms: number = 0;
+  steps_per_frame: number = 0;
+
+  private lastStep: number | null = null;
+
+  /**
+   * Frames per second, from the smoothed frame time
+   */
+  get fps(): number {
+    return this.frame_ms > 0 ? 1000 / this.frame_ms : 0;
+  }
+
+  /**
+   * Add one frame: its real duration, the time spent updating the
+   * simulation and drawing it, and the simulation's step count after it
+   */
+  record(frameMs: number, updateMs: number, drawMs: number, stepCount: number): void {
+    const steps = this.lastStep === null ? 0 : Math.max(0, stepCount - this.lastStep);
+    this.lastStep = stepCount;
+
+    if (this.frame_ms === 0) {
+      this.frame_ms = frameMs;
+      this.update_ms = updateMs;
+      this.draw_ms = drawMs;
+      this.steps_per_frame = steps;
+      return;
+    }
+
+    this.frame_ms += (frameMs - this.frame_ms) * SMOOTHING;
+    this.update_ms += (updateMs - this.update_ms) * SMOOTHING;
+    this.draw_ms += (drawMs - this.draw_ms) * SMOOTHING;
+    this.steps_per_frame += (steps - this.steps_per_frame) * SMOOTHING;
+  }
+
+  /**
+   * The HUD's lines of text
+   */
+  lines(): string[] {
+    const perStep = this.steps_per_frame > 0 ? this.update_ms / this.steps_per_frame : 0;
+    return [
+      `${this.fps.toFixed(0)} fps (${this.frame_ms.toFixed(1)} ms)`,
+      `update ${this.update_ms.toFixed(2)} ms, ${this.steps_per_frame.toFixed(1)} steps`,
+      `step ${perStep.toFixed(2)} ms`,
+      `draw ${this.draw_ms.toFixed(2)} ms`,
+    ];
+  }
+}
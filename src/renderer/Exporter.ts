@@ -0,0 +1,237 @@
+import { zipFiles } from './zip';
+
+/**
+ * What a recording produces:
+ * - 'webm': a video captured with MediaRecorder from the canvas stream
+ * - 'frames': every frame as a PNG, bundled into a zip
+ */
+export type ExportFormat = 'webm' | 'frames';
+
+/**
+ * Export settings, edited in the Export folder
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  fixed_timestep: boolean; // Advance in whole frames of 1 / fps while recording
+  fps: number;
+}
+
+/**
+ * A finished recording, ready to download
+ */
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+}
+
+// Frame sequences are held in memory until the recording stops
+const MAX_FRAMES = 3000;
+
+// Video types to try, best first
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Exporter turns rendered frames into PNG snapshots, PNG frame sequences
+ * and WebM videos. The sketch hands it the canvas holding each finished
+ * frame (`Renderer.frame()`), so every renderer exports the same way;
+ * video frames are copied to a canvas of its own that MediaRecorder
+ * streams from.
+ *
+ * With a fixed timestep the simulation advances in whole export frames of
+ * 1 / fps while recording (see `frameTime`). A frame sequence takes one
+ * per drawn frame, so it plays back smoothly at that rate even if the page
+ * dropped frames. A WebM video is timestamped with real time, so it takes
+ * a frame only once 1 / fps of real time has passed and the simulation
+ * advances by the export frames that covers, keeping playback at real
+ * speed.
+ */
+export class Exporter {
+  options: ExportOptions = { format: 'webm', fixed_timestep: true, fps: 30 };
+
+  // Progress or the reason the last export couldn't run
+  status: string = 'Idle';
+
+  private target: HTMLCanvasElement | null = null;
+  private frames: Promise<Blob | null>[] = [];
+  private frameCount = 0;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private track: CanvasCaptureMediaStreamTrack | null = null;
+  private snapshots: ((blob: Blob | null) => void)[] = [];
+
+  // Real time not yet covered by a video frame, and whether this frame is
+  // one to push (WebM at a fixed timestep only)
+  private elapsed = 0;
+  private frameDue = false;
+
+  /**
+   * Is a recording in progress?
+   */
+  get active(): boolean {
+    return this.target !== null;
+  }
+
+  /**
+   * Does the next frame need to be passed to `capture`?
+   */
+  get wantsFrame(): boolean {
+    return this.active || this.snapshots.length > 0;
+  }
+
+  /**
+   * Seconds to advance the simulation this frame: while recording at a
+   * fixed timestep, exactly one export frame for a frame sequence, or the
+   * whole export frames of real time that passed for a video (often none);
+   * otherwise the real time that passed
+   */
+  frameTime(realTime: number): number {
+    if (!this.active || !this.options.fixed_timestep) return realTime;
+
+    const period = 1 / this.options.fps;
+    if (this.options.format === 'frames') return period;
+
+    this.elapsed += realTime;
+    const frames = Math.floor(this.elapsed / period + 1e-9);
+    this.elapsed = Math.max(0, this.elapsed - frames * period);
+    this.frameDue = frames > 0;
+    return frames * period;
+  }
+
+  /**
+   * Resolve with the next captured frame as a PNG (taken while the frame
+   * is drawn, since a WebGL layer may be blank by the time a click is
+   * handled)
+   */
+  snapshot(): Promise<Blob | null> {
+    return new Promise((resolve) => this.snapshots.push(resolve));
+  }
+
+  /**
+   * Start recording in the current format, or explain in `status` why it
+   * can't
+   */
+  start(): void {
+    if (this.active) return;
+
+    const target = document.createElement('canvas');
+    if (this.options.format === 'webm') {
+      const type = supportedWebmType();
+      if (!type || typeof target.captureStream !== 'function') {
+        this.status = 'WebM recording is not supported in this browser';
+        return;
+      }
+
+      // Without a fixed timestep the stream samples the canvas at the
+      // frame rate; with one, each exported frame is pushed explicitly
+      const stream = target.captureStream(this.options.fixed_timestep ? 0 : this.options.fps);
+      this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      this.chunks = [];
+      this.recorder = new MediaRecorder(stream, { mimeType: type });
+      this.recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) this.chunks.push(event.data);
+      };
+      this.recorder.start();
+    }
+
+    this.target = target;
+    this.frames = [];
+    this.frameCount = 0;
+    this.elapsed = 0;
+    this.frameDue = false;
+    this.status = 'Recording';
+  }
+
+  /**
+   * Take any requested snapshot and add the frame to the recording (call
+   * after drawing whenever `wantsFrame` is true)
+   */
+  capture(frame: HTMLCanvasElement): void {
+    const snapshots = this.snapshots;
+    this.snapshots = [];
+    if (snapshots.length > 0) {
+      encodePng(frame).then((blob) => snapshots.forEach((resolve) => resolve(blob)));
+    }
+
+    const target = this.target;
+    if (!target) return;
+
+    if (this.options.format === 'frames') {
+      if (this.frameCount >= MAX_FRAMES) {
+        this.status = `Stopped adding frames at ${MAX_FRAMES}`;
+        return;
+      }
+      this.frames.push(encodePng(frame));
+    } else {
+      // At a fixed timestep, only frames `frameTime` paced are pushed
+      if (this.options.fixed_timestep) {
+        if (!this.frameDue) return;
+        this.frameDue = false;
+      }
+
+      if (target.width !== frame.width || target.height !== frame.height) {
+        target.width = frame.width;
+        target.height = frame.height;
+      }
+      target.getContext('2d')?.drawImage(frame, 0, 0);
+      if (this.options.fixed_timestep) this.track?.requestFrame();
+    }
+
+    this.frameCount++;
+    this.status = `Recording: ${this.frameCount} frames`;
+  }
+
+  /**
+   * Stop recording and resolve with the video or zipped frames (null if
+   * nothing was recording)
+   */
+  async stop(): Promise<ExportResult | null> {
+    if (!this.target) return null;
+    this.target = null;
+    this.status = 'Encoding...';
+
+    let result: ExportResult;
+    if (this.recorder) {
+      result = { blob: await this.finishVideo(this.recorder), filename: 'boids.webm' };
+    } else {
+      result = { blob: await this.finishFrames(), filename: 'boids-frames.zip' };
+    }
+
+    this.status = `Exported ${this.frameCount} frames`;
+    return result;
+  }
+
+  private finishVideo(recorder: MediaRecorder): Promise<Blob> {
+    this.recorder = null;
+    this.track = null;
+    return new Promise((resolve) => {
+      recorder.onstop = () => resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+      recorder.stop();
+    });
+  }
+
+  private async finishFrames(): Promise<Blob> {
+    const blobs = await Promise.all(this.frames);
+    this.frames = [];
+
+    const entries = [];
+    for (const [i, blob] of blobs.entries()) {
+      if (!blob) continue;
+      const name = `frame-${String(i).padStart(5, '0')}.png`;
+      entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    return new Blob([zipFiles(entries)], { type: 'application/zip' });
+  }
+}
+
+function encodePng(frame: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => frame.toBlob(resolve, 'image/png'));
+}
+
+/**
+ * Best WebM type MediaRecorder can produce here, or null without
+ * MediaRecorder
+ */
+function supportedWebmType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
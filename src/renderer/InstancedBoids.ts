@@ -0,0 +1,234 @@
+import { Boid } from '../boids/Boid';
+import { Simulation } from '../boids/Simulation';
+import { Appearance, BoidShape, RGB, SHAPE_TRIANGLES, boidColors } from './Appearance';
+import { Camera } from './Camera';
+
+// Per-instance attributes: x, y, angle, size, r, g, b
+const FLOATS_PER_INSTANCE = 7;
+
+// Predators are drawn like CanvasRenderer draws them
+const PREDATOR_SIZE = 14;
+const PREDATOR_COLOR: RGB = [220 / 255, 50 / 255, 50 / 255];
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_vertex;
+in vec2 a_position;
+in float a_angle;
+in float a_size;
+in vec3 a_color;
+uniform vec2 u_screen;
+uniform vec3 u_view;
+out vec3 v_color;
+
+void main() {
+  float c = cos(a_angle);
+  float s = sin(a_angle);
+  vec2 local = a_vertex * a_size;
+  vec2 world = a_position + vec2(local.x * c - local.y * s, local.x * s + local.y * c);
+  vec2 screen = world * u_view.x + u_view.yz;
+  vec2 clip = screen / u_screen * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec3 v_color;
+out vec4 color;
+
+void main() {
+  color = vec4(v_color, 1.0);
+}
+`;
+
+/**
+ * InstancedBoids draws every boid and predator with one instanced WebGL2
+ * call: a shared shape plus a per-agent position, heading, size and
+ * color. It only needs a canvas, not p5, so it runs against a mocked
+ * context in tests.
+ */
+export class InstancedBoids {
+  readonly canvas: HTMLCanvasElement;
+
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private vao: WebGLVertexArrayObject;
+  private vertexBuffer: WebGLBuffer;
+  private instanceBuffer: WebGLBuffer;
+  private screenUniform: WebGLUniformLocation | null;
+  private viewUniform: WebGLUniformLocation | null;
+
+  // Shape currently in the vertex buffer, and its vertex count
+  private shape: BoidShape | null = null;
+  private vertexCount: number = 0;
+
+  // Instance data, grown as the flock grows
+  private data = new Float32Array(0);
+
+  /**
+   * Set up WebGL2 on `canvas`, or return null if it isn't available or the
+   * shaders don't compile
+   */
+  static create(canvas: HTMLCanvasElement): InstancedBoids | null {
+    const gl = canvas.getContext('webgl2', { premultipliedAlpha: false });
+    if (!gl) return null;
+
+    try {
+      return new InstancedBoids(canvas, gl);
+    } catch {
+      return null;
+    }
+  }
+
+  private constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+    this.program = linkProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+    this.screenUniform = gl.getUniformLocation(this.program, 'u_screen');
+    this.viewUniform = gl.getUniformLocation(this.program, 'u_view');
+
+    this.vao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.vao);
+
+    // Shared shape, advanced per vertex (filled in by the first draw)
+    this.vertexBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+    this.attribute('a_vertex', 2, 0, 0, 0);
+
+    // Per-agent attributes, advanced per instance
+    this.instanceBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    const stride = FLOATS_PER_INSTANCE * 4;
+    this.attribute('a_position', 2, stride, 0, 1);
+    this.attribute('a_angle', 1, stride, 2 * 4, 1);
+    this.attribute('a_size', 1, stride, 3 * 4, 1);
+    this.attribute('a_color', 3, stride, 4 * 4, 1);
+
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Clear the canvas and draw every agent in the given appearance, as the
+   * camera sees it, interpolated by the simulation's alpha
+   */
+  draw(simulation: Simulation, appearance: Appearance, camera: Camera): void {
+    const gl = this.gl;
+    const count = this.fill(simulation, appearance);
+
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (count === 0) return;
+
+    gl.useProgram(this.program);
+    gl.uniform2f(this.screenUniform, camera.screen_width, camera.screen_height);
+    gl.uniform3f(this.viewUniform, camera.scale, camera.offset_x, camera.offset_y);
+
+    gl.bindVertexArray(this.vao);
+    if (appearance.shape !== this.shape) {
+      const triangles = SHAPE_TRIANGLES[appearance.shape];
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(triangles), gl.STATIC_DRAW);
+      this.shape = appearance.shape;
+      this.vertexCount = triangles.length / 2;
+    }
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      this.data.subarray(0, count * FLOATS_PER_INSTANCE),
+      gl.DYNAMIC_DRAW
+    );
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, this.vertexCount, count);
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Write every agent's instance attributes and return how many there are
+   */
+  private fill(simulation: Simulation, appearance: Appearance): number {
+    const count = simulation.boids.length + simulation.predators.length;
+    if (this.data.length < count * FLOATS_PER_INSTANCE) {
+      this.data = new Float32Array(count * FLOATS_PER_INSTANCE * 2);
+    }
+
+    const colors = boidColors(simulation, appearance.color_mode);
+    const scale = appearance.size_scale;
+    let offset = 0;
+    simulation.boids.forEach((boid, i) => {
+      const size = simulation.species[boid.species].size * scale;
+      this.write(offset, boid, simulation.alpha, size, colors[i]);
+      offset += FLOATS_PER_INSTANCE;
+    });
+    for (const predator of simulation.predators) {
+      this.write(offset, predator, simulation.alpha, PREDATOR_SIZE * scale, PREDATOR_COLOR);
+      offset += FLOATS_PER_INSTANCE;
+    }
+
+    return count;
+  }
+
+  private write(offset: number, agent: Boid, alpha: number, size: number, color: RGB): void {
+    // Same interpolation as Boid.interpolatedPosition, without allocating
+    const previous = agent.previous_position;
+    const data = this.data;
+    data[offset] = previous.x + (agent.position.x - previous.x) * alpha;
+    data[offset + 1] = previous.y + (agent.position.y - previous.y) * alpha;
+    data[offset + 2] = agent.velocity.heading();
+    data[offset + 3] = size;
+    data[offset + 4] = color[0];
+    data[offset + 5] = color[1];
+    data[offset + 6] = color[2];
+  }
+
+  /**
+   * Point a float attribute at the bound buffer (`divisor` 1 advances it
+   * once per instance instead of once per vertex)
+   */
+  private attribute(
+    name: string,
+    size: number,
+    stride: number,
+    offset: number,
+    divisor: number
+  ): void {
+    const gl = this.gl;
+    const location = gl.getAttribLocation(this.program, name);
+    if (location < 0) return;
+
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+    gl.vertexAttribDivisor(location, divisor);
+  }
+}
+
+/**
+ * Compile and link a shader program, throwing with the GL log on failure
+ */
+function linkProgram(
+  gl: WebGL2RenderingContext,
+  vertexSource: string,
+  fragmentSource: string
+): WebGLProgram {
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+}
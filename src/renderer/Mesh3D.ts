@@ -0,0 +1,102 @@
+import { Vec3 } from '../math/Vec3';
+import { RGB, hsvToRgb } from './Appearance';
+
+export type BoidMesh = 'cone' | 'bird';
+
+/**
+ * How 3D boids are colored:
+ * - 'heading': a color wheel around the direction of travel seen from above
+ * - 'depth': brighter towards the front of the box
+ */
+export type ColorMode3D = 'heading' | 'depth';
+
+/**
+ * Render options for the 3D mode, edited in its Appearance folder
+ */
+export interface Appearance3D {
+  mesh: BoidMesh;
+  color_mode: ColorMode3D;
+  size: number; // Length of a boid from tail to nose
+  show_box: boolean; // Outline the box the flock lives in
+}
+
+/**
+ * Default 3D render options
+ */
+export function createAppearance3D(): Appearance3D {
+  return {
+    mesh: 'cone',
+    color_mode: 'heading',
+    size: 8,
+    show_box: true,
+  };
+}
+
+// Sides of the cone's base
+const CONE_SEGMENTS = 8;
+
+/**
+ * Each mesh for length 2 (x from -1 to 1), pointing along +x, as triangles
+ * (x0, y0, z0, x1, y1, z1, x2, y2, z2 per triangle). The cone is closed;
+ * the bird is a body fin, two swept wings and a tail, drawn two-sided.
+ */
+export const MESH_TRIANGLES: Record<BoidMesh, number[]> = {
+  cone: cone(0.4, CONE_SEGMENTS),
+  bird: [
+    // Body
+    1, 0, 0, -0.2, 0.2, 0, -1, 0, 0,
+    // Wings
+    0.5, 0, 0, -0.4, 0, 0, -0.3, -0.2, 1, 0.5, 0, 0, -0.3, -0.2, -1, -0.4, 0, 0,
+    // Tail
+    -0.6, 0, 0, -1, 0, 0.35, -1, 0, -0.35,
+  ],
+};
+
+/**
+ * The rotation that turns +x towards `direction`, as an angle in radians
+ * and the axis to turn around (+x itself for a boid that isn't moving)
+ */
+export function orientation(direction: Vec3): { angle: number; axis: Vec3 } {
+  const length = direction.mag();
+  if (length === 0) return { angle: 0, axis: new Vec3(1, 0, 0) };
+
+  const unit = direction.copy().div(length);
+  const axis = new Vec3(1, 0, 0).cross(unit);
+  if (axis.mag() < 1e-9) {
+    // Already along +x, or straight back along it
+    return { angle: unit.x > 0 ? 0 : Math.PI, axis: new Vec3(0, 1, 0) };
+  }
+
+  const angle = Math.acos(Math.max(-1, Math.min(1, unit.x)));
+  return { angle, axis: axis.normalize() };
+}
+
+/**
+ * Color of a 3D boid for the chosen mode, as 0-1 channels
+ */
+export function boidColor3D(mode: ColorMode3D, position: Vec3, velocity: Vec3, depth: number): RGB {
+  if (mode === 'depth') {
+    const t = depth > 0 ? Math.max(0, Math.min(1, position.z / depth)) : 0.5;
+    return hsvToRgb(200, 0.6, 0.35 + 0.65 * t);
+  }
+
+  const hue = ((Math.atan2(velocity.z, velocity.x) * 180) / Math.PI + 360) % 360;
+  return hsvToRgb(hue, 0.7, 1);
+}
+
+/**
+ * Triangles of a closed cone along +x: the tip at x = 1 and a base of
+ * `radius` at x = -1 with `segments` sides
+ */
+function cone(radius: number, segments: number): number[] {
+  const triangles: number[] = [];
+  for (let i = 0; i < segments; i++) {
+    const a = (i / segments) * Math.PI * 2;
+    const b = ((i + 1) / segments) * Math.PI * 2;
+    const [ya, za] = [Math.cos(a) * radius, Math.sin(a) * radius];
+    const [yb, zb] = [Math.cos(b) * radius, Math.sin(b) * radius];
+    triangles.push(1, 0, 0, -1, ya, za, -1, yb, zb);
+    triangles.push(-1, 0, 0, -1, yb, zb, -1, ya, za);
+  }
+  return triangles;
+}
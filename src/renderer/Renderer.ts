@@ -0,0 +1,69 @@
+import { Boid } from '../boids/Boid';
+import { Obstacle } from '../boids/Obstacle';
+import { Simulation } from '../boids/Simulation';
+import { Appearance } from './Appearance';
+import { Camera } from './Camera';
+import { DebugOptions, FrameStats } from './Debug';
+
+/**
+ * Available rendering backends:
+ * - 'canvas': p5's 2D canvas, one draw call per boid
+ * - 'webgl': the same scenery, with every boid drawn in one instanced
+ *   WebGL call (for very large flocks)
+ */
+export type RendererKind = 'canvas' | 'webgl';
+
+export const RENDERER_KINDS: readonly RendererKind[] = ['canvas', 'webgl'];
+
+/**
+ * What the sketch needs from a renderer
+ */
+export interface Renderer {
+  readonly kind: RendererKind;
+
+  /**
+   * Colors, shapes and trails, edited live from the control panel
+   */
+  readonly appearance: Appearance;
+
+  /**
+   * Maps the world onto the canvas; its screen size is the canvas size
+   */
+  readonly camera: Camera;
+
+  /**
+   * Which debug layers to draw, toggled from the control panel
+   */
+  readonly debug: DebugOptions;
+
+  /**
+   * Frame timings shown by the debug HUD, recorded by the sketch
+   */
+  readonly stats: FrameStats;
+
+  /**
+   * Boid to highlight, with its perception radius and flocking forces
+   */
+  selected: Boid | null;
+
+  /**
+   * Create the canvas at the given size in CSS pixels
+   */
+  setup(width: number, height: number): void;
+
+  /**
+   * Draw the current state of the simulation (once per frame)
+   */
+  draw(simulation: Simulation): void;
+
+  /**
+   * Preview an obstacle that is still being drawn with the mouse
+   */
+  drawDraft(obstacle: Obstacle | null): void;
+
+  /**
+   * The canvas holding the whole last drawn frame (for snapshots and
+   * export)
+   */
+  frame(): HTMLCanvasElement;
+}
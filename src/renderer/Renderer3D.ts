@@ -0,0 +1,118 @@
+import p5 from 'p5';
+import { Simulation3D } from '../boids/Simulation3D';
+import {
+  Appearance3D,
+  BoidMesh,
+  MESH_TRIANGLES,
+  boidColor3D,
+  createAppearance3D,
+  orientation,
+} from './Mesh3D';
+
+/**
+ * Renderer3D draws the 3D simulation with p5's WEBGL mode. Dragging orbits
+ * the camera around the box, the wheel zooms and right-drag pans (p5's
+ * orbitControl). Boid meshes are built once per shape as p5 geometry and
+ * drawn lit, turned towards each boid's velocity.
+ */
+export class Renderer3D {
+  readonly appearance: Appearance3D = createAppearance3D();
+
+  private meshes = new Map<BoidMesh, p5.Geometry>();
+
+  constructor(private p: p5) {}
+
+  /**
+   * Create the WEBGL canvas at the given size in CSS pixels
+   */
+  setup(width: number, height: number): void {
+    this.p.createCanvas(width, height, this.p.WEBGL);
+  }
+
+  /**
+   * Match the canvas to a new size in CSS pixels
+   */
+  resize(width: number, height: number): void {
+    if (width > 0 && height > 0 && (width !== this.p.width || height !== this.p.height)) {
+      this.p.resizeCanvas(width, height);
+    }
+  }
+
+  /**
+   * Draw the current state of the simulation (once per frame)
+   */
+  draw(simulation: Simulation3D): void {
+    const p = this.p;
+    const appearance = this.appearance;
+
+    p.background(10);
+    p.orbitControl();
+
+    // Fit the box to the view from the default camera distance, centered
+    // on the origin
+    const extent = Math.max(simulation.width, simulation.height, simulation.depth);
+    p.scale((Math.min(p.width, p.height) * 0.8) / extent);
+    p.translate(-simulation.width / 2, -simulation.height / 2, -simulation.depth / 2);
+
+    if (appearance.show_box) {
+      p.push();
+      p.noFill();
+      p.stroke(255, 255, 255, 60);
+      p.translate(simulation.width / 2, simulation.height / 2, simulation.depth / 2);
+      p.box(simulation.width, simulation.height, simulation.depth);
+      p.pop();
+    }
+
+    p.ambientLight(70);
+    p.directionalLight(255, 255, 255, 0.3, 0.6, -1);
+    p.noStroke();
+
+    const mesh = this.mesh(appearance.mesh);
+    const half = appearance.size / 2;
+    for (const boid of simulation.boids) {
+      const position = boid.interpolatedPosition(simulation.alpha);
+      const [r, g, b] = boidColor3D(
+        appearance.color_mode,
+        position,
+        boid.velocity,
+        simulation.depth
+      );
+      const { angle, axis } = orientation(boid.velocity);
+
+      p.push();
+      p.translate(position.x, position.y, position.z);
+      p.rotate(angle, [axis.x, axis.y, axis.z]);
+      p.scale(half);
+      p.fill(r * 255, g * 255, b * 255);
+      p.model(mesh);
+      p.pop();
+    }
+  }
+
+  /**
+   * The p5 canvas, which holds the whole frame
+   */
+  frame(): HTMLCanvasElement {
+    return (this.p as unknown as { canvas: HTMLCanvasElement }).canvas;
+  }
+
+  /**
+   * A shape's geometry, built on first use
+   */
+  private mesh(shape: BoidMesh): p5.Geometry {
+    let mesh = this.meshes.get(shape);
+    if (!mesh) {
+      const triangles = MESH_TRIANGLES[shape];
+      mesh = this.p.buildGeometry(() => {
+        this.p.beginShape(this.p.TRIANGLES);
+        for (let i = 0; i < triangles.length; i += 3) {
+          this.p.vertex(triangles[i], triangles[i + 1], triangles[i + 2]);
+        }
+        this.p.endShape();
+      });
+      mesh.computeNormals(this.p.FLAT);
+      this.meshes.set(shape, mesh);
+    }
+    return mesh;
+  }
+}
@@ -0,0 +1,121 @@
+import p5 from 'p5';
+import { Boid } from '../boids/Boid';
+import { Obstacle } from '../boids/Obstacle';
+import { Simulation } from '../boids/Simulation';
+import { Appearance } from './Appearance';
+import { Camera } from './Camera';
+import { CanvasRenderer } from './CanvasRenderer';
+import { DebugOptions, FrameStats } from './Debug';
+import { InstancedBoids } from './InstancedBoids';
+import { Renderer } from './Renderer';
+
+/**
+ * WebGLRenderer draws the flock with one instanced WebGL call per frame on
+ * a transparent canvas stacked over p5's canvas, which still draws the
+ * background, walls, obstacles and pointer through CanvasRenderer. The
+ * layer ignores pointer events, so input keeps going to p5's canvas.
+ * 'history' trails are drawn with the scenery, under the boids; 'fade'
+ * trails need the boids on p5's canvas, so they only show in 2D. Debug
+ * layers are part of the scenery too, so boids are drawn over them.
+ */
+export class WebGLRenderer implements Renderer {
+  readonly kind = 'webgl';
+  readonly appearance: Appearance;
+  readonly camera: Camera;
+  readonly debug: DebugOptions;
+  readonly stats: FrameStats;
+
+  private scenery: CanvasRenderer;
+  private boids: InstancedBoids;
+
+  // Scenery and boid layer flattened together, for export
+  private composite: HTMLCanvasElement | null = null;
+
+  /**
+   * Create the renderer, or return null if WebGL2 isn't available
+   */
+  static create(p: p5): WebGLRenderer | null {
+    const canvas = document.createElement('canvas');
+    canvas.className = 'boid-layer';
+    const boids = InstancedBoids.create(canvas);
+    return boids ? new WebGLRenderer(p, boids) : null;
+  }
+
+  private constructor(
+    private p: p5,
+    boids: InstancedBoids
+  ) {
+    this.scenery = new CanvasRenderer(p);
+    this.appearance = this.scenery.appearance;
+    this.camera = this.scenery.camera;
+    this.debug = this.scenery.debug;
+    this.stats = this.scenery.stats;
+    this.boids = boids;
+  }
+
+  /**
+   * The selection overlay is part of the scenery, under the boid layer
+   */
+  get selected(): Boid | null {
+    return this.scenery.selected;
+  }
+
+  set selected(boid: Boid | null) {
+    this.scenery.selected = boid;
+  }
+
+  setup(width: number, height: number): void {
+    this.scenery.setup(width, height);
+  }
+
+  draw(simulation: Simulation): void {
+    this.scenery.drawScenery(simulation);
+    this.placeLayer();
+    this.boids.draw(simulation, this.appearance, this.camera);
+  }
+
+  drawDraft(obstacle: Obstacle | null): void {
+    this.scenery.drawDraft(obstacle);
+  }
+
+  /**
+   * Flatten the scenery and boid layer into one canvas (done on demand, so
+   * only export pays for it). Must be called in the frame that drew them,
+   * before the browser discards the WebGL drawing buffer.
+   */
+  frame(): HTMLCanvasElement {
+    const scenery = this.scenery.frame();
+    const composite = (this.composite ??= document.createElement('canvas'));
+    if (composite.width !== scenery.width || composite.height !== scenery.height) {
+      composite.width = scenery.width;
+      composite.height = scenery.height;
+    }
+
+    const context = composite.getContext('2d');
+    if (context) {
+      context.drawImage(scenery, 0, 0);
+      context.drawImage(this.boids.canvas, 0, 0, composite.width, composite.height);
+    }
+    return composite;
+  }
+
+  /**
+   * Keep the layer right above p5's canvas (which the sketch moves into the
+   * page after setup) and the same size at the screen's pixel density
+   */
+  private placeLayer(): void {
+    const layer = this.boids.canvas;
+    const canvas = (this.p as unknown as { canvas: HTMLCanvasElement }).canvas;
+    if (canvas?.parentElement && layer.previousElementSibling !== canvas) {
+      canvas.after(layer);
+    }
+
+    const camera = this.camera;
+    const width = Math.round(camera.screen_width * camera.pixel_density);
+    const height = Math.round(camera.screen_height * camera.pixel_density);
+    if (layer.width !== width || layer.height !== height) {
+      layer.width = width;
+      layer.height = height;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * A file to put in a zip archive
+ */
+export interface ZipEntry {
+  name: string; // ASCII
+  data: Uint8Array;
+}
+
+// Size of the fixed part of each record, before the file name
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+
+/**
+ * Pack files into an uncompressed ("stored") zip archive. PNG frames are
+ * already compressed, so deflating them again would gain little.
+ */
+export function zipFiles(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const names = entries.map((entry) => Uint8Array.from(entry.name, (c) => c.charCodeAt(0)));
+  const crcs = entries.map((entry) => crc32(entry.data));
+
+  let localSize = 0;
+  let centralSize = 0;
+  entries.forEach((entry, i) => {
+    localSize += LOCAL_HEADER_SIZE + names[i].length + entry.data.length;
+    centralSize += CENTRAL_HEADER_SIZE + names[i].length;
+  });
+
+  const bytes = new Uint8Array(localSize + centralSize + END_RECORD_SIZE);
+  const view = new DataView(bytes.buffer);
+  const offsets: number[] = [];
+
+  // Each file's local header followed by its data
+  let offset = 0;
+  entries.forEach((entry, i) => {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // Version needed (2.0)
+    view.setUint32(offset + 14, crcs[i], true);
+    view.setUint32(offset + 18, entry.data.length, true); // Compressed size
+    view.setUint32(offset + 22, entry.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, names[i].length, true);
+    bytes.set(names[i], offset + LOCAL_HEADER_SIZE);
+    offset += LOCAL_HEADER_SIZE + names[i].length;
+    bytes.set(entry.data, offset);
+    offset += entry.data.length;
+  });
+
+  // Central directory pointing back at each local header
+  const centralStart = offset;
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed
+    view.setUint32(offset + 16, crcs[i], true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, names[i].length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    bytes.set(names[i], offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + names[i].length;
+  });
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return bytes;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 checksum (as used by zip and PNG)
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,63 @@
+import p5 from 'p5';
+import { Simulation3D } from './boids/Simulation3D';
+import { Renderer3D } from './renderer/Renderer3D';
+import { ControlPanel3D } from './ui/ControlPanel3D';
+import { AboutPanel } from './ui/AboutPanel';
+import { UrlConfig } from './ui/urlState';
+
+// Canvas size used until the container can be measured
+const DEFAULT_WIDTH = 800;
+const DEFAULT_HEIGHT = 800;
+
+// Side of the box the flock starts in
+const BOX_SIZE = 600;
+
+// Initial flock size
+const INITIAL_BOID_COUNT = 200;
+
+/**
+ * p5.js sketch for the 3D mode (`?mode=3d`)
+ * A cube-shaped world drawn with p5's WEBGL renderer and an orbit camera;
+ * the canvas follows its container like the 2D sketch's.
+ */
+export const sketch3D = (fromUrl: UrlConfig) => (p: p5) => {
+  let simulation: Simulation3D;
+  let renderer: Renderer3D;
+  let container: HTMLElement;
+
+  p.setup = function () {
+    container = document.getElementById('canvas-container') ?? document.body;
+
+    // Create the flock from the link's seed or a fresh one (shown in the
+    // control panel so an interesting run can be restarted identically);
+    // setCount caps the link's boid count at what 3D can handle
+    simulation = new Simulation3D(BOX_SIZE, BOX_SIZE, BOX_SIZE);
+    simulation.reseed(fromUrl.params.seed ?? Math.floor(Math.random() * 1_000_000));
+    simulation.setCount(fromUrl.boid_count ?? INITIAL_BOID_COUNT);
+
+    // Create the WEBGL canvas and move it into the canvas container div
+    renderer = new Renderer3D(p);
+    renderer.setup(
+      container.clientWidth || DEFAULT_WIDTH,
+      container.clientHeight || DEFAULT_HEIGHT
+    );
+    container.appendChild(renderer.frame());
+
+    new ControlPanel3D(simulation, renderer);
+    new AboutPanel();
+  };
+
+  p.draw = function () {
+    renderer.resize(Math.floor(container.clientWidth), Math.floor(container.clientHeight));
+    simulation.update(p.deltaTime / 1000);
+    renderer.draw(simulation);
+  };
+
+  /**
+   * The canvas follows its container in draw, so p5's own resize handling
+   * isn't needed
+   */
+  p.windowResized = function () {
+    return false;
+  };
+};
@@ -0,0 +1,161 @@
+import { Boid } from '../boids/Boid';
+import { Simulation } from '../boids/Simulation';
+import { Vec2 } from '../math/Vec2';
+import { Renderer } from '../renderer/Renderer';
+import { ObstacleEditor } from './ObstacleEditor';
+import { toScreenCoords } from './canvasCoords';
+
+// Zoom factor per wheel notch (100 pixels of scroll)
+const WHEEL_ZOOM = 1.15;
+// How far (in screen pixels) the pointer must move before a press pans
+const DRAG_THRESHOLD = 4;
+// How close (in screen pixels) a click must be to select a boid
+const PICK_RADIUS = 12;
+
+/**
+ * CameraControls - Zoom, pan and boid selection with the mouse or touch
+ * - Wheel: zoom around the pointer
+ * - Drag (while no obstacle tool is active) or middle-drag: pan
+ * - Click: select the boid under the pointer (click empty space to clear)
+ * With `follow` on, the camera keeps the selected boid centered (so
+ * panning has no lasting effect until it is turned off).
+ */
+export class CameraControls {
+  follow: boolean = false;
+
+  private canvas: HTMLCanvasElement;
+  private simulation: Simulation;
+  private renderer: Renderer;
+  private obstacleEditor: ObstacleEditor;
+
+  // Where the current press started and was last seen (screen pixels),
+  // and whether it has moved far enough to count as a drag
+  private press: { start: Vec2; last: Vec2; dragging: boolean } | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    simulation: Simulation,
+    renderer: Renderer,
+    obstacleEditor: ObstacleEditor
+  ) {
+    this.canvas = canvas;
+    this.simulation = simulation;
+    this.renderer = renderer;
+    this.obstacleEditor = obstacleEditor;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Which boid is selected, for the control panel
+   */
+  get selection(): string {
+    const selected = this.renderer.selected;
+    if (!selected) return 'None (click a boid)';
+
+    const index = this.simulation.boids.indexOf(selected);
+    return `Boid ${index + 1} (${this.simulation.species[selected.species].name})`;
+  }
+
+  /**
+   * Forget a selected boid that left the simulation, and keep a followed
+   * one centered (call once per frame, before drawing)
+   */
+  update(): void {
+    const selected = this.renderer.selected;
+    if (selected && !this.simulation.boids.includes(selected)) {
+      this.renderer.selected = null;
+      return;
+    }
+
+    if (this.follow && selected) {
+      this.renderer.camera.center = selected.interpolatedPosition(this.simulation.alpha);
+    }
+  }
+
+  /**
+   * Show the whole world and stop following
+   */
+  resetView(): void {
+    this.follow = false;
+    this.renderer.camera.reset();
+  }
+
+  /**
+   * Select the boid nearest a world position within `radius`, or clear the
+   * selection if there is none
+   */
+  select(point: Vec2, radius: number): void {
+    let nearest: Boid | null = null;
+    let nearestDistance = radius;
+    for (const boid of this.simulation.boids) {
+      const d = Vec2.dist(point, boid.position);
+      if (d <= nearestDistance) {
+        nearest = boid;
+        nearestDistance = d;
+      }
+    }
+    this.renderer.selected = nearest;
+  }
+
+  /**
+   * Set up wheel and pointer event listeners on the canvas
+   */
+  private setupEventListeners(): void {
+    this.canvas.addEventListener(
+      'wheel',
+      (e: WheelEvent) => {
+        e.preventDefault();
+        const point = this.toScreen(e);
+        const factor = Math.pow(WHEEL_ZOOM, -e.deltaY / 100);
+        this.renderer.camera.zoomAt(point.x, point.y, factor);
+      },
+      { passive: false }
+    );
+
+    this.canvas.addEventListener('pointerdown', (e: PointerEvent) => {
+      // Obstacle tools and right-click erase own the left and right buttons
+      const pans = e.button === 1 || (e.button === 0 && this.obstacleEditor.tool === 'none');
+      if (!pans) return;
+
+      const point = this.toScreen(e);
+      this.press = { start: point, last: point, dragging: e.button === 1 };
+      this.canvas.setPointerCapture?.(e.pointerId);
+    });
+
+    this.canvas.addEventListener('pointermove', (e: PointerEvent) => {
+      const press = this.press;
+      if (!press) return;
+
+      const point = this.toScreen(e);
+      if (!press.dragging && Vec2.dist(point, press.start) >= DRAG_THRESHOLD) {
+        press.dragging = true;
+      }
+      if (press.dragging) {
+        this.renderer.camera.pan(point.x - press.last.x, point.y - press.last.y);
+      }
+      press.last = point;
+    });
+
+    this.canvas.addEventListener('pointerup', (e: PointerEvent) => {
+      const press = this.press;
+      this.press = null;
+      if (!press || press.dragging) return;
+
+      const camera = this.renderer.camera;
+      const point = this.toScreen(e);
+      this.select(camera.toWorld(point.x, point.y), PICK_RADIUS / camera.scale);
+    });
+
+    this.canvas.addEventListener('pointercancel', () => {
+      this.press = null;
+    });
+  }
+
+  /**
+   * Convert an event's client position to canvas (screen) pixels
+   */
+  private toScreen(e: PointerEvent | WheelEvent): Vec2 {
+    return toScreenCoords(this.canvas, e, this.renderer.camera);
+  }
+}
@@ -1,26 +1,85 @@
 import * as Tweakpane from 'tweakpane';
 import { Simulation } from '../boids/Simulation';
-import { Boid } from '../boids/Boid';
-import p5 from 'p5';
+import { SPECIES_RANGES, createInteraction, createSpecies } from '../boids/Species';
+import { PARAM_RANGES, StateError, getParams, parseState } from '../boids/SimulationState';
+import { BUILT_IN_PRESETS, Preset, applyPreset } from '../boids/presets';
+import { Player, Recorder, Recording, RecordingMode } from '../boids/Recording';
+import { Exporter } from '../renderer/Exporter';
+import { Renderer } from '../renderer/Renderer';
+import { SimulationRunner } from '../worker/SimulationRunner';
+import { ObstacleEditor } from './ObstacleEditor';
+import { Viewport } from './Viewport';
+import { CameraControls } from './CameraControls';
+import { downloadBlob, downloadText, pickTextFile } from './files';
+import { loadUserPresets, saveUserPresets } from './userPresets';
+import { switchMode, writeUrlConfig } from './urlState';
+
+// localStorage key for the in-browser save slot
+const SAVE_KEY = 'boids.savedState';
 
 export class ControlPanel {
   private pane: Tweakpane.Pane & any;
   private simulation: Simulation;
-  private p: p5;
+  private obstacleEditor: ObstacleEditor;
+  private runner: SimulationRunner;
+  private renderer: Renderer;
+  private exporter: Exporter;
+  private viewport: Viewport;
+  private cameraControls: CameraControls;
+
+  // Folder holding one sub-folder per species, rebuilt when species change
+  private speciesFolder!: Tweakpane.FolderApi;
+  private speciesSubfolders: Tweakpane.FolderApi[] = [];
+
+  // Result of the last save or load, shown in the Save / Load folder
+  private storage = { status: '' };
 
-  // Store defaults for reset functionality
+  // Populations restored by Reset to Defaults (parameters come from the
+  // Default preset)
   private defaults = {
-    separation_force: 1.5,
-    alignment_force: 1.0,
-    cohesion_force: 1.0,
-    perception_radius: 100,
-    max_speed: 4,
     boid_count: 50,
+    predator_count: 0,
   };
 
-  constructor(simulation: Simulation, p: p5) {
+  // Preset picker state; `selected` is the name of the preset last applied
+  private presets = { selected: 'Default', name: 'My Preset' };
+  private presetsFolder!: Tweakpane.FolderApi;
+  private presetList: Tweakpane.BladeApi | null = null;
+  private userPresets: Preset[] = loadUserPresets();
+
+  // Recording of the live simulation, and the player replaying it (null
+  // while showing the live simulation)
+  private recorder = new Recorder();
+  private recording: Recording | null = null;
+  private replay: Player | null = null;
+  private replayOptions = { mode: 'events' as RecordingMode };
+  private replayFolder!: Tweakpane.FolderApi;
+  private recordButton!: Tweakpane.ButtonApi;
+  private playbackFolder: Tweakpane.FolderApi | null = null;
+  private scrubber: Tweakpane.BladeApi | null = null;
+
+  // "Run in Worker", locked off while every step has to be observed here
+  private workerBinding!: Tweakpane.InputBindingApi;
+
+  // Start/Stop button for exporting video or frames
+  private exportButton!: Tweakpane.ButtonApi;
+
+  constructor(
+    simulation: Simulation,
+    obstacleEditor: ObstacleEditor,
+    runner: SimulationRunner,
+    renderer: Renderer,
+    exporter: Exporter,
+    viewport: Viewport,
+    cameraControls: CameraControls
+  ) {
     this.simulation = simulation;
-    this.p = p;
+    this.obstacleEditor = obstacleEditor;
+    this.runner = runner;
+    this.renderer = renderer;
+    this.exporter = exporter;
+    this.viewport = viewport;
+    this.cameraControls = cameraControls;
 
     // Create the Tweakpane instance embedded in the control panel container
     const container = document.getElementById('control-panel');
@@ -30,12 +89,40 @@ export class ControlPanel {
     }) as any;
 
     this.setupControls();
+
+    // Keep the address bar in sync so the page link reproduces the setup
+    this.pane.on('change', () => writeUrlConfig(this.simulation));
+    writeUrlConfig(this.simulation);
   }
 
   /**
    * Set up all the UI controls
    */
   private setupControls(): void {
+    // Create a folder for built-in and user presets
+    this.presetsFolder = this.pane.addFolder({
+      title: 'Presets',
+    });
+
+    this.rebuildPresetList();
+
+    // Name to save the current parameters under
+    this.presetsFolder.addBinding(this.presets, 'name', {
+      label: 'Name',
+    });
+
+    this.presetsFolder
+      .addButton({
+        title: 'Save Preset',
+      })
+      .on('click', () => this.saveUserPreset());
+
+    this.presetsFolder
+      .addButton({
+        title: 'Delete Preset',
+      })
+      .on('click', () => this.deleteUserPreset());
+
     // Create a folder for flocking forces
     const forcesFolder = this.pane.addFolder({
       title: 'Flocking Forces',
@@ -43,24 +130,21 @@ export class ControlPanel {
 
     // Separation force slider
     forcesFolder.addBinding(this.simulation, 'separation_force', {
-      min: 0,
-      max: 5,
+      ...PARAM_RANGES.separation_force,
       step: 0.1,
       label: 'Separation',
     });
 
     // Alignment force slider
     forcesFolder.addBinding(this.simulation, 'alignment_force', {
-      min: 0,
-      max: 5,
+      ...PARAM_RANGES.alignment_force,
       step: 0.1,
       label: 'Alignment',
     });
 
     // Cohesion force slider
     forcesFolder.addBinding(this.simulation, 'cohesion_force', {
-      min: 0,
-      max: 5,
+      ...PARAM_RANGES.cohesion_force,
       step: 0.1,
       label: 'Cohesion',
     });
@@ -72,26 +156,572 @@ export class ControlPanel {
 
     // Perception radius slider
     paramsFolder.addBinding(this.simulation, 'perception_radius', {
-      min: 10,
-      max: 200,
+      ...PARAM_RANGES.perception_radius,
       step: 5,
       label: 'Perception Radius',
     });
 
-    // Max speed slider (this is trickier - we need to update all boids)
-    paramsFolder.addBinding(this, 'maxSpeed', {
-      min: 1,
+    // Separation radius (alignment and cohesion use the perception radius)
+    paramsFolder.addBinding(this.simulation, 'separation_radius', {
+      ...PARAM_RANGES.separation_radius,
+      step: 5,
+      label: 'Separation Radius',
+    });
+
+    // Width of the view cone in degrees; anything behind it is a blind spot
+    paramsFolder.addBinding(this.simulation, 'view_angle', {
+      ...PARAM_RANGES.view_angle,
+      step: 5,
+      label: 'View Angle',
+    });
+
+    // Neighbor selection: everyone within the radii, the k nearest, or both
+    paramsFolder.addBinding(this.simulation, 'neighbor_strategy', {
+      options: {
+        'Metric (radius)': 'metric',
+        'Topological (k nearest)': 'topological',
+        Hybrid: 'hybrid',
+      },
+      label: 'Neighbors',
+    });
+
+    // k for the topological and hybrid strategies
+    paramsFolder.addBinding(this.simulation, 'neighbor_count', {
+      ...PARAM_RANGES.neighbor_count,
+      step: 1,
+      label: 'k',
+    });
+
+    // Seed for the simulation's PRNG; restarting with the same seed
+    // reproduces the same flock
+    paramsFolder.addBinding(this.simulation, 'seed', {
+      step: 1,
+      label: 'Seed',
+    });
+
+    paramsFolder
+      .addButton({
+        title: 'Restart Flock',
+      })
+      .on('click', () => this.simulation.restart());
+
+    // Create a folder for species (population, weights, speeds and looks)
+    this.speciesFolder = this.pane.addFolder({
+      title: 'Species',
+    });
+
+    this.speciesFolder
+      .addButton({
+        title: 'Add Species',
+      })
+      .on('click', () => {
+        this.simulation.addSpecies();
+        this.rebuildSpeciesFolders();
+        writeUrlConfig(this.simulation);
+      });
+
+    this.rebuildSpeciesFolders();
+
+    // Create a folder for time controls
+    const timeFolder = this.pane.addFolder({
+      title: 'Time',
+    });
+
+    // Time scale slider (multiplies real time fed into the fixed-step loop)
+    timeFolder.addBinding(this.simulation, 'time_scale', {
+      ...PARAM_RANGES.time_scale,
+      step: 0.1,
+      label: 'Time Scale',
+    });
+
+    // Pause toggle
+    timeFolder.addBinding(this.simulation, 'paused', {
+      label: 'Paused',
+    });
+
+    // Single-step button (advances one fixed step, useful while paused)
+    timeFolder
+      .addButton({
+        title: 'Step',
+      })
+      .on('click', () => this.runner.singleStep());
+
+    // Run the simulation off the main thread so big flocks don't stall the
+    // page (switches back by itself if the worker can't run)
+    this.workerBinding = timeFolder
+      .addBinding(this.runner, 'threaded', {
+        label: 'Run in Worker',
+      })
+      .on('change', () => this.syncWorkerLock());
+
+    timeFolder.addBinding(this.runner, 'status', {
+      readonly: true,
+      label: 'Thread',
+    });
+
+    // Create a folder for how boids are drawn (view only, not part of the
+    // simulation state)
+    const appearanceFolder = this.pane.addFolder({
+      title: 'Appearance',
+      expanded: false,
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'color_mode', {
+      options: {
+        Species: 'species',
+        Speed: 'speed',
+        Heading: 'heading',
+        'Local Density': 'density',
+      },
+      label: 'Color By',
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'shape', {
+      options: {
+        Triangle: 'triangle',
+        Dart: 'dart',
+        Dot: 'dot',
+      },
+      label: 'Shape',
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'size_scale', {
+      min: 0.25,
+      max: 4,
+      step: 0.05,
+      label: 'Size',
+    });
+
+    // Fading trails partly wipe each frame; history trails draw a line
+    // through each boid's recent positions
+    appearanceFolder.addBinding(this.renderer.appearance, 'trail_mode', {
+      options: {
+        Off: 'off',
+        Fade: 'fade',
+        History: 'history',
+      },
+      label: 'Trails',
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'trail_length', {
+      min: 2,
+      max: 120,
+      step: 1,
+      label: 'Trail Length',
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'trail_fade', {
+      min: 0,
+      max: 0.98,
+      step: 0.01,
+      label: 'Fade',
+    });
+
+    // Create a folder for edge behavior
+    const boundaryFolder = this.pane.addFolder({
+      title: 'Boundaries',
+    });
+
+    // Boundary mode: wrap around, bounce, or steer away from the walls
+    boundaryFolder.addBinding(this.simulation, 'boundary_mode', {
+      options: {
+        Wrap: 'wrap',
+        Bounce: 'bounce',
+        'Soft Walls': 'avoid',
+      },
+      label: 'Mode',
+    });
+
+    // Distance from the edge where soft walls start steering
+    boundaryFolder.addBinding(this.simulation, 'boundary_margin', {
+      ...PARAM_RANGES.boundary_margin,
+      step: 5,
+      label: 'Margin',
+    });
+
+    // Strength of the soft wall steering force
+    boundaryFolder.addBinding(this.simulation, 'boundary_force', {
+      ...PARAM_RANGES.boundary_force,
+      step: 0.1,
+      label: 'Wall Strength',
+    });
+
+    // Create a folder for the world size
+    const worldFolder = this.pane.addFolder({
+      title: 'World',
+      expanded: false,
+    });
+
+    // Resize the world with the canvas, or keep a fixed size scaled to fit
+    worldFolder.addBinding(this.viewport, 'fit_world', {
+      label: 'Fit to Canvas',
+    });
+
+    worldFolder.addBinding(this.viewport, 'world_width', {
+      min: 100,
+      max: 4000,
+      step: 10,
+      label: 'Width',
+    });
+
+    worldFolder.addBinding(this.viewport, 'world_height', {
+      min: 100,
+      max: 4000,
+      step: 10,
+      label: 'Height',
+    });
+
+    // Scale positions with the world, or keep them and clamp to the edges
+    worldFolder.addBinding(this.viewport, 'resize_mode', {
+      options: {
+        Remap: 'remap',
+        Clamp: 'clamp',
+      },
+      label: 'On Resize',
+    });
+
+    // Reload into the 3D flock (a separate, simpler simulation)
+    worldFolder
+      .addButton({
+        title: 'Switch to 3D',
+      })
+      .on('click', () => switchMode('3d'));
+
+    // Show sizes changed by the canvas (or the other controls)
+    this.viewport.onResize = () => this.pane.refresh();
+
+    // Create a folder for the view: wheel zooms, dragging pans and clicking
+    // a boid selects it
+    const cameraFolder = this.pane.addFolder({
+      title: 'Camera',
+      expanded: false,
+    });
+
+    cameraFolder.addBinding(this.cameraControls, 'selection', {
+      readonly: true,
+      label: 'Selected',
+    });
+
+    // Keep the selected boid in the middle of the view
+    cameraFolder.addBinding(this.cameraControls, 'follow', {
+      label: 'Follow Selected',
+    });
+
+    cameraFolder.addBinding(this.renderer.camera, 'zoom', {
+      readonly: true,
+      format: (zoom: number) => `${zoom.toFixed(2)}x`,
+      label: 'Zoom',
+    });
+
+    cameraFolder
+      .addButton({
+        title: 'Reset View',
+      })
+      .on('click', () => {
+        this.cameraControls.resetView();
+        this.pane.refresh();
+      });
+
+    // Create a folder for obstacles
+    const obstaclesFolder = this.pane.addFolder({
+      title: 'Obstacles',
+    });
+
+    // Tool used when clicking/dragging on the canvas
+    obstaclesFolder.addBinding(this.obstacleEditor, 'tool', {
+      options: {
+        None: 'none',
+        Circle: 'circle',
+        Rectangle: 'rect',
+        Wall: 'wall',
+        Erase: 'erase',
+      },
+      label: 'Tool',
+    });
+
+    // How far ahead boids look for obstacles
+    obstaclesFolder.addBinding(this.simulation, 'obstacle_look_ahead', {
+      ...PARAM_RANGES.obstacle_look_ahead,
+      step: 5,
+      label: 'Look Ahead',
+    });
+
+    // Strength of the avoidance steering force
+    obstaclesFolder.addBinding(this.simulation, 'obstacle_force', {
+      ...PARAM_RANGES.obstacle_force,
+      step: 0.1,
+      label: 'Avoidance',
+    });
+
+    obstaclesFolder
+      .addButton({
+        title: 'Clear Obstacles',
+      })
+      .on('click', () => this.obstacleEditor.clear());
+
+    // Create a folder for predators hunting the flock
+    const predatorsFolder = this.pane.addFolder({
+      title: 'Predators',
+    });
+
+    // Number of predators (with dynamic add/remove logic)
+    predatorsFolder.addBinding(this, 'predatorCount', {
+      min: 0,
       max: 10,
-      step: 0.5,
-      label: 'Max Speed',
+      step: 1,
+      label: 'Count',
     });
 
-    // Boid count slider (with dynamic add/remove logic)
-    paramsFolder.addBinding(this, 'boidCount', {
-      min: 10,
-      max: 500,
+    // Chase the nearest boid or the middle of the biggest group
+    predatorsFolder.addBinding(this.simulation, 'predator_target', {
+      options: {
+        'Nearest Boid': 'nearest',
+        'Densest Cluster': 'cluster',
+      },
+      label: 'Target',
+    });
+
+    // Predator top speed (pushed to every predator on change)
+    predatorsFolder
+      .addBinding(this.simulation, 'predator_speed', {
+        ...PARAM_RANGES.predator_speed,
+        step: 0.5,
+        label: 'Speed',
+      })
+      .on('change', () => this.simulation.applyPredatorSpeed());
+
+    // Strength of the pursuit steering force
+    predatorsFolder.addBinding(this.simulation, 'predator_force', {
+      ...PARAM_RANGES.predator_force,
+      step: 0.1,
+      label: 'Pursuit',
+    });
+
+    // Boids within this distance of a predator flee it
+    predatorsFolder.addBinding(this.simulation, 'fear_radius', {
+      ...PARAM_RANGES.fear_radius,
+      step: 5,
+      label: 'Fear Radius',
+    });
+
+    // Strength of the flee steering force
+    predatorsFolder.addBinding(this.simulation, 'fear_force', {
+      ...PARAM_RANGES.fear_force,
+      step: 0.1,
+      label: 'Fear',
+    });
+
+    // Whether predators remove the boids they reach
+    predatorsFolder.addBinding(this.simulation, 'predator_catch', {
+      label: 'Catching',
+    });
+
+    // Running total of caught boids (read-only monitor)
+    predatorsFolder.addBinding(this.simulation, 'catches', {
+      readonly: true,
+      format: (value: number) => value.toFixed(0),
+      label: 'Catches',
+    });
+
+    predatorsFolder
+      .addButton({
+        title: 'Reset Catches',
+      })
+      .on('click', () => {
+        this.simulation.catches = 0;
+      });
+
+    // Create a folder for mouse/touch interaction
+    const pointerFolder = this.pane.addFolder({
+      title: 'Mouse Interaction',
+    });
+
+    // Pointer mode: boids ignore, seek, or flee the cursor
+    pointerFolder.addBinding(this.simulation, 'pointer_mode', {
+      options: {
+        Off: 'off',
+        'Goal (attract)': 'attract',
+        'Predator (repel)': 'repel',
+      },
+      label: 'Mode',
+    });
+
+    // Radius within which boids react to the pointer
+    pointerFolder.addBinding(this.simulation, 'pointer_radius', {
+      ...PARAM_RANGES.pointer_radius,
       step: 10,
-      label: 'Boid Count',
+      label: 'Radius',
+    });
+
+    // Strength of the pointer steering force
+    pointerFolder.addBinding(this.simulation, 'pointer_force', {
+      ...PARAM_RANGES.pointer_force,
+      step: 0.1,
+      label: 'Strength',
+    });
+
+    // Create a folder for saving and loading whole runs
+    const storageFolder = this.pane.addFolder({
+      title: 'Save / Load',
+      expanded: false,
+    });
+
+    storageFolder
+      .addButton({
+        title: 'Save to File',
+      })
+      .on('click', () => {
+        downloadText('boids.json', JSON.stringify(this.simulation.serialize()));
+        this.storage.status = 'Saved to file';
+      });
+
+    storageFolder
+      .addButton({
+        title: 'Load from File',
+      })
+      .on('click', () => {
+        pickTextFile().then((json) => this.load(json, 'file'));
+      });
+
+    storageFolder
+      .addButton({
+        title: 'Save in Browser',
+      })
+      .on('click', () => {
+        try {
+          localStorage.setItem(SAVE_KEY, JSON.stringify(this.simulation.serialize()));
+          this.storage.status = 'Saved in browser';
+        } catch (error) {
+          this.storage.status = `Save failed: ${(error as Error).message}`;
+        }
+      });
+
+    storageFolder
+      .addButton({
+        title: 'Load from Browser',
+      })
+      .on('click', () => {
+        const json = localStorage.getItem(SAVE_KEY);
+        if (json === null) {
+          this.storage.status = 'Nothing saved in this browser yet';
+        } else {
+          this.load(json, 'browser');
+        }
+      });
+
+    // Outcome of the last save or load, including why a file was rejected
+    storageFolder.addBinding(this.storage, 'status', {
+      readonly: true,
+      multiline: true,
+      rows: 3,
+      label: 'Status',
+    });
+
+    // Create a folder for recording runs and replaying them
+    this.replayFolder = this.pane.addFolder({
+      title: 'Record & Replay',
+      expanded: false,
+    });
+
+    // Store the initial state plus every change (small, exact), or a
+    // packed snapshot of every frame (bigger, but instant to scrub)
+    this.replayFolder.addBinding(this.replayOptions, 'mode', {
+      options: {
+        'Initial State + Changes': 'events',
+        Snapshots: 'snapshots',
+      },
+      label: 'Mode',
+    });
+
+    this.recordButton = this.replayFolder
+      .addButton({
+        title: 'Start Recording',
+      })
+      .on('click', () => this.toggleRecording());
+
+    this.replayFolder
+      .addButton({
+        title: 'Replay',
+      })
+      .on('click', () => this.startReplay());
+
+    // What is being recorded or replayed
+    this.replayFolder.addBinding(this, 'replayStatus', {
+      readonly: true,
+      label: 'Status',
+    });
+
+    // Create a folder for saving images and videos of the canvas
+    const exportFolder = this.pane.addFolder({
+      title: 'Export',
+      expanded: false,
+    });
+
+    exportFolder
+      .addButton({
+        title: 'Snapshot',
+      })
+      .on('click', () => this.saveSnapshot());
+
+    exportFolder.addBinding(this.exporter.options, 'format', {
+      options: {
+        'WebM Video': 'webm',
+        'PNG Frames (zip)': 'frames',
+      },
+      label: 'Format',
+    });
+
+    // Advance simulated time in whole exported frames, so the result is
+    // smooth even if the page can't keep up
+    exportFolder
+      .addBinding(this.exporter.options, 'fixed_timestep', {
+        label: 'Fixed Timestep',
+      })
+      .on('change', () => this.syncWorkerLock());
+
+    exportFolder.addBinding(this.exporter.options, 'fps', {
+      min: 10,
+      max: 60,
+      step: 1,
+      label: 'FPS',
+    });
+
+    this.exportButton = exportFolder
+      .addButton({
+        title: 'Start Recording',
+      })
+      .on('click', () => this.toggleExport());
+
+    exportFolder.addBinding(this.exporter, 'status', {
+      readonly: true,
+      label: 'Status',
+    });
+
+    // Create a folder for debug layers drawn over the world
+    const debugFolder = this.pane.addFolder({
+      title: 'Debug',
+      expanded: false,
+    });
+
+    debugFolder.addBinding(this.renderer.debug, 'perception', {
+      label: 'Perception Radius',
+    });
+
+    debugFolder.addBinding(this.renderer.debug, 'forces', {
+      label: 'Force Arrows',
+    });
+
+    debugFolder.addBinding(this.renderer.debug, 'neighbors', {
+      label: 'Neighbor Links',
+    });
+
+    // Only drawn while the spatial index is on
+    debugFolder.addBinding(this.renderer.debug, 'grid', {
+      label: 'Spatial Grid',
+    });
+
+    debugFolder.addBinding(this.renderer.debug, 'hud', {
+      label: 'Timing HUD',
     });
 
     // Reset button
@@ -103,60 +733,396 @@ export class ControlPanel {
   }
 
   /**
-   * Getter/setter for max_speed to update all boids
+   * Download the next drawn frame as a PNG
    */
-  private get maxSpeed(): number {
-    // All boids should have the same max_speed, so return the first one's
-    return this.simulation.boids.length > 0
-      ? this.simulation.boids[0].max_speed
-      : this.defaults.max_speed;
+  private saveSnapshot(): void {
+    const step = this.simulation.step_count;
+    this.exporter.snapshot().then((blob) => {
+      if (blob) downloadBlob(`boids-${step}.png`, blob);
+    });
   }
 
-  private set maxSpeed(value: number) {
-    // Update all boids with new max_speed
-    for (const boid of this.simulation.boids) {
-      boid.max_speed = value;
+  /**
+   * Start exporting video or frames, or stop and download the result
+   */
+  private toggleExport(): void {
+    if (this.exporter.active) {
+      this.exportButton.title = 'Start Recording';
+      this.exporter.stop().then((result) => {
+        if (result) downloadBlob(result.filename, result.blob);
+      });
+      this.syncWorkerLock();
+      return;
     }
+
+    this.exporter.start();
+    if (this.exporter.active) {
+      this.exportButton.title = 'Stop Recording';
+    }
+    this.syncWorkerLock();
+  }
+
+  /**
+   * Recreate the preset list (at the top of the Presets folder) from the
+   * built-in and user presets
+   */
+  private rebuildPresetList(): void {
+    this.presetList?.dispose();
+
+    const options: Record<string, string> = {};
+    for (const preset of [...BUILT_IN_PRESETS, ...this.userPresets]) {
+      options[preset.name] = preset.name;
+    }
+
+    const list = this.presetsFolder.addBinding(this.presets, 'selected', {
+      options,
+      index: 0,
+      label: 'Preset',
+    });
+    list.on('change', (e: { value: string }) => this.applyPreset(e.value));
+    this.presetList = list;
+  }
+
+  /**
+   * Apply a preset by name (user presets shadow built-ins of the same name)
+   */
+  private applyPreset(name: string): void {
+    const preset =
+      this.userPresets.find((p) => p.name === name) ??
+      BUILT_IN_PRESETS.find((p) => p.name === name);
+    if (!preset) return;
+
+    applyPreset(this.simulation, preset);
+    this.pane.refresh();
+    writeUrlConfig(this.simulation);
   }
 
   /**
-   * Getter/setter for boid count
+   * Save the current parameters as a user preset under the chosen name
    */
-  private get boidCount(): number {
-    return this.simulation.getCount();
+  private saveUserPreset(): void {
+    const name = this.presets.name.trim();
+    if (!name) return;
+
+    const preset: Preset = { name, params: getParams(this.simulation) };
+    this.userPresets = [...this.userPresets.filter((p) => p.name !== name), preset];
+    saveUserPresets(this.userPresets);
+
+    this.presets.selected = name;
+    this.rebuildPresetList();
   }
 
-  private set boidCount(count: number) {
-    const current = this.simulation.getCount();
+  /**
+   * Delete the selected user preset (built-in presets can't be deleted)
+   */
+  private deleteUserPreset(): void {
+    const name = this.presets.selected;
+    if (!this.userPresets.some((p) => p.name === name)) return;
+
+    this.userPresets = this.userPresets.filter((p) => p.name !== name);
+    saveUserPresets(this.userPresets);
+
+    this.presets.selected = 'Default';
+    this.rebuildPresetList();
+  }
 
-    if (count > current) {
-      // Add new boids
-      for (let i = current; i < count; i++) {
-        const x = this.p.random(this.simulation.width);
-        const y = this.p.random(this.simulation.height);
-        this.simulation.addBoid(new Boid(x, y));
-      }
-    } else if (count < current) {
-      // Remove boids from the end
-      for (let i = current; i > count; i--) {
-        const boid = this.simulation.boids[this.simulation.boids.length - 1];
-        this.simulation.removeBoid(boid);
-      }
+  /**
+   * Getter/setter for the number of predators
+   */
+  private get predatorCount(): number {
+    return this.simulation.predators.length;
+  }
+
+  private set predatorCount(count: number) {
+    this.simulation.setPredatorCount(count);
+  }
+
+  /**
+   * The player while a recording is being replayed, otherwise null
+   */
+  get player(): Player | null {
+    return this.replay;
+  }
+
+  /**
+   * Per-frame refresh for controls that follow playback
+   */
+  update(): void {
+    this.scrubber?.refresh();
+  }
+
+  /**
+   * Summary shown in the Record & Replay folder
+   */
+  get replayStatus(): string {
+    if (this.recorder.active) {
+      return `Recording (${this.recorder.recording!.length} steps)`;
     }
+    if (this.replay) {
+      return `Replaying step ${this.replay.step} of ${this.replay.recording.length}`;
+    }
+    if (this.recording) {
+      return `Recorded ${this.recording.length} steps`;
+    }
+    return 'Idle';
+  }
+
+  /**
+   * Getter/setter for the replay position (setting it scrubs)
+   */
+  get replayStep(): number {
+    return this.replay?.step ?? 0;
+  }
+
+  set replayStep(step: number) {
+    this.replay?.seek(step);
+  }
+
+  /**
+   * Start recording the live simulation, or stop and keep the recording
+   */
+  private toggleRecording(): void {
+    if (this.recorder.active) {
+      this.recording = this.recorder.stop();
+      this.recordButton.title = 'Start Recording';
+      this.syncWorkerLock();
+      return;
+    }
+
+    this.exitReplay();
+    this.recorder.start(this.simulation, this.replayOptions.mode);
+    this.recordButton.title = 'Stop Recording';
+    this.syncWorkerLock();
+  }
+
+  /**
+   * Keep the simulation on the main thread while a recording observes
+   * every step there or a fixed-timestep export steps it frame by frame,
+   * with "Run in Worker" locked off until they stop
+   */
+  private syncWorkerLock(): void {
+    const locked =
+      this.recorder.active || (this.exporter.active && this.exporter.options.fixed_timestep);
+    if (locked) this.runner.threaded = false;
+    this.workerBinding.disabled = locked;
+    this.pane.refresh();
+  }
+
+  /**
+   * Replay the last recording in place of the live simulation, with
+   * play/pause and a scrubber
+   */
+  private startReplay(): void {
+    if (this.recorder.active) this.toggleRecording();
+    if (!this.recording || this.recording.length === 0) return;
+
+    this.exitReplay();
+    this.replay = new Player(this.recording);
+
+    const folder = this.replayFolder.addFolder({
+      title: 'Playback',
+    });
+
+    folder
+      .addBinding(this.replay, 'playing', {
+        label: 'Playing',
+      })
+      .on('change', (e: { value: boolean }) => {
+        // Playing again from the end starts over
+        if (e.value && this.replay?.finished) this.replay.seek(0);
+      });
+
+    this.scrubber = folder.addBinding(this, 'replayStep', {
+      min: 0,
+      max: this.recording.length,
+      step: 1,
+      label: 'Step',
+    });
+
+    folder
+      .addButton({
+        title: 'Exit Replay',
+      })
+      .on('click', () => this.exitReplay());
+
+    this.playbackFolder = folder;
+  }
+
+  /**
+   * Go back to showing the live simulation
+   */
+  private exitReplay(): void {
+    this.playbackFolder?.dispose();
+    this.playbackFolder = null;
+    this.scrubber = null;
+    this.replay = null;
+  }
+
+  /**
+   * Restore the simulation from saved JSON, reporting validation errors
+   * in the status line instead of changing anything
+   */
+  private load(json: string, source: string): void {
+    try {
+      this.simulation.restore(parseState(json));
+    } catch (error) {
+      if (!(error instanceof StateError)) throw error;
+      this.storage.status = `Load failed: ${error.message}`;
+      return;
+    }
+
+    // Keep the saved world size rather than fitting it to this canvas
+    this.viewport.fit_world = false;
+    this.storage.status = `Loaded from ${source}`;
+    this.rebuildSpeciesFolders();
+    this.pane.refresh();
+  }
+
+  /**
+   * Recreate the per-species folders to match `simulation.species`
+   * (above the "Add Species" button)
+   */
+  private rebuildSpeciesFolders(): void {
+    for (const folder of this.speciesSubfolders) {
+      folder.dispose();
+    }
+    this.speciesSubfolders = this.simulation.species.map((_, index) =>
+      this.addSpeciesFolder(index)
+    );
+  }
+
+  /**
+   * Add the folder for one species
+   */
+  private addSpeciesFolder(index: number): Tweakpane.FolderApi {
+    const simulation = this.simulation;
+    const species = simulation.species[index];
+
+    const folder = this.speciesFolder.addFolder({
+      title: species.name,
+      index,
+      expanded: index === 0,
+    });
+
+    // Population count (spawns or removes boids of this species)
+    const population = {
+      get count(): number {
+        return simulation.countSpecies(index);
+      },
+      set count(count: number) {
+        simulation.setSpeciesCount(index, count);
+      },
+    };
+    folder.addBinding(population, 'count', {
+      min: 0,
+      max: 500,
+      step: 10,
+      label: 'Count',
+    });
+
+    // Rule weights, multiplied with the global flocking forces
+    folder.addBinding(species, 'separation_weight', {
+      ...SPECIES_RANGES.separation_weight,
+      step: 0.1,
+      label: 'Separation',
+    });
+    folder.addBinding(species, 'alignment_weight', {
+      ...SPECIES_RANGES.alignment_weight,
+      step: 0.1,
+      label: 'Alignment',
+    });
+    folder.addBinding(species, 'cohesion_weight', {
+      ...SPECIES_RANGES.cohesion_weight,
+      step: 0.1,
+      label: 'Cohesion',
+    });
+
+    // Speed and force limits live on each boid, so push changes to them
+    folder
+      .addBinding(species, 'max_speed', {
+        ...SPECIES_RANGES.max_speed,
+        step: 0.5,
+        label: 'Max Speed',
+      })
+      .on('change', () => simulation.applySpeciesLimits(index));
+    folder
+      .addBinding(species, 'max_force', {
+        ...SPECIES_RANGES.max_force,
+        step: 0.05,
+        label: 'Max Force',
+      })
+      .on('change', () => simulation.applySpeciesLimits(index));
+
+    folder.addBinding(species, 'color', {
+      label: 'Color',
+    });
+    folder.addBinding(species, 'size', {
+      ...SPECIES_RANGES.size,
+      step: 1,
+      label: 'Size',
+    });
+
+    // Which rules this species applies to each species (including itself)
+    const interactionsFolder = folder.addFolder({
+      title: 'Interactions',
+      expanded: false,
+    });
+    simulation.species.forEach((other, otherIndex) => {
+      const rule = simulation.interactions[index][otherIndex];
+      interactionsFolder.addBinding(rule, 'separation', {
+        label: `Separate from ${other.name}`,
+      });
+      interactionsFolder.addBinding(rule, 'alignment', {
+        label: `Align with ${other.name}`,
+      });
+      interactionsFolder.addBinding(rule, 'cohesion', {
+        label: `Cohere with ${other.name}`,
+      });
+    });
+
+    // The first species always stays
+    if (index > 0) {
+      folder
+        .addButton({
+          title: 'Remove Species',
+        })
+        .on('click', () => {
+          simulation.removeSpecies(index);
+          this.rebuildSpeciesFolders();
+          writeUrlConfig(simulation);
+        });
+    }
+
+    return folder;
+  }
+
+  /**
+   * Go back to a single default species with the default population
+   */
+  private resetSpecies(): void {
+    while (this.simulation.species.length > 1) {
+      this.simulation.removeSpecies(this.simulation.species.length - 1);
+    }
+
+    Object.assign(this.simulation.species[0], createSpecies('Flock'));
+    this.simulation.interactions[0][0] = createInteraction();
+    this.simulation.applySpeciesLimits(0);
+    this.simulation.setSpeciesCount(0, this.defaults.boid_count);
+
+    this.rebuildSpeciesFolders();
   }
 
   /**
    * Reset all parameters to defaults
    */
   private reset(): void {
-    this.simulation.separation_force = this.defaults.separation_force;
-    this.simulation.alignment_force = this.defaults.alignment_force;
-    this.simulation.cohesion_force = this.defaults.cohesion_force;
-    this.simulation.perception_radius = this.defaults.perception_radius;
-    this.maxSpeed = this.defaults.max_speed;
-    this.boidCount = this.defaults.boid_count;
+    applyPreset(this.simulation, BUILT_IN_PRESETS[0]);
+    this.presets.selected = BUILT_IN_PRESETS[0].name;
+    this.predatorCount = this.defaults.predator_count;
+    this.resetSpecies();
 
     // Refresh the pane to show updated values
     this.pane.refresh();
+    writeUrlConfig(this.simulation);
   }
 }
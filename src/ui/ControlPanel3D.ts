@@ -0,0 +1,226 @@
+import * as Tweakpane from 'tweakpane';
+import { Simulation3D } from '../boids/Simulation3D';
+import { Renderer3D } from '../renderer/Renderer3D';
+import { switchMode } from './urlState';
+
+/**
+ * ControlPanel3D - The control panel for the 3D mode
+ * A smaller counterpart of ControlPanel covering what Simulation3D and
+ * Renderer3D support, plus a way back to the 2D simulation.
+ */
+export class ControlPanel3D {
+  private pane: Tweakpane.FolderApi;
+  private simulation: Simulation3D;
+  private renderer: Renderer3D;
+
+  // Flock size, applied by adding or removing boids
+  private flock: { count: number };
+
+  constructor(simulation: Simulation3D, renderer: Renderer3D) {
+    this.simulation = simulation;
+    this.renderer = renderer;
+    this.flock = { count: simulation.boids.length };
+
+    // Create the Tweakpane instance embedded in the control panel container
+    // (a Pane is a folder at heart, though its typings don't say so)
+    const container = document.getElementById('control-panel');
+    this.pane = new Tweakpane.Pane({
+      container: container || undefined,
+      title: '3D Simulation Controls',
+    }) as unknown as Tweakpane.FolderApi;
+
+    this.setupControls();
+  }
+
+  /**
+   * Set up all the UI controls
+   */
+  private setupControls(): void {
+    const simulation = this.simulation;
+
+    this.pane
+      .addButton({
+        title: 'Switch to 2D',
+      })
+      .on('click', () => switchMode('2d'));
+
+    // Create a folder for the flock itself
+    const flockFolder = this.pane.addFolder({
+      title: 'Flock',
+    });
+
+    flockFolder
+      .addBinding(this.flock, 'count', {
+        min: 0,
+        max: Simulation3D.MAX_BOIDS,
+        step: 1,
+        label: 'Boids',
+      })
+      .on('change', () => simulation.setCount(this.flock.count));
+
+    // Restarting with the same seed reproduces the same flock
+    flockFolder.addBinding(simulation, 'seed', {
+      step: 1,
+      label: 'Seed',
+    });
+
+    flockFolder
+      .addButton({
+        title: 'Restart Flock',
+      })
+      .on('click', () => simulation.restart());
+
+    // Create a folder for the three rules, shared with the 2D mode
+    const forcesFolder = this.pane.addFolder({
+      title: 'Flocking Forces',
+    });
+
+    forcesFolder.addBinding(simulation, 'separation_force', {
+      min: 0,
+      max: 5,
+      step: 0.1,
+      label: 'Separation',
+    });
+
+    forcesFolder.addBinding(simulation, 'alignment_force', {
+      min: 0,
+      max: 5,
+      step: 0.1,
+      label: 'Alignment',
+    });
+
+    forcesFolder.addBinding(simulation, 'cohesion_force', {
+      min: 0,
+      max: 5,
+      step: 0.1,
+      label: 'Cohesion',
+    });
+
+    // Create a folder for perception and movement limits
+    const paramsFolder = this.pane.addFolder({
+      title: 'Simulation Parameters',
+    });
+
+    paramsFolder.addBinding(simulation, 'perception_radius', {
+      min: 10,
+      max: 200,
+      step: 5,
+      label: 'Perception',
+    });
+
+    paramsFolder.addBinding(simulation, 'separation_radius', {
+      min: 5,
+      max: 200,
+      step: 5,
+      label: 'Separation Radius',
+    });
+
+    paramsFolder.addBinding(simulation, 'view_angle', {
+      min: 30,
+      max: 360,
+      step: 5,
+      label: 'View Angle',
+    });
+
+    paramsFolder
+      .addBinding(simulation, 'max_speed', {
+        min: 0.5,
+        max: 10,
+        step: 0.1,
+        label: 'Max Speed',
+      })
+      .on('change', () => simulation.applyLimits());
+
+    paramsFolder
+      .addBinding(simulation, 'max_force', {
+        min: 0.01,
+        max: 1,
+        step: 0.01,
+        label: 'Max Force',
+      })
+      .on('change', () => simulation.applyLimits());
+
+    // Create a folder for the box the flock lives in
+    const boxFolder = this.pane.addFolder({
+      title: 'Box',
+    });
+
+    boxFolder.addBinding(simulation, 'box_mode', {
+      options: {
+        Wrap: 'wrap',
+        Bounce: 'bounce',
+      },
+      label: 'Faces',
+    });
+
+    boxFolder.addBinding(simulation, 'width', {
+      min: 100,
+      max: 2000,
+      step: 10,
+      label: 'Width',
+    });
+
+    boxFolder.addBinding(simulation, 'height', {
+      min: 100,
+      max: 2000,
+      step: 10,
+      label: 'Height',
+    });
+
+    boxFolder.addBinding(simulation, 'depth', {
+      min: 100,
+      max: 2000,
+      step: 10,
+      label: 'Depth',
+    });
+
+    // Create a folder for time controls
+    const timeFolder = this.pane.addFolder({
+      title: 'Time',
+    });
+
+    timeFolder.addBinding(simulation, 'time_scale', {
+      min: 0.1,
+      max: 4,
+      step: 0.1,
+      label: 'Time Scale',
+    });
+
+    timeFolder.addBinding(simulation, 'paused', {
+      label: 'Paused',
+    });
+
+    // Create a folder for how boids are drawn
+    const appearanceFolder = this.pane.addFolder({
+      title: 'Appearance',
+      expanded: false,
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'mesh', {
+      options: {
+        Cone: 'cone',
+        Bird: 'bird',
+      },
+      label: 'Shape',
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'color_mode', {
+      options: {
+        Heading: 'heading',
+        Depth: 'depth',
+      },
+      label: 'Color By',
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'size', {
+      min: 2,
+      max: 30,
+      step: 1,
+      label: 'Size',
+    });
+
+    appearanceFolder.addBinding(this.renderer.appearance, 'show_box', {
+      label: 'Show Box',
+    });
+  }
+}
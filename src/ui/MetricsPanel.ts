@@ -0,0 +1,207 @@
+import { FlockMetrics, MetricsLog, MetricsSample } from '../boids/Metrics';
+import { downloadText } from './files';
+
+/**
+ * One metric shown in the panel: label, latest value and sparkline
+ */
+interface MetricRow {
+  key: keyof FlockMetrics;
+  value: HTMLElement;
+  canvas: HTMLCanvasElement;
+}
+
+// Metrics plotted, with their labels and how to print the latest value
+const METRIC_DISPLAY: {
+  key: keyof FlockMetrics;
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { key: 'polarization', label: 'Polarization', format: (v) => v.toFixed(2) },
+  { key: 'angular_momentum', label: 'Rotation', format: (v) => v.toFixed(2) },
+  {
+    key: 'nearest_neighbor_distance',
+    label: 'Nearest Neighbor',
+    format: (v) => `${v.toFixed(1)} px`,
+  },
+  { key: 'cluster_count', label: 'Clusters', format: (v) => String(v) },
+];
+
+// Choices for how many steps apart samples are taken
+const INTERVALS = [1, 5, 10, 30];
+
+// Sparkline size in CSS pixels
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 24;
+
+/**
+ * MetricsPanel - Live sparklines of the flock metrics under the controls,
+ * with CSV export of the full history
+ */
+export class MetricsPanel {
+  /**
+   * Number of most recent samples plotted
+   */
+  static readonly PLOTTED_SAMPLES = 300;
+
+  private log: MetricsLog;
+  private rows: MetricRow[] = [];
+
+  // Sample last drawn, so unchanged sparklines aren't redrawn every frame
+  private drawnSample: MetricsSample | null = null;
+
+  constructor(log: MetricsLog) {
+    this.log = log;
+
+    const container = document.getElementById('metrics-panel');
+    if (container) {
+      this.build(container);
+    }
+  }
+
+  /**
+   * Redraw the sparklines if a new sample arrived (call once per frame)
+   */
+  update(): void {
+    const latest = this.log.latest;
+    if (latest === this.drawnSample) return;
+    this.drawnSample = latest;
+
+    const samples = this.log.samples.slice(-MetricsPanel.PLOTTED_SAMPLES);
+    for (const row of this.rows) {
+      const display = METRIC_DISPLAY.find((d) => d.key === row.key)!;
+      row.value.textContent = latest ? display.format(latest[row.key]) : '–';
+      drawSparkline(
+        row.canvas,
+        samples.map((sample) => sample[row.key])
+      );
+    }
+  }
+
+  /**
+   * Create the title, one row per metric and the buttons
+   */
+  private build(container: HTMLElement): void {
+    const title = document.createElement('h3');
+    title.className = 'metrics-title';
+    title.textContent = 'Flock Metrics';
+    container.appendChild(title);
+    container.appendChild(this.samplingRow());
+
+    const ratio = window.devicePixelRatio || 1;
+    for (const display of METRIC_DISPLAY) {
+      const row = document.createElement('div');
+      row.className = 'metrics-row';
+
+      const label = document.createElement('span');
+      label.className = 'metrics-label';
+      label.textContent = display.label;
+
+      const value = document.createElement('span');
+      value.className = 'metrics-value';
+      value.textContent = '–';
+
+      // Back the canvas with device pixels so lines stay crisp
+      const canvas = document.createElement('canvas');
+      canvas.className = 'metrics-sparkline';
+      canvas.width = SPARKLINE_WIDTH * ratio;
+      canvas.height = SPARKLINE_HEIGHT * ratio;
+      canvas.style.width = `${SPARKLINE_WIDTH}px`;
+      canvas.style.height = `${SPARKLINE_HEIGHT}px`;
+
+      row.append(label, value, canvas);
+      container.appendChild(row);
+      this.rows.push({ key: display.key, value, canvas });
+    }
+
+    const buttons = document.createElement('div');
+    buttons.className = 'metrics-buttons';
+    buttons.append(
+      this.button('Export CSV', () =>
+        downloadText('boids-metrics.csv', this.log.toCSV(), 'text/csv')
+      ),
+      this.button('Clear', () => this.log.clear())
+    );
+    container.appendChild(buttons);
+  }
+
+  /**
+   * Create the row that turns measuring on or off and sets how often it
+   * samples (measuring is the costliest part of a step for big flocks)
+   */
+  private samplingRow(): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'metrics-row';
+
+    const label = document.createElement('label');
+    label.className = 'metrics-label';
+    const enabled = document.createElement('input');
+    enabled.type = 'checkbox';
+    enabled.checked = this.log.enabled;
+    enabled.addEventListener('change', () => {
+      this.log.enabled = enabled.checked;
+    });
+    label.append(enabled, ' Measure every');
+
+    const interval = document.createElement('select');
+    interval.className = 'metrics-select';
+    for (const steps of INTERVALS) {
+      const option = document.createElement('option');
+      option.value = String(steps);
+      option.textContent = steps === 1 ? 'step' : `${steps} steps`;
+      interval.appendChild(option);
+    }
+    interval.value = String(this.log.interval);
+    interval.addEventListener('change', () => {
+      this.log.interval = Number(interval.value);
+    });
+
+    row.append(label, interval);
+    return row;
+  }
+
+  /**
+   * Create a panel button
+   */
+  private button(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'metrics-button';
+    button.textContent = text;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+}
+
+/**
+ * Plot values left to right, scaled to fill the canvas height
+ */
+function drawSparkline(canvas: HTMLCanvasElement, values: number[]): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (values.length < 2) return;
+
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (max - min < 1e-6) {
+    // Flat line: center it
+    min -= 1;
+    max += 1;
+  }
+
+  const pad = 2 * (window.devicePixelRatio || 1);
+  const height = canvas.height - pad * 2;
+  const stepX = canvas.width / (MetricsPanel.PLOTTED_SAMPLES - 1);
+  const offsetX = canvas.width - stepX * (values.length - 1);
+
+  ctx.beginPath();
+  values.forEach((value, i) => {
+    const x = offsetX + i * stepX;
+    const y = pad + height - ((value - min) / (max - min)) * height;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.strokeStyle = '#4a9eff';
+  ctx.lineWidth = window.devicePixelRatio || 1;
+  ctx.stroke();
+}
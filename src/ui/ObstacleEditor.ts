@@ -0,0 +1,179 @@
+import { Simulation } from '../boids/Simulation';
+import { Obstacle } from '../boids/Obstacle';
+import { Vec2 } from '../math/Vec2';
+import { Camera } from '../renderer/Camera';
+import { toCanvasCoords } from './canvasCoords';
+
+/**
+ * Which obstacle the mouse places (or 'erase' to delete on click)
+ */
+export type ObstacleTool = 'none' | 'circle' | 'rect' | 'wall' | 'erase';
+
+/**
+ * ObstacleEditor - Places and deletes obstacles with the mouse or touch
+ * - Circle: drag from the center out to the radius (tap for a default size)
+ * - Rectangle: drag from one corner to the opposite one
+ * - Wall: drag to draw a polyline
+ * - Erase (or right-click with any tool): delete the obstacle under the pointer
+ * While dragging, `draft` holds the obstacle being drawn so it can be previewed.
+ */
+export class ObstacleEditor {
+  tool: ObstacleTool = 'none';
+  draft: Obstacle | null = null;
+
+  // Size used when tapping without dragging
+  private static readonly DEFAULT_SIZE = 30;
+  // Minimum spacing between wall vertices while dragging
+  private static readonly WALL_SPACING = 15;
+  // How close (in pixels) a click must be to pick an obstacle
+  private static readonly PICK_TOLERANCE = 6;
+
+  private canvas: HTMLCanvasElement;
+  private simulation: Simulation;
+  private camera: Camera;
+  private start: Vec2 | null = null;
+
+  constructor(canvas: HTMLCanvasElement, simulation: Simulation, camera: Camera) {
+    this.canvas = canvas;
+    this.simulation = simulation;
+    this.camera = camera;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Remove every obstacle
+   */
+  clear(): void {
+    this.simulation.obstacles = [];
+  }
+
+  /**
+   * Set up pointer event listeners on the canvas
+   */
+  private setupEventListeners(): void {
+    this.canvas.addEventListener('pointerdown', (e: PointerEvent) => {
+      const point = this.toCanvas(e);
+
+      // Right-click deletes with any tool
+      if (e.button === 2 || this.tool === 'erase') {
+        this.erase(point);
+        return;
+      }
+
+      if (this.tool === 'none') return;
+
+      this.start = point;
+      this.draft = this.buildDraft(point, point);
+      this.canvas.setPointerCapture?.(e.pointerId);
+    });
+
+    this.canvas.addEventListener('pointermove', (e: PointerEvent) => {
+      if (!this.start || !this.draft) return;
+
+      const point = this.toCanvas(e);
+      if (this.draft.kind === 'polyline') {
+        const last = this.draft.points[this.draft.points.length - 1];
+        if (Vec2.dist(point, new Vec2(last.x, last.y)) >= ObstacleEditor.WALL_SPACING) {
+          this.draft.points.push({ x: point.x, y: point.y });
+        }
+      } else {
+        this.draft = this.buildDraft(this.start, point);
+      }
+    });
+
+    const finish = (e: PointerEvent) => {
+      if (!this.start || !this.draft) return;
+
+      const point = this.toCanvas(e);
+      if (this.draft.kind === 'polyline') {
+        this.draft.points.push({ x: point.x, y: point.y });
+      } else {
+        this.draft = this.buildDraft(this.start, point);
+      }
+
+      if (this.isUsable(this.draft)) {
+        this.simulation.addObstacle(this.draft);
+      }
+
+      this.start = null;
+      this.draft = null;
+    };
+    this.canvas.addEventListener('pointerup', finish);
+    this.canvas.addEventListener('pointercancel', () => {
+      this.start = null;
+      this.draft = null;
+    });
+
+    // Keep the browser menu out of the way of right-click deletion
+    this.canvas.addEventListener('contextmenu', (e: Event) => e.preventDefault());
+  }
+
+  /**
+   * Build the obstacle for the current tool from a drag between two points
+   */
+  private buildDraft(from: Vec2, to: Vec2): Obstacle {
+    const size = ObstacleEditor.DEFAULT_SIZE;
+    const dragged = Vec2.dist(from, to) > 2;
+
+    switch (this.tool) {
+      case 'rect':
+        if (!dragged) {
+          return {
+            kind: 'rect',
+            x: from.x - size,
+            y: from.y - size,
+            width: size * 2,
+            height: size * 2,
+          };
+        }
+        return {
+          kind: 'rect',
+          x: Math.min(from.x, to.x),
+          y: Math.min(from.y, to.y),
+          width: Math.abs(to.x - from.x),
+          height: Math.abs(to.y - from.y),
+        };
+      case 'wall':
+        return { kind: 'polyline', points: [{ x: from.x, y: from.y }] };
+      default:
+        return {
+          kind: 'circle',
+          x: from.x,
+          y: from.y,
+          radius: dragged ? Vec2.dist(from, to) : size,
+        };
+    }
+  }
+
+  /**
+   * Reject degenerate shapes (a wall needs at least one real segment)
+   */
+  private isUsable(obstacle: Obstacle): boolean {
+    if (obstacle.kind === 'polyline') {
+      const first = new Vec2(obstacle.points[0].x, obstacle.points[0].y);
+      return obstacle.points.some((point) => Vec2.dist(first, new Vec2(point.x, point.y)) > 2);
+    }
+    if (obstacle.kind === 'rect') {
+      return obstacle.width > 2 && obstacle.height > 2;
+    }
+    return obstacle.radius > 2;
+  }
+
+  /**
+   * Delete the obstacle under a point, if any
+   */
+  private erase(point: Vec2): void {
+    const obstacle = this.simulation.obstacleAt(point, ObstacleEditor.PICK_TOLERANCE);
+    if (obstacle) {
+      this.simulation.removeObstacle(obstacle);
+    }
+  }
+
+  /**
+   * Convert an event's client position to simulation coordinates
+   */
+  private toCanvas(e: PointerEvent): Vec2 {
+    return toCanvasCoords(this.canvas, e, this.camera);
+  }
+}
@@ -0,0 +1,58 @@
+import { Simulation } from '../boids/Simulation';
+import { Vec2 } from '../math/Vec2';
+import { Camera } from '../renderer/Camera';
+import { toCanvasCoords } from './canvasCoords';
+
+/**
+ * PointerInput - Tracks the mouse or a touch over the canvas
+ * Keeps `simulation.pointer` in simulation coordinates while the mouse hovers
+ * over the canvas or a finger is down on it, and clears it otherwise.
+ * Uses pointer events, so mouse, pen and touch share one code path.
+ */
+export class PointerInput {
+  private canvas: HTMLCanvasElement;
+  private simulation: Simulation;
+  private camera: Camera;
+
+  constructor(canvas: HTMLCanvasElement, simulation: Simulation, camera: Camera) {
+    this.canvas = canvas;
+    this.simulation = simulation;
+    this.camera = camera;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Set up pointer event listeners on the canvas
+   */
+  private setupEventListeners(): void {
+    // Mouse hovers count; touch only moves while a finger is down
+    this.canvas.addEventListener('pointermove', (e: PointerEvent) => {
+      this.simulation.pointer = this.toCanvas(e);
+    });
+
+    this.canvas.addEventListener('pointerdown', (e: PointerEvent) => {
+      this.simulation.pointer = this.toCanvas(e);
+    });
+
+    // Lifting a finger ends a touch interaction; the mouse stays active
+    const release = (e: PointerEvent) => {
+      if (e.pointerType !== 'mouse') {
+        this.simulation.pointer = null;
+      }
+    };
+    this.canvas.addEventListener('pointerup', release);
+    this.canvas.addEventListener('pointercancel', release);
+
+    this.canvas.addEventListener('pointerleave', () => {
+      this.simulation.pointer = null;
+    });
+  }
+
+  /**
+   * Convert an event's client position to simulation coordinates
+   */
+  private toCanvas(e: PointerEvent): Vec2 {
+    return toCanvasCoords(this.canvas, e, this.camera);
+  }
+}
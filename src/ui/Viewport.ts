@@ -0,0 +1,98 @@
+import { ResizeMode, Simulation } from '../boids/Simulation';
+import { Camera } from '../renderer/Camera';
+
+/**
+ * Viewport - Keeps the canvas the size of its container
+ * Each frame it measures the container and the device pixel ratio and
+ * passes them to the camera. With `fit_world` on, the world is resized to
+ * match whenever the container changes; otherwise the world keeps its own
+ * size and the camera scales it to fit.
+ */
+export class Viewport {
+  // How boids follow a change of world size
+  resize_mode: ResizeMode = 'remap';
+
+  // Called after the world is resized, e.g. to refresh the controls
+  onResize: (() => void) | null = null;
+
+  private container: HTMLElement;
+  private simulation: Simulation;
+  private camera: Camera;
+  private fitWorld: boolean;
+
+  constructor(container: HTMLElement, simulation: Simulation, camera: Camera, fitWorld: boolean) {
+    this.container = container;
+    this.simulation = simulation;
+    this.camera = camera;
+    this.fitWorld = fitWorld;
+  }
+
+  /**
+   * Does the world follow the canvas size? Turning it on resizes the world
+   * right away.
+   */
+  get fit_world(): boolean {
+    return this.fitWorld;
+  }
+
+  set fit_world(enabled: boolean) {
+    this.fitWorld = enabled;
+    if (enabled) this.fitToScreen();
+  }
+
+  /**
+   * World width, editable; setting it stops the world following the canvas
+   */
+  get world_width(): number {
+    return this.simulation.width;
+  }
+
+  set world_width(width: number) {
+    this.fitWorld = false;
+    this.resizeWorld(width, this.simulation.height);
+  }
+
+  /**
+   * World height, editable; setting it stops the world following the canvas
+   */
+  get world_height(): number {
+    return this.simulation.height;
+  }
+
+  set world_height(height: number) {
+    this.fitWorld = false;
+    this.resizeWorld(this.simulation.width, height);
+  }
+
+  /**
+   * Measure the container (call once per frame, before drawing)
+   */
+  update(): void {
+    const width = Math.floor(this.container.clientWidth);
+    const height = Math.floor(this.container.clientHeight);
+    const density = window.devicePixelRatio || 1;
+    const camera = this.camera;
+    if (
+      width === camera.screen_width &&
+      height === camera.screen_height &&
+      density === camera.pixel_density
+    ) {
+      return;
+    }
+
+    camera.setScreen(width, height, density);
+    if (this.fitWorld) this.fitToScreen();
+  }
+
+  private fitToScreen(): void {
+    this.resizeWorld(this.camera.screen_width, this.camera.screen_height);
+  }
+
+  private resizeWorld(width: number, height: number): void {
+    const simulation = this.simulation;
+    if (width === simulation.width && height === simulation.height) return;
+
+    simulation.resize(Math.round(width), Math.round(height), this.resize_mode);
+    this.onResize?.();
+  }
+}
@@ -24,9 +24,67 @@ export function getAboutContent(): string {
       <li>Higher alignment → coordinated movement</li>
       <li>Higher cohesion → tighter formations</li>
     </ul>
+    <p>
+      Turn on Mouse Interaction to make the cursor (or your finger) a goal the
+      flock seeks or a predator it flees.
+    </p>
+    <p>
+      Add Predators to watch the flock scatter. Predators chase the nearest boid or the
+      densest cluster; turn on Catching to let them remove the boids they reach.
+    </p>
+    <p>
+      Pick an Obstacles tool to drag out circles, rectangles or walls on the canvas;
+      use Erase or right-click to remove them.
+    </p>
     <p>
       Change the perception radius to control how far boids can "see" their neighbors,
-      and adjust max speed to control overall velocity.
+      the separation radius to set how close is too close, and the view angle to give
+      them a blind spot behind.
+    </p>
+    <p>
+      Switch Neighbors to Topological to have each boid follow its k nearest flockmates
+      at any distance, as starlings do (about 7), or Hybrid for the k nearest within
+      the radii.
+    </p>
+    <p>
+      Under Species, set each species' population, rule weights, max speed, color and
+      size, and choose which rules it applies to every other species. Add Species
+      creates a new one.
+    </p>
+
+    <p>
+      Flock Metrics under the controls plot how aligned, rotating, spread out and
+      split up the flock is; Export CSV saves the history with the parameters.
+    </p>
+    <p>
+      For very large flocks, turn on Run in Worker under Time to step the
+      simulation off the main thread.
+    </p>
+    <p>
+      Record & Replay captures a run and plays it back in place of the live
+      flock; drag the Step slider to scrub forward and back.
+    </p>
+    <p>
+      Appearance colors boids by speed, heading or crowding instead of species,
+      and adds motion trails that show the paths they took.
+    </p>
+    <p>
+      Switch to 3D (in the World folder) flies the same rules in a box you can
+      orbit around by dragging.
+    </p>
+    <p>
+      The world fills the canvas and resizes with the window; the World folder
+      can fix its size instead, and the view scales it to fit.
+    </p>
+    <p>
+      Scroll to zoom and drag to pan. Click a boid to see its perception radius
+      and the three rule forces acting on it, and Follow Selected to ride along.
+      The Debug folder shows the same for the whole flock, plus neighbor links,
+      the spatial grid and frame timings.
+    </p>
+    <p>
+      Export saves PNG snapshots, WebM videos or numbered PNG frames of the
+      canvas, optionally at a fixed timestep for smooth playback.
     </p>
 
     <h3>Try These</h3>
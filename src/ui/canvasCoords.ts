@@ -0,0 +1,32 @@
+import { Vec2 } from '../math/Vec2';
+import { Camera } from '../renderer/Camera';
+
+/**
+ * Convert a pointer event's client position to simulation coordinates
+ * The canvas is stretched by CSS to the camera's screen size, then the
+ * camera maps screen to world.
+ */
+export function toCanvasCoords(
+  canvas: HTMLCanvasElement,
+  e: { clientX: number; clientY: number },
+  camera: Camera
+): Vec2 {
+  const screen = toScreenCoords(canvas, e, camera);
+  return camera.toWorld(screen.x, screen.y);
+}
+
+/**
+ * Convert a pointer event's client position to screen coordinates (CSS
+ * pixels of the canvas at the camera's screen size)
+ */
+export function toScreenCoords(
+  canvas: HTMLCanvasElement,
+  e: { clientX: number; clientY: number },
+  camera: Camera
+): Vec2 {
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = rect.width > 0 ? camera.screen_width / rect.width : 1;
+  const scaleY = rect.height > 0 ? camera.screen_height / rect.height : 1;
+
+  return new Vec2((e.clientX - rect.left) * scaleX, (e.clientY - rect.top) * scaleY);
+}
@@ -0,0 +1,41 @@
+/**
+ * Offer text to the user as a file download
+ */
+export function downloadText(
+  filename: string,
+  text: string,
+  type: string = 'application/json'
+): void {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+/**
+ * Offer binary data (an image, video or archive) as a file download
+ */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Ask the user to pick a file and resolve with its text
+ * (never resolves if the picker is dismissed)
+ */
+export function pickTextFile(accept: string = '.json,application/json'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (file) {
+        file.text().then(resolve, reject);
+      }
+    });
+    input.click();
+  });
+}
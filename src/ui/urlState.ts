@@ -0,0 +1,167 @@
+import { Simulation } from '../boids/Simulation';
+import { SimulationParams, getParams, validateSpecies } from '../boids/SimulationState';
+import { InteractionRule, Species } from '../boids/Species';
+import { decodeParams, encodeParams } from '../boids/presets';
+import { RENDERER_KINDS, RendererKind } from '../renderer/Renderer';
+
+/**
+ * Which simulation the page runs: the full 2D one, or the 3D flock
+ */
+export type SimulationMode = '2d' | '3d';
+
+/**
+ * The species of a shared run, their interactions and how many boids of
+ * each to spawn
+ */
+export interface SpeciesSetup {
+  species: Species[];
+  interactions: InteractionRule[][];
+  counts: number[];
+}
+
+/**
+ * Configuration carried in the page URL
+ */
+export interface UrlConfig {
+  params: Partial<SimulationParams>;
+  boid_count?: number;
+  predator_count?: number;
+  // Species other than the default single flock (boid_count is then unused)
+  species?: SpeciesSetup;
+  renderer?: RendererKind;
+  mode?: SimulationMode;
+  // Fixed world size; without it the world follows the canvas
+  world_size?: { width: number; height: number };
+}
+
+// Largest boid and predator counts accepted from a link
+const MAX_URL_BOIDS = 2000;
+const MAX_URL_PREDATORS = 10;
+
+// Range of world sides accepted from a link
+const MIN_URL_SIZE = 100;
+const MAX_URL_SIZE = 10000;
+
+// Startup options kept in the link as they are when it is rewritten
+const STARTUP_KEYS = ['renderer', 'size', 'mode'];
+
+/**
+ * Read the parameters, boid and predator counts, species (`species=` JSON),
+ * renderer, world size (`size=WxH`) and mode (`mode=3d`) from a query
+ * string like `window.location.search`
+ */
+export function readUrlConfig(search: string): UrlConfig {
+  const config: UrlConfig = { params: decodeParams(search) };
+  const query = new URLSearchParams(search);
+
+  // An empty flock (`boids=0`) is a valid configuration too
+  const boids = query.get('boids');
+  const count = Number(boids);
+  if (boids?.trim() && Number.isInteger(count) && count >= 0 && count <= MAX_URL_BOIDS) {
+    config.boid_count = count;
+  }
+
+  const predators = Number(query.get('predators'));
+  if (Number.isInteger(predators) && predators > 0 && predators <= MAX_URL_PREDATORS) {
+    config.predator_count = predators;
+  }
+
+  const species = decodeSpecies(query.get('species'));
+  if (species) {
+    config.species = species;
+  }
+
+  const renderer = RENDERER_KINDS.find((kind) => kind === query.get('renderer'));
+  if (renderer) {
+    config.renderer = renderer;
+  }
+
+  if (query.get('mode') === '3d') {
+    config.mode = '3d';
+  }
+
+  const size = /^(\d+)x(\d+)$/.exec(query.get('size') ?? '');
+  if (size) {
+    const [width, height] = [Number(size[1]), Number(size[2])];
+    const inRange = (side: number) => side >= MIN_URL_SIZE && side <= MAX_URL_SIZE;
+    if (inRange(width) && inRange(height)) {
+      config.world_size = { width, height };
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Query string (with the leading "?") describing the current configuration
+ * (predators and species only when there are any beyond the defaults)
+ */
+export function encodeUrlConfig(simulation: Simulation): string {
+  let search = `?${encodeParams(getParams(simulation))}&boids=${simulation.getCount()}`;
+
+  if (simulation.predators.length > 0) {
+    search += `&predators=${simulation.predators.length}`;
+  }
+
+  const defaults = new Simulation(1, 1);
+  const setup = { species: simulation.species, interactions: simulation.interactions };
+  if (
+    JSON.stringify(setup) !==
+    JSON.stringify({ species: defaults.species, interactions: defaults.interactions })
+  ) {
+    const counts = simulation.species.map((_, index) => simulation.countSpecies(index));
+    search += `&species=${encodeURIComponent(JSON.stringify({ ...setup, counts }))}`;
+  }
+
+  return search;
+}
+
+/**
+ * Reload the page in another mode (starting from defaults, since the modes
+ * don't share their settings)
+ */
+export function switchMode(mode: SimulationMode): void {
+  window.location.search = mode === '3d' ? '?mode=3d' : '';
+}
+
+/**
+ * Put the current configuration in the address bar without adding a
+ * history entry, so the page link reproduces it (startup options such as
+ * the renderer are carried over)
+ */
+export function writeUrlConfig(simulation: Simulation): void {
+  const current = new URLSearchParams(window.location.search);
+  let search = encodeUrlConfig(simulation);
+  for (const key of STARTUP_KEYS) {
+    const value = current.get(key);
+    if (value !== null) {
+      search += `&${key}=${encodeURIComponent(value)}`;
+    }
+  }
+  window.history.replaceState(null, '', search);
+}
+
+/**
+ * Parse the `species` value of a link, or null if it is missing,
+ * malformed or outside the Species sliders' ranges
+ */
+function decodeSpecies(value: string | null): SpeciesSetup | null {
+  if (value === null) return null;
+
+  try {
+    const data = JSON.parse(value);
+    const { species, interactions } = validateSpecies(data?.species, data?.interactions);
+    const counts: unknown = data.counts;
+    if (
+      !Array.isArray(counts) ||
+      counts.length !== species.length ||
+      !counts.every((count) => Number.isInteger(count) && count >= 0) ||
+      counts.reduce((total, count) => total + count, 0) > MAX_URL_BOIDS
+    ) {
+      return null;
+    }
+    return { species, interactions, counts };
+  } catch {
+    return null;
+  }
+}
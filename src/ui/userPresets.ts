@@ -0,0 +1,30 @@
+import { Preset, decodeParams, encodeParams } from '../boids/presets';
+
+// localStorage key for presets saved by the user
+const PRESETS_KEY = 'boids.userPresets';
+
+/**
+ * Presets the user saved in this browser (empty if none or unreadable)
+ */
+export function loadUserPresets(): Preset[] {
+  try {
+    const data = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    if (!Array.isArray(data)) return [];
+    // Round-trip the parameters through the URL codec to drop anything invalid
+    return data
+      .filter((preset) => typeof preset?.name === 'string' && typeof preset.params === 'object')
+      .map((preset) => ({
+        name: preset.name,
+        params: decodeParams(encodeParams(preset.params ?? {})),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the user's saved presets
+ */
+export function saveUserPresets(presets: Preset[]): void {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
@@ -0,0 +1,135 @@
+import { Boid } from '../boids/Boid';
+import { Simulation } from '../boids/Simulation';
+import { setParams } from '../boids/SimulationState';
+import { Vec2 } from '../math/Vec2';
+import { FrameBuffers, FromWorker, ToWorker, transferablesOf } from './protocol';
+
+/**
+ * SimulationHost - The worker side: owns the real Simulation, applies
+ * messages from the page and posts a frame after every update
+ * Kept free of worker globals so it can be driven directly in tests.
+ */
+export class SimulationHost {
+  readonly simulation = new Simulation(1, 1);
+
+  private post: (message: FromWorker, transfer: ArrayBuffer[]) => void;
+  private revision: number = 0;
+
+  // Buffers handed back by the page, refilled for the next frame
+  private spare: FrameBuffers | null = null;
+
+  constructor(post: (message: FromWorker, transfer: ArrayBuffer[]) => void) {
+    this.post = post;
+  }
+
+  /**
+   * Apply one message from the page (errors are posted back, not thrown)
+   */
+  handle(message: ToWorker): void {
+    try {
+      this.apply(message);
+    } catch (error) {
+      this.post({ type: 'error', message: (error as Error).message }, []);
+    }
+  }
+
+  private apply(message: ToWorker): void {
+    const simulation = this.simulation;
+
+    switch (message.type) {
+      case 'state':
+        simulation.restore(message.state);
+        simulation.step_count = message.step_count;
+        simulation.pointer = toVec2(message.pointer);
+        this.revision = message.revision;
+        break;
+      case 'params':
+        setParams(simulation, message.params);
+        break;
+      case 'pointer':
+        simulation.pointer = toVec2(message.pointer);
+        break;
+      case 'update': {
+        if (message.buffers) this.spare = message.buffers;
+        const start = performance.now();
+        simulation.update(message.dt);
+        this.postFrame(performance.now() - start);
+        break;
+      }
+      case 'step': {
+        if (message.buffers) this.spare = message.buffers;
+        const start = performance.now();
+        simulation.singleStep();
+        this.postFrame(performance.now() - start);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Post the agents and counters as a frame, refilling the spare buffers
+   */
+  private postFrame(updateMs: number): void {
+    const simulation = this.simulation;
+    const buffers = packFrame(simulation, this.spare);
+    this.spare = null;
+    this.post(
+      {
+        type: 'frame',
+        revision: this.revision,
+        step_count: simulation.step_count,
+        catches: simulation.catches,
+        update_ms: updateMs,
+        alpha: simulation.alpha,
+        buffers,
+      },
+      transferablesOf(buffers)
+    );
+  }
+}
+
+/**
+ * Copy every agent's position and velocity into buffers, reusing `spare`'s
+ * arrays where they are the right size
+ */
+function packFrame(simulation: Simulation, spare: FrameBuffers | null): FrameBuffers {
+  const boids = simulation.boids;
+  const predators = simulation.predators;
+
+  const buffers: FrameBuffers = {
+    positions: reuse(spare?.positions, boids.length * 2, Float32Array),
+    velocities: reuse(spare?.velocities, boids.length * 2, Float32Array),
+    species: reuse(spare?.species, boids.length, Uint8Array),
+    predator_positions: reuse(spare?.predator_positions, predators.length * 2, Float32Array),
+    predator_velocities: reuse(spare?.predator_velocities, predators.length * 2, Float32Array),
+  };
+
+  boids.forEach((boid, i) => {
+    writeAgent(boid, i, buffers.positions, buffers.velocities);
+    buffers.species[i] = boid.species;
+  });
+  predators.forEach((predator, i) => {
+    writeAgent(predator, i, buffers.predator_positions, buffers.predator_velocities);
+  });
+
+  return buffers;
+}
+
+function reuse<T extends Float32Array | Uint8Array>(
+  array: T | undefined,
+  length: number,
+  type: { new (length: number): T }
+): T {
+  return array?.length === length ? array : new type(length);
+}
+
+function writeAgent(agent: Boid, i: number, positions: Float32Array, velocities: Float32Array) {
+  positions[i * 2] = agent.position.x;
+  positions[i * 2 + 1] = agent.position.y;
+  velocities[i * 2] = agent.velocity.x;
+  velocities[i * 2 + 1] = agent.velocity.y;
+}
+
+function toVec2(point: { x: number; y: number } | null): Vec2 | null {
+  return point ? new Vec2(point.x, point.y) : null;
+}
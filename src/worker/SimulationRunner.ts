@@ -0,0 +1,96 @@
+import { Simulation } from '../boids/Simulation';
+import { WorkerSimulation } from './WorkerSimulation';
+
+/**
+ * SimulationRunner - Advances the simulation each frame, either on the
+ * main thread or in a Web Worker
+ * Falls back to the main thread when a worker can't be created or fails,
+ * explaining why in `status`.
+ */
+export class SimulationRunner {
+  readonly simulation: Simulation;
+
+  // Where the simulation currently runs, and why if not where asked
+  status: string = 'Main thread';
+
+  // Milliseconds the last update spent stepping (in the worker, its last
+  // finished update)
+  update_ms: number = 0;
+
+  // Called after each frame computed by the worker is applied
+  onFrame: (() => void) | null = null;
+
+  private createWorker: () => Worker;
+  private remote: WorkerSimulation | null = null;
+
+  constructor(simulation: Simulation, createWorker: () => Worker) {
+    this.simulation = simulation;
+    this.createWorker = createWorker;
+  }
+
+  /**
+   * Is the simulation running in a worker? Setting it starts or stops one.
+   */
+  get threaded(): boolean {
+    return this.remote !== null;
+  }
+
+  set threaded(enabled: boolean) {
+    if (enabled === this.threaded) return;
+    if (enabled) {
+      this.start();
+    } else {
+      this.stop();
+    }
+  }
+
+  /**
+   * Advance by `dt` seconds of real time
+   */
+  update(dt: number): void {
+    if (this.remote) {
+      this.remote.update(dt);
+      this.update_ms = this.remote.update_ms;
+    } else {
+      const start = performance.now();
+      this.simulation.update(dt);
+      this.update_ms = performance.now() - start;
+    }
+  }
+
+  /**
+   * Run exactly one fixed step, wherever the simulation runs
+   */
+  singleStep(): void {
+    if (this.remote) {
+      this.remote.singleStep();
+    } else {
+      this.simulation.singleStep();
+    }
+  }
+
+  private start(): void {
+    let worker: Worker;
+    try {
+      worker = this.createWorker();
+    } catch (error) {
+      this.status = `Worker unavailable (${(error as Error).message}), using main thread`;
+      return;
+    }
+
+    const remote = new WorkerSimulation(this.simulation, worker);
+    remote.onFrame = () => this.onFrame?.();
+    remote.onError = (message) => {
+      this.remote = null;
+      this.status = `Worker failed (${message}), using main thread`;
+    };
+    this.remote = remote;
+    this.status = 'Web Worker';
+  }
+
+  private stop(): void {
+    this.remote?.terminate();
+    this.remote = null;
+    this.status = 'Main thread';
+  }
+}
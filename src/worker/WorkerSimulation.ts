@@ -0,0 +1,220 @@
+import { Boid } from '../boids/Boid';
+import { Simulation } from '../boids/Simulation';
+import { SimulationParams, getParams, stateSignature } from '../boids/SimulationState';
+import { FrameBuffers, FromWorker, ToWorker, transferablesOf } from './protocol';
+
+/**
+ * WorkerSimulation - Runs a Simulation in a Web Worker
+ * The page keeps `simulation` as a mirror: the control panel and renderer
+ * use it as usual, frames from the worker overwrite its agents, and edits
+ * made to it are forwarded (parameters as diffs, anything else as the
+ * whole state). Only one update is in flight at a time; real time that
+ * passes meanwhile is sent with the next one.
+ */
+export class WorkerSimulation {
+  readonly simulation: Simulation;
+
+  // Milliseconds the worker spent on its last update
+  update_ms: number = 0;
+
+  // Called after each frame is applied to the mirror
+  onFrame: (() => void) | null = null;
+  // Called once if the worker fails; it is unusable afterwards
+  onError: ((message: string) => void) | null = null;
+
+  private worker: Worker;
+  private revision: number = 0;
+  private waiting: boolean = false;
+  private pending_dt: number = 0;
+
+  // Buffers from the last frame, handed back with the next update
+  private buffers: FrameBuffers | null = null;
+
+  // What the worker has been told, to detect edits to the mirror
+  private params: SimulationParams;
+  private pointer: { x: number; y: number } | null = null;
+  private signature: string = '';
+
+  constructor(simulation: Simulation, worker: Worker) {
+    this.simulation = simulation;
+    this.worker = worker;
+    this.params = getParams(simulation);
+
+    worker.onmessage = (event: MessageEvent<FromWorker>) => this.receive(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault?.();
+      this.fail(event.message || 'Worker error');
+    };
+
+    this.sendState();
+  }
+
+  /**
+   * Forward any edits, then ask the worker to advance by `dt` seconds
+   * (or add it to the next request if one is still running). Time passed
+   * while paused is dropped, as Simulation.update does.
+   */
+  update(dt: number): void {
+    this.sync();
+    if (this.simulation.paused) return;
+
+    this.pending_dt += dt;
+    if (this.waiting) return;
+
+    const message: ToWorker = { type: 'update', dt: this.pending_dt, buffers: this.buffers };
+    this.pending_dt = 0;
+    this.request(message);
+  }
+
+  /**
+   * Forward any edits, then ask the worker for exactly one fixed step
+   * (works while paused)
+   */
+  singleStep(): void {
+    this.sync();
+    this.request({ type: 'step', buffers: this.buffers });
+  }
+
+  /**
+   * Stop the worker; the mirror keeps the last frame
+   */
+  terminate(): void {
+    this.worker.onmessage = null;
+    this.worker.onerror = null;
+    this.worker.terminate();
+  }
+
+  /**
+   * Send the whole state if the mirror was edited since the last frame,
+   * otherwise just the parameters and pointer that changed
+   */
+  private sync(): void {
+    if (stateSignature(this.simulation) !== this.signature) {
+      this.sendState();
+      return;
+    }
+
+    const params = getParams(this.simulation);
+    const diff: Partial<SimulationParams> = {};
+    let changed = false;
+    for (const key of Object.keys(params) as (keyof SimulationParams)[]) {
+      if (params[key] !== this.params[key]) {
+        Object.assign(diff, { [key]: params[key] });
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.send({ type: 'params', params: diff });
+      this.params = params;
+    }
+
+    const pointer = pointerOf(this.simulation);
+    if (pointer?.x !== this.pointer?.x || pointer?.y !== this.pointer?.y) {
+      this.send({ type: 'pointer', pointer });
+      this.pointer = pointer;
+    }
+  }
+
+  private sendState(): void {
+    this.revision++;
+    this.params = getParams(this.simulation);
+    this.pointer = pointerOf(this.simulation);
+    this.signature = stateSignature(this.simulation);
+    this.send({
+      type: 'state',
+      revision: this.revision,
+      state: this.simulation.serialize(),
+      step_count: this.simulation.step_count,
+      pointer: this.pointer,
+    });
+  }
+
+  /**
+   * Send a message the worker answers with a frame, handing it the
+   * buffers from the last one
+   */
+  private request(message: ToWorker): void {
+    const transfer = transferablesOf(this.buffers);
+    this.buffers = null;
+    this.waiting = true;
+    this.send(message, transfer);
+  }
+
+  private send(message: ToWorker, transfer: ArrayBuffer[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private receive(message: FromWorker): void {
+    if (message.type === 'error') {
+      this.fail(message.message);
+      return;
+    }
+
+    this.waiting = false;
+    this.buffers = message.buffers;
+
+    // Frames computed before the last state was sent are out of date
+    if (message.revision !== this.revision) return;
+
+    applyFrame(this.simulation, message.buffers);
+    this.simulation.step_count = message.step_count;
+    this.simulation.catches = message.catches;
+    this.simulation.alpha = message.alpha;
+    this.update_ms = message.update_ms;
+    this.signature = stateSignature(this.simulation);
+
+    this.onFrame?.();
+  }
+
+  private fail(message: string): void {
+    this.terminate();
+    this.onError?.(message);
+  }
+}
+
+/**
+ * Copy a frame onto the mirror's agents. Boids the worker removed (caught
+ * by predators) are dropped by rebuilding the flock from the frame.
+ */
+function applyFrame(simulation: Simulation, buffers: FrameBuffers): void {
+  const count = buffers.species.length;
+  if (simulation.boids.length !== count) {
+    simulation.boids = [];
+    for (let i = 0; i < count; i++) {
+      const boid = new Boid(buffers.positions[i * 2], buffers.positions[i * 2 + 1]);
+      boid.species = Math.min(buffers.species[i], simulation.species.length - 1);
+      boid.max_speed = simulation.species[boid.species].max_speed;
+      boid.max_force = simulation.species[boid.species].max_force;
+      simulation.boids.push(boid);
+    }
+  }
+
+  simulation.boids.forEach((boid, i) => {
+    readAgent(boid, i, buffers.positions, buffers.velocities);
+  });
+
+  // Predators are only added or removed from the page, so a mismatch means
+  // the frame predates an edit that is already on its way to the worker
+  if (simulation.predators.length * 2 === buffers.predator_positions.length) {
+    simulation.predators.forEach((predator, i) => {
+      readAgent(predator, i, buffers.predator_positions, buffers.predator_velocities);
+    });
+  }
+}
+
+/**
+ * Set an agent's position and velocity, and its previous position one
+ * step back along the velocity so the renderer can interpolate
+ */
+function readAgent(agent: Boid, i: number, positions: Float32Array, velocities: Float32Array) {
+  agent.position.set(positions[i * 2], positions[i * 2 + 1]);
+  agent.velocity.set(velocities[i * 2], velocities[i * 2 + 1]);
+  agent.previous_position.set(
+    agent.position.x - agent.velocity.x,
+    agent.position.y - agent.velocity.y
+  );
+}
+
+function pointerOf(simulation: Simulation): { x: number; y: number } | null {
+  return simulation.pointer ? { x: simulation.pointer.x, y: simulation.pointer.y } : null;
+}
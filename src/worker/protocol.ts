@@ -0,0 +1,67 @@
+import { SimulationParams, SimulationState } from '../boids/SimulationState';
+
+/**
+ * Agent data posted back from the worker after each update. The arrays are
+ * transferred, not copied, and handed back with the next update so the
+ * worker can refill them.
+ */
+export interface FrameBuffers {
+  positions: Float32Array; // x0, y0, x1, y1, ...
+  velocities: Float32Array; // vx0, vy0, vx1, vy1, ...
+  species: Uint8Array;
+  predator_positions: Float32Array;
+  predator_velocities: Float32Array;
+}
+
+/**
+ * Messages from the page to the worker:
+ * - 'state': replace the whole simulation (after edits that aren't
+ *   parameters) and carry on from its step count; frames from older
+ *   revisions are stale
+ * - 'params': parameters changed in the control panel
+ * - 'pointer': the mouse/touch position moved
+ * - 'update': advance by `dt` seconds of real time and post a frame
+ * - 'step': run exactly one fixed step and post a frame
+ */
+export type ToWorker =
+  | {
+      type: 'state';
+      revision: number;
+      state: SimulationState;
+      step_count: number;
+      pointer: { x: number; y: number } | null;
+    }
+  | { type: 'params'; params: Partial<SimulationParams> }
+  | { type: 'pointer'; pointer: { x: number; y: number } | null }
+  | { type: 'update'; dt: number; buffers: FrameBuffers | null }
+  | { type: 'step'; buffers: FrameBuffers | null };
+
+/**
+ * Messages from the worker to the page
+ */
+export type FromWorker =
+  | {
+      type: 'frame';
+      revision: number;
+      step_count: number;
+      catches: number;
+      update_ms: number; // Time the worker spent in the update
+
+      alpha: number;
+      buffers: FrameBuffers;
+    }
+  | { type: 'error'; message: string };
+
+/**
+ * The arrays to list as transferables when posting `buffers`
+ */
+export function transferablesOf(buffers: FrameBuffers | null): ArrayBuffer[] {
+  if (!buffers) return [];
+  return [
+    buffers.positions.buffer as ArrayBuffer,
+    buffers.velocities.buffer as ArrayBuffer,
+    buffers.species.buffer as ArrayBuffer,
+    buffers.predator_positions.buffer as ArrayBuffer,
+    buffers.predator_velocities.buffer as ArrayBuffer,
+  ];
+}
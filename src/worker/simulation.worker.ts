@@ -0,0 +1,12 @@
+import { SimulationHost } from './SimulationHost';
+import { ToWorker } from './protocol';
+
+/**
+ * Worker entry point: hands every message to a SimulationHost and posts
+ * its frames back with their buffers transferred
+ */
+const host = new SimulationHost((message, transfer) => {
+  self.postMessage(message, { transfer });
+});
+
+self.onmessage = (event: MessageEvent<ToWorker>) => host.handle(event.data);
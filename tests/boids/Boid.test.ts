@@ -1,139 +1,9 @@
 /* eslint-env jest */
 
-/**
- * Mock p5 and p5.Vector before importing Boid
- * This allows us to test Boid's force calculations without a DOM
- */
-jest.mock('p5', () => {
-  /**
-   * MockVector - Simplified p5.Vector for testing
-   * Implements all vector operations needed by Boid
-   */
-  class MockVector {
-    x: number;
-    y: number;
-
-    constructor(x: number = 0, y: number = 0) {
-      this.x = x;
-      this.y = y;
-    }
-
-    /**
-     * Add another vector to this one
-     */
-    add(v: MockVector | { x: number; y: number }): MockVector {
-      this.x += v.x;
-      this.y += v.y;
-      return this;
-    }
-
-    /**
-     * Subtract another vector from this one
-     */
-    sub(v: MockVector | { x: number; y: number }): MockVector {
-      this.x -= v.x;
-      this.y -= v.y;
-      return this;
-    }
-
-    /**
-     * Multiply this vector by a scalar
-     */
-    mult(n: number): MockVector {
-      this.x *= n;
-      this.y *= n;
-      return this;
-    }
-
-    /**
-     * Divide this vector by a scalar
-     */
-    div(n: number): MockVector {
-      if (n !== 0) {
-        this.x /= n;
-        this.y /= n;
-      }
-      return this;
-    }
-
-    /**
-     * Normalize to unit vector (magnitude 1)
-     */
-    normalize(): MockVector {
-      const mag = Math.sqrt(this.x * this.x + this.y * this.y);
-      if (mag > 0) {
-        this.x /= mag;
-        this.y /= mag;
-      }
-      return this;
-    }
-
-    /**
-     * Limit the magnitude of this vector
-     */
-    limit(max: number): MockVector {
-      const mag = Math.sqrt(this.x * this.x + this.y * this.y);
-      if (mag > max) {
-        this.x = (this.x / mag) * max;
-        this.y = (this.y / mag) * max;
-      }
-      return this;
-    }
-
-    /**
-     * Get the heading angle in radians
-     */
-    heading(): number {
-      return Math.atan2(this.y, this.x);
-    }
-
-    /**
-     * Get the magnitude of this vector
-     */
-    mag(): number {
-      return Math.sqrt(this.x * this.x + this.y * this.y);
-    }
-
-    /**
-     * Copy this vector
-     */
-    copy(): MockVector {
-      return new MockVector(this.x, this.y);
-    }
-
-    /**
-     * Static method: distance between two vectors
-     */
-    static dist(v1: MockVector, v2: MockVector): number {
-      const dx = v2.x - v1.x;
-      const dy = v2.y - v1.y;
-      return Math.sqrt(dx * dx + dy * dy);
-    }
-
-    /**
-     * Static method: subtract v2 from v1
-     */
-    static sub(v1: MockVector, v2: MockVector): MockVector {
-      return new MockVector(v1.x - v2.x, v1.y - v2.y);
-    }
-
-    /**
-     * Static method: create a random 2D unit vector
-     */
-    static random2D(): MockVector {
-      const angle = Math.random() * Math.PI * 2;
-      return new MockVector(Math.cos(angle), Math.sin(angle));
-    }
-  }
-
-  return {
-    default: class p5 {},
-    Vector: MockVector,
-  };
-});
-
 import { Boid } from '../../src/boids/Boid';
-import p5 from 'p5';
+import { Vec2 } from '../../src/math/Vec2';
+import { Obstacle } from '../../src/boids/Obstacle';
+import { createInteraction } from '../../src/boids/Species';
 
 describe('Boid', () => {
   describe('Constructor', () => {
@@ -149,6 +19,12 @@ describe('Boid', () => {
       expect(Math.abs(boid.velocity.mag() - 1)).toBeLessThan(0.01);
     });
 
+    it('should initialize velocity from an explicit heading', () => {
+      const boid = new Boid(50, 50, Math.PI / 2);
+      expect(boid.velocity.x).toBeCloseTo(0);
+      expect(boid.velocity.y).toBeCloseTo(1);
+    });
+
     it('should initialize with zero acceleration', () => {
       const boid = new Boid(100, 100);
       expect(boid.acceleration.x).toBe(0);
@@ -169,7 +45,7 @@ describe('Boid', () => {
   describe('applyForce', () => {
     it('should add force to acceleration', () => {
       const boid = new Boid(100, 100);
-      const force = new p5.Vector(1, 1);
+      const force = new Vec2(1, 1);
 
       boid.applyForce(force);
 
@@ -179,8 +55,8 @@ describe('Boid', () => {
 
     it('should accumulate multiple forces', () => {
       const boid = new Boid(100, 100);
-      const force1 = new p5.Vector(0.5, 0.5);
-      const force2 = new p5.Vector(0.3, 0.7);
+      const force1 = new Vec2(0.5, 0.5);
+      const force2 = new Vec2(0.3, 0.7);
 
       boid.applyForce(force1);
       boid.applyForce(force2);
@@ -194,7 +70,7 @@ describe('Boid', () => {
     it('should limit acceleration to max_force', () => {
       const boid = new Boid(100, 100);
       // Apply very large force
-      const largeForce = new p5.Vector(100, 100);
+      const largeForce = new Vec2(100, 100);
       boid.applyForce(largeForce);
 
       boid.update();
@@ -206,7 +82,7 @@ describe('Boid', () => {
 
     it('should update velocity based on acceleration', () => {
       const boid = new Boid(100, 100);
-      const force = new p5.Vector(0.1, 0);
+      const force = new Vec2(0.1, 0);
 
       boid.applyForce(force);
       const oldVelocity = boid.velocity.copy();
@@ -218,7 +94,7 @@ describe('Boid', () => {
 
     it('should limit velocity to max_speed', () => {
       const boid = new Boid(100, 100);
-      boid.velocity = new p5.Vector(100, 100);
+      boid.velocity = new Vec2(100, 100);
 
       boid.update();
 
@@ -228,7 +104,7 @@ describe('Boid', () => {
 
     it('should update position based on velocity', () => {
       const boid = new Boid(100, 100);
-      boid.velocity = new p5.Vector(1, 0);
+      boid.velocity = new Vec2(1, 0);
 
       const oldX = boid.position.x;
       boid.update();
@@ -238,7 +114,7 @@ describe('Boid', () => {
 
     it('should reset acceleration to zero after update', () => {
       const boid = new Boid(100, 100);
-      boid.applyForce(new p5.Vector(1, 1));
+      boid.applyForce(new Vec2(1, 1));
 
       boid.update();
 
@@ -327,10 +203,10 @@ describe('Boid', () => {
 
     it('should steer towards average heading of neighbors', () => {
       const boid = new Boid(100, 100);
-      boid.velocity = new p5.Vector(1, 0); // Moving right
+      boid.velocity = new Vec2(1, 0); // Moving right
 
       const neighbor = new Boid(110, 100);
-      neighbor.velocity = new p5.Vector(0, 1); // Moving down
+      neighbor.velocity = new Vec2(0, 1); // Moving down
 
       const force = boid.alignment([boid, neighbor], 100, 1.0);
 
@@ -351,13 +227,13 @@ describe('Boid', () => {
 
     it('should average velocity of multiple neighbors', () => {
       const boid = new Boid(100, 100);
-      boid.velocity = new p5.Vector(1, 0);
+      boid.velocity = new Vec2(1, 0);
 
       const neighbor1 = new Boid(110, 100);
-      neighbor1.velocity = new p5.Vector(0, 1);
+      neighbor1.velocity = new Vec2(0, 1);
 
       const neighbor2 = new Boid(100, 110);
-      neighbor2.velocity = new p5.Vector(-1, 0);
+      neighbor2.velocity = new Vec2(-1, 0);
 
       const force = boid.alignment([boid, neighbor1, neighbor2], 100, 1.0);
 
@@ -417,6 +293,323 @@ describe('Boid', () => {
     });
   });
 
+  describe('attract', () => {
+    it('should steer towards a target inside the radius', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(0, 0);
+
+      const force = boid.attract(new Vec2(150, 100), 100, 1.0);
+
+      expect(force.x).toBeGreaterThan(0);
+    });
+
+    it('should ignore a target outside the radius', () => {
+      const boid = new Boid(100, 100);
+
+      const force = boid.attract(new Vec2(400, 100), 100, 1.0);
+
+      expect(force.mag()).toBe(0);
+    });
+
+    it('should limit the force to max_force times the weight', () => {
+      const boid = new Boid(100, 100);
+
+      const force = boid.attract(new Vec2(150, 100), 100, 2.0);
+
+      expect(force.mag()).toBeLessThanOrEqual(boid.max_force * 2 + 0.0001);
+    });
+  });
+
+  describe('repel', () => {
+    it('should steer away from a threat inside the radius', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(0, 0);
+
+      const force = boid.repel(new Vec2(150, 100), 100, 1.0);
+
+      expect(force.x).toBeLessThan(0);
+    });
+
+    it('should ignore a threat outside the radius', () => {
+      const boid = new Boid(100, 100);
+
+      const force = boid.repel(new Vec2(400, 100), 100, 1.0);
+
+      expect(force.mag()).toBe(0);
+    });
+
+    it('should oppose attraction to the same target', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(0, 0);
+      const target = new Vec2(130, 140);
+
+      const toward = boid.attract(target, 100, 1.0);
+      const away = boid.repel(target, 100, 1.0);
+
+      expect(away.x).toBeCloseTo(-toward.x);
+      expect(away.y).toBeCloseTo(-toward.y);
+    });
+  });
+
+  describe('avoidObstacles', () => {
+    const circle: Obstacle = { kind: 'circle', x: 150, y: 100, radius: 20 };
+
+    it('should steer away from an obstacle ahead', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(3, 0.1);
+
+      const force = boid.avoidObstacles([circle], 60, 1.0);
+
+      // Pushed back against the direction of travel
+      expect(force.x).toBeLessThan(0);
+      expect(force.mag()).toBeGreaterThan(0);
+    });
+
+    it('should ignore obstacles behind the boid', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(-3, 0);
+
+      const force = boid.avoidObstacles([circle], 60, 1.0);
+
+      expect(force.mag()).toBe(0);
+    });
+
+    it('should ignore obstacles beyond the look-ahead', () => {
+      const boid = new Boid(0, 100);
+      boid.velocity = new Vec2(3, 0);
+
+      const force = boid.avoidObstacles([circle], 60, 1.0);
+
+      expect(force.mag()).toBe(0);
+    });
+
+    it('should steer harder when the obstacle is closer', () => {
+      const near = new Boid(120, 101);
+      near.velocity = new Vec2(3, 0);
+      const far = new Boid(80, 101);
+      far.velocity = new Vec2(3, 0);
+
+      const nearForce = near.avoidObstacles([circle], 60, 1.0);
+      const farForce = far.avoidObstacles([circle], 60, 1.0);
+
+      expect(nearForce.mag()).toBeGreaterThan(farForce.mag());
+    });
+
+    it('should add a force for each obstacle hit', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(3, 0.1);
+      const wall: Obstacle = {
+        kind: 'polyline',
+        points: [
+          { x: 140, y: 0 },
+          { x: 140, y: 200 },
+        ],
+      };
+
+      const single = boid.avoidObstacles([circle], 60, 1.0);
+      const both = boid.avoidObstacles([circle, wall], 60, 1.0);
+
+      expect(both.mag()).toBeGreaterThan(single.mag());
+    });
+
+    it('should return zero force when standing still', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(0, 0);
+
+      expect(boid.avoidObstacles([circle], 60, 1.0).mag()).toBe(0);
+    });
+  });
+
+  describe('gatherNeighbors', () => {
+    it('should count only neighbors within the perception radius', () => {
+      const boid = new Boid(100, 100);
+      const near = new Boid(110, 100);
+      const far = new Boid(400, 400);
+
+      const stats = boid.gatherNeighbors([boid, near, far], 100);
+
+      expect(stats.separation_count).toBe(1);
+      expect(stats.alignment_count).toBe(1);
+      expect(stats.cohesion_count).toBe(1);
+    });
+
+    it('should sum neighbor velocities and positions', () => {
+      const boid = new Boid(100, 100);
+      const neighbor1 = new Boid(110, 100);
+      neighbor1.velocity = new Vec2(1, 0);
+      const neighbor2 = new Boid(100, 120);
+      neighbor2.velocity = new Vec2(0, 2);
+
+      const stats = boid.gatherNeighbors([boid, neighbor1, neighbor2], 100);
+
+      expect(stats.velocity_sum.x).toBeCloseTo(1);
+      expect(stats.velocity_sum.y).toBeCloseTo(2);
+      expect(stats.position_sum.x).toBeCloseTo(210);
+      expect(stats.position_sum.y).toBeCloseTo(220);
+    });
+
+    it('should sum separation vectors pointing away from neighbors', () => {
+      const boid = new Boid(100, 100);
+      const neighbor = new Boid(110, 100); // 10 units to the right
+
+      const stats = boid.gatherNeighbors([boid, neighbor], 100);
+
+      expect(stats.separation.x).toBeCloseTo(-0.1);
+      expect(stats.separation.y).toBeCloseTo(0);
+    });
+
+    it('should build the same forces as the individual rule methods', () => {
+      const boid = new Boid(500, 300);
+      boid.velocity = new Vec2(1, 1);
+      const neighbors = [new Boid(510, 300), new Boid(520, 310), new Boid(500, 320)];
+      const boids = [boid, ...neighbors];
+
+      const stats = boid.gatherNeighbors(boids, 100);
+
+      expect(boid.separationFrom(stats, 1.5)).toEqual(boid.separation(boids, 100, 1.5));
+      expect(boid.alignmentFrom(stats, 1.0)).toEqual(boid.alignment(boids, 100, 1.0));
+      expect(boid.cohesionFrom(stats, 1.0)).toEqual(boid.cohesion(boids, 100, 1.0));
+    });
+
+    it('should apply only the rules allowed for each neighbor species', () => {
+      const boid = new Boid(100, 100);
+      const kin = new Boid(110, 100);
+      kin.velocity = new Vec2(1, 0);
+      const stranger = new Boid(100, 110);
+      stranger.species = 1;
+      stranger.velocity = new Vec2(0, 1);
+
+      // Align and cohere with own kind only, separate from everyone
+      const interactions = [
+        createInteraction(),
+        createInteraction({ alignment: false, cohesion: false }),
+      ];
+      const stats = boid.gatherNeighbors([boid, kin, stranger], 100, interactions);
+
+      expect(stats.separation_count).toBe(2);
+      expect(stats.alignment_count).toBe(1);
+      expect(stats.cohesion_count).toBe(1);
+      expect(stats.velocity_sum).toEqual(new Vec2(1, 0));
+      expect(stats.position_sum).toEqual(new Vec2(110, 100));
+    });
+
+    it('should apply every rule to species missing from the interactions', () => {
+      const boid = new Boid(100, 100);
+      const stranger = new Boid(110, 100);
+      stranger.species = 3;
+
+      const stats = boid.gatherNeighbors([boid, stranger], 100, [createInteraction()]);
+
+      expect(stats.alignment_count).toBe(1);
+    });
+  });
+
+  describe('Field of view', () => {
+    it('should see all around with a full view angle', () => {
+      const boid = new Boid(100, 100, 0);
+
+      expect(boid.inView(new Vec2(50, 100), Math.PI * 2)).toBe(true);
+    });
+
+    it('should see points ahead inside the cone', () => {
+      const boid = new Boid(100, 100, 0);
+
+      expect(boid.inView(new Vec2(150, 100), Math.PI / 2)).toBe(true);
+      expect(boid.inView(new Vec2(150, 140), Math.PI / 2)).toBe(true);
+    });
+
+    it('should not see points behind or outside the cone', () => {
+      const boid = new Boid(100, 100, 0);
+
+      expect(boid.inView(new Vec2(50, 100), (Math.PI * 3) / 2)).toBe(false);
+      expect(boid.inView(new Vec2(150, 200), Math.PI / 2)).toBe(false);
+    });
+
+    it('should follow the velocity heading', () => {
+      const boid = new Boid(100, 100, Math.PI / 2); // Heading down
+
+      expect(boid.inView(new Vec2(100, 150), Math.PI / 2)).toBe(true);
+      expect(boid.inView(new Vec2(150, 100), Math.PI / 2)).toBe(false);
+    });
+
+    it('should see all around while standing still', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(0, 0);
+
+      expect(boid.inView(new Vec2(50, 100), Math.PI / 2)).toBe(true);
+    });
+
+    it('should ignore neighbors in the blind spot', () => {
+      const boid = new Boid(100, 100, 0);
+      const ahead = new Boid(120, 100);
+      const behind = new Boid(80, 100);
+
+      const stats = boid.gatherNeighbors([boid, ahead, behind], 100, undefined, {
+        separation_radius: 100,
+        view_angle: Math.PI,
+      });
+
+      expect(stats.separation_count).toBe(1);
+      expect(stats.alignment_count).toBe(1);
+      expect(stats.position_sum).toEqual(new Vec2(120, 100));
+    });
+  });
+
+  describe('nearestNeighbors', () => {
+    it('should return the k nearest other boids, closest first', () => {
+      const boid = new Boid(100, 100, 0);
+      const a = new Boid(130, 100);
+      const b = new Boid(110, 100);
+      const c = new Boid(500, 500);
+
+      expect(boid.nearestNeighbors([boid, a, b, c], 2)).toEqual([b, a]);
+    });
+
+    it('should return every other boid when there are fewer than k', () => {
+      const boid = new Boid(100, 100);
+      const other = new Boid(700, 700);
+
+      expect(boid.nearestNeighbors([boid, other], 7)).toEqual([other]);
+    });
+
+    it('should skip boids in the blind spot', () => {
+      const boid = new Boid(100, 100, 0);
+      const behind = new Boid(90, 100);
+      const ahead = new Boid(150, 100);
+
+      expect(boid.nearestNeighbors([boid, behind, ahead], 1, Math.PI)).toEqual([ahead]);
+    });
+  });
+
+  describe('Separate radii', () => {
+    const limits = { separation_radius: 20, view_angle: Math.PI * 2 };
+
+    it('should only separate from neighbors inside the separation radius', () => {
+      const boid = new Boid(100, 100);
+      const close = new Boid(110, 100);
+      const mid = new Boid(150, 100);
+
+      const stats = boid.gatherNeighbors([boid, close, mid], 100, undefined, limits);
+
+      expect(stats.separation_count).toBe(1);
+      expect(stats.alignment_count).toBe(2);
+      expect(stats.cohesion_count).toBe(2);
+    });
+
+    it('should separate beyond the perception radius when that is smaller', () => {
+      const boid = new Boid(100, 100);
+      const neighbor = new Boid(140, 100);
+
+      const stats = boid.gatherNeighbors([boid, neighbor], 30, undefined, {
+        separation_radius: 50,
+        view_angle: Math.PI * 2,
+      });
+
+      expect(stats.separation_count).toBe(1);
+      expect(stats.alignment_count).toBe(0);
+    });
+  });
+
   describe('wrapAround', () => {
     it('should wrap boid from right edge to left', () => {
       const boid = new Boid(951, 100); // Just beyond the boundary
@@ -463,10 +656,107 @@ describe('Boid', () => {
     });
   });
 
+  describe('bounce', () => {
+    it('should reflect off the right edge', () => {
+      const boid = new Boid(805, 100);
+      boid.velocity = new Vec2(3, 1);
+
+      boid.bounce(800, 600);
+
+      expect(boid.position.x).toBe(795);
+      expect(boid.velocity.x).toBe(-3);
+      expect(boid.velocity.y).toBe(1);
+    });
+
+    it('should reflect off the top edge', () => {
+      const boid = new Boid(100, -4);
+      boid.velocity = new Vec2(1, -2);
+
+      boid.bounce(800, 600);
+
+      expect(boid.position.y).toBe(4);
+      expect(boid.velocity.y).toBe(2);
+    });
+
+    it('should not touch boids inside the canvas', () => {
+      const boid = new Boid(400, 300);
+      boid.velocity = new Vec2(1, 1);
+
+      boid.bounce(800, 600);
+
+      expect(boid.position).toEqual(new Vec2(400, 300));
+      expect(boid.velocity).toEqual(new Vec2(1, 1));
+    });
+  });
+
+  describe('avoidEdges', () => {
+    it('should return zero force away from the margin', () => {
+      const boid = new Boid(400, 300);
+
+      const force = boid.avoidEdges(800, 600, 50, 1.0);
+
+      expect(force.mag()).toBe(0);
+    });
+
+    it('should steer away from the left wall inside the margin', () => {
+      const boid = new Boid(20, 300);
+      boid.velocity = new Vec2(-2, 0);
+
+      const force = boid.avoidEdges(800, 600, 50, 1.0);
+
+      expect(force.x).toBeGreaterThan(0);
+    });
+
+    it('should steer away from both walls in a corner', () => {
+      const boid = new Boid(790, 590);
+      boid.velocity = new Vec2(1, 1);
+
+      const force = boid.avoidEdges(800, 600, 50, 1.0);
+
+      expect(force.x).toBeLessThan(0);
+      expect(force.y).toBeLessThan(0);
+    });
+  });
+
+  describe('Interpolation', () => {
+    it('should remember the previous position on update', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(2, 0);
+
+      boid.update();
+
+      expect(boid.previous_position.x).toBe(100);
+      expect(boid.position.x).toBe(102);
+    });
+
+    it('should interpolate between previous and current position', () => {
+      const boid = new Boid(100, 100);
+      boid.velocity = new Vec2(4, 0);
+
+      boid.update();
+
+      expect(boid.interpolatedPosition(0).x).toBeCloseTo(100);
+      expect(boid.interpolatedPosition(0.5).x).toBeCloseTo(102);
+      expect(boid.interpolatedPosition(1).x).toBeCloseTo(104);
+    });
+
+    it('should keep interpolation local when wrapping', () => {
+      const boid = new Boid(798, 100);
+      boid.velocity = new Vec2(4, 0);
+
+      boid.update();
+      boid.wrapAround(800, 600);
+
+      // Halfway between steps sits just past the left edge, not mid-canvas
+      expect(boid.interpolatedPosition(0.5).x).toBeLessThan(0);
+      expect(boid.interpolatedPosition(1).x).toBe(0);
+    });
+  });
+
   describe('Integration: Force calculations in sequence', () => {
     it('should apply all three forces to create emergent behavior', () => {
       const boid = new Boid(500, 300);
-      boid.velocity = new p5.Vector(0, 0);
+      boid.velocity = new Vec2(0, 0);
 
       const neighbors = [new Boid(510, 300), new Boid(520, 310), new Boid(500, 320)];
 
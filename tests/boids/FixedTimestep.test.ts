@@ -0,0 +1,47 @@
+/* eslint-env jest */
+
+import { FIXED_DT, FixedTimestep, MAX_STEPS_PER_UPDATE } from '../../src/boids/FixedTimestep';
+
+describe('FixedTimestep', () => {
+  it('should run one step per whole FIXED_DT and return the leftover fraction', () => {
+    const clock = new FixedTimestep();
+    const step = jest.fn();
+
+    const alpha = clock.advance(FIXED_DT * 2.5, step);
+
+    expect(step).toHaveBeenCalledTimes(2);
+    expect(alpha).toBeCloseTo(0.5);
+  });
+
+  it('should carry partial steps over to the next advance', () => {
+    const clock = new FixedTimestep();
+    const step = jest.fn();
+
+    clock.advance(FIXED_DT * 0.6, step);
+    clock.advance(FIXED_DT * 0.6, step);
+
+    expect(step).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cap the steps per advance and drop the backlog', () => {
+    const clock = new FixedTimestep();
+    const step = jest.fn();
+
+    const alpha = clock.advance(FIXED_DT * 100.25, step);
+    clock.advance(0, step);
+
+    expect(step).toHaveBeenCalledTimes(MAX_STEPS_PER_UPDATE);
+    expect(alpha).toBeCloseTo(0.25);
+  });
+
+  it('should forget a partial step on reset', () => {
+    const clock = new FixedTimestep();
+    const step = jest.fn();
+
+    clock.advance(FIXED_DT * 0.75, step);
+    clock.reset();
+
+    expect(clock.advance(FIXED_DT * 0.5, step)).toBeCloseTo(0.5);
+    expect(step).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,200 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { Boid } from '../../src/boids/Boid';
+import { MetricsLog, computeMetrics, metricsToCSV } from '../../src/boids/Metrics';
+import { Vec2 } from '../../src/math/Vec2';
+
+/**
+ * Add a boid with a fixed position and velocity
+ */
+const place = (simulation: Simulation, x: number, y: number, vx: number, vy: number): Boid => {
+  const boid = new Boid(x, y);
+  boid.velocity = new Vec2(vx, vy);
+  simulation.addBoid(boid);
+  return boid;
+};
+
+describe('Metrics', () => {
+  describe('computeMetrics', () => {
+    it('should report zeros for an empty flock', () => {
+      const simulation = new Simulation(800, 600);
+
+      expect(computeMetrics(simulation)).toEqual({
+        polarization: 0,
+        angular_momentum: 0,
+        nearest_neighbor_distance: 0,
+        cluster_count: 0,
+      });
+    });
+
+    it('should give polarization 1 for aligned boids and 0 for opposed ones', () => {
+      const aligned = new Simulation(800, 600);
+      place(aligned, 100, 100, 2, 0);
+      place(aligned, 200, 100, 4, 0);
+
+      const opposed = new Simulation(800, 600);
+      place(opposed, 100, 100, 2, 0);
+      place(opposed, 200, 100, -2, 0);
+
+      expect(computeMetrics(aligned).polarization).toBeCloseTo(1);
+      expect(computeMetrics(opposed).polarization).toBeCloseTo(0);
+    });
+
+    it('should give angular momentum ±1 for a ring circling the center', () => {
+      const simulation = new Simulation(800, 600);
+      for (let i = 0; i < 8; i++) {
+        const angle = (i / 8) * Math.PI * 2;
+        // Tangent (-sin, cos): clockwise on screen with y pointing down
+        place(
+          simulation,
+          400 + Math.cos(angle) * 100,
+          300 + Math.sin(angle) * 100,
+          -Math.sin(angle),
+          Math.cos(angle)
+        );
+      }
+
+      const clockwise = computeMetrics(simulation);
+      for (const boid of simulation.boids) boid.velocity.mult(-1);
+      const counterClockwise = computeMetrics(simulation);
+
+      expect(clockwise.angular_momentum).toBeCloseTo(1);
+      expect(counterClockwise.angular_momentum).toBeCloseTo(-1);
+      expect(clockwise.polarization).toBeCloseTo(0);
+    });
+
+    it('should average the distance to each boid’s closest flockmate', () => {
+      const simulation = new Simulation(800, 600);
+      place(simulation, 0, 0, 1, 0);
+      place(simulation, 10, 0, 1, 0);
+      place(simulation, 40, 0, 1, 0);
+
+      // Nearest distances: 10, 10, 30
+      expect(computeMetrics(simulation).nearest_neighbor_distance).toBeCloseTo(50 / 3);
+    });
+
+    it('should count clusters linked by chains within the perception radius', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.perception_radius = 50;
+      // A chain of three (each link within 50), a pair, and a loner
+      place(simulation, 0, 0, 1, 0);
+      place(simulation, 40, 0, 1, 0);
+      place(simulation, 80, 0, 1, 0);
+      place(simulation, 300, 300, 1, 0);
+      place(simulation, 330, 300, 1, 0);
+      place(simulation, 700, 500, 1, 0);
+
+      expect(computeMetrics(simulation).cluster_count).toBe(3);
+    });
+
+    it('should match an all-pairs search, including boids past the edges', () => {
+      const simulation = new Simulation(400, 300);
+      simulation.reseed(5);
+      simulation.populate(150);
+      simulation.perception_radius = 30;
+      // Strays outside the world and far from the flock
+      place(simulation, -20, 150, 1, 0);
+      place(simulation, 430, -40, 1, 0);
+
+      const boids = simulation.boids;
+      let total = 0;
+      const parent = boids.map((_, i) => i);
+      const find = (i: number): number => (parent[i] === i ? i : find(parent[i]));
+      boids.forEach((boid, i) => {
+        let nearest = Infinity;
+        boids.forEach((other, j) => {
+          if (i === j) return;
+          const d = Vec2.dist(boid.position, other.position);
+          nearest = Math.min(nearest, d);
+          if (d <= 30) parent[find(i)] = find(j);
+        });
+        total += nearest;
+      });
+      const clusters = new Set(boids.map((_, i) => find(i))).size;
+
+      const metrics = computeMetrics(simulation);
+      expect(metrics.nearest_neighbor_distance).toBeCloseTo(total / boids.length);
+      expect(metrics.cluster_count).toBe(clusters);
+    });
+  });
+
+  describe('MetricsLog', () => {
+    it('should record a sample after every step while attached', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.reseed(3);
+      simulation.populate(10);
+      const log = new MetricsLog();
+
+      log.attach(simulation);
+      simulation.step();
+      simulation.step();
+      log.detach(simulation);
+      simulation.step();
+
+      expect(log.samples.map((sample) => sample.step)).toEqual([1, 2]);
+      expect(log.latest!.params.perception_radius).toBe(simulation.perception_radius);
+    });
+
+    it('should drop the oldest samples past its capacity', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.populate(5);
+      const log = new MetricsLog(3);
+
+      log.attach(simulation);
+      for (let i = 0; i < 5; i++) simulation.step();
+
+      expect(log.samples.map((sample) => sample.step)).toEqual([3, 4, 5]);
+    });
+
+    it('should sample every `interval` steps', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.populate(5);
+      const log = new MetricsLog();
+      log.interval = 3;
+
+      log.attach(simulation);
+      for (let i = 0; i < 7; i++) simulation.step();
+
+      expect(log.samples.map((sample) => sample.step)).toEqual([1, 4, 7]);
+    });
+
+    it('should not measure while disabled', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.populate(5);
+      const log = new MetricsLog();
+      log.enabled = false;
+
+      log.attach(simulation);
+      simulation.step();
+
+      expect(log.samples).toHaveLength(0);
+    });
+  });
+
+  describe('metricsToCSV', () => {
+    it('should write a header and one row per sample', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.populate(5);
+      const log = new MetricsLog();
+      log.attach(simulation);
+      simulation.step();
+      simulation.cohesion_force = 2.5;
+      simulation.step();
+
+      const lines = metricsToCSV(log.samples).trim().split('\n');
+      const header = lines[0].split(',');
+
+      expect(header.slice(0, 5)).toEqual([
+        'step',
+        'polarization',
+        'angular_momentum',
+        'nearest_neighbor_distance',
+        'cluster_count',
+      ]);
+      expect(lines).toHaveLength(3);
+      const cohesion = header.indexOf('cohesion_force');
+      expect(lines[2].split(',')[cohesion]).toBe('2.5');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/* eslint-env jest */
+import {
+  CircleObstacle,
+  PolylineObstacle,
+  RectObstacle,
+  containsPoint,
+  raycast,
+} from '../../src/boids/Obstacle';
+import { Vec2 } from '../../src/math/Vec2';
+
+describe('Obstacle', () => {
+  const right = new Vec2(1, 0);
+
+  describe('raycast: circle', () => {
+    const circle: CircleObstacle = { kind: 'circle', x: 100, y: 0, radius: 10 };
+
+    it('should hit a circle straight ahead', () => {
+      const hit = raycast(circle, new Vec2(0, 0), right, 200);
+
+      expect(hit).not.toBeNull();
+      expect(hit!.distance).toBeCloseTo(90);
+      expect(hit!.normal.x).toBeCloseTo(-1);
+      expect(hit!.normal.y).toBeCloseTo(0);
+    });
+
+    it('should miss a circle beyond the look-ahead distance', () => {
+      expect(raycast(circle, new Vec2(0, 0), right, 50)).toBeNull();
+    });
+
+    it('should miss a circle off to the side', () => {
+      expect(raycast(circle, new Vec2(0, 50), right, 200)).toBeNull();
+    });
+
+    it('should miss a circle behind the ray', () => {
+      expect(raycast(circle, new Vec2(200, 0), right, 200)).toBeNull();
+    });
+
+    it('should hit immediately from inside, pointing out', () => {
+      const hit = raycast(circle, new Vec2(95, 0), right, 200);
+
+      expect(hit!.distance).toBe(0);
+      expect(hit!.normal.x).toBeCloseTo(-1);
+    });
+  });
+
+  describe('raycast: rect', () => {
+    const rect: RectObstacle = { kind: 'rect', x: 50, y: -20, width: 40, height: 40 };
+
+    it('should hit the near side of a rectangle', () => {
+      const hit = raycast(rect, new Vec2(0, 0), right, 200);
+
+      expect(hit!.distance).toBeCloseTo(50);
+      expect(hit!.normal).toEqual(new Vec2(-1, 0));
+    });
+
+    it('should hit the top side when coming from above', () => {
+      const hit = raycast(rect, new Vec2(70, -100), new Vec2(0, 1), 200);
+
+      expect(hit!.distance).toBeCloseTo(80);
+      expect(hit!.normal).toEqual(new Vec2(0, -1));
+    });
+
+    it('should miss a rectangle the ray passes beside', () => {
+      expect(raycast(rect, new Vec2(0, 50), right, 200)).toBeNull();
+    });
+
+    it('should push out through the nearest side from inside', () => {
+      const hit = raycast(rect, new Vec2(55, 0), right, 200);
+
+      expect(hit!.distance).toBe(0);
+      expect(hit!.normal).toEqual(new Vec2(-1, 0));
+    });
+  });
+
+  describe('raycast: polyline', () => {
+    const wall: PolylineObstacle = {
+      kind: 'polyline',
+      points: [
+        { x: 50, y: -50 },
+        { x: 50, y: 50 },
+        { x: 150, y: 50 },
+      ],
+    };
+
+    it('should hit the nearest segment', () => {
+      const hit = raycast(wall, new Vec2(0, 0), right, 200);
+
+      expect(hit!.distance).toBeCloseTo(50);
+      expect(hit!.normal.x).toBeCloseTo(-1);
+    });
+
+    it('should face the normal towards the incoming ray', () => {
+      const hit = raycast(wall, new Vec2(100, 0), new Vec2(-1, 0), 200);
+
+      expect(hit!.distance).toBeCloseTo(50);
+      expect(hit!.normal.x).toBeCloseTo(1);
+    });
+
+    it('should miss past the end of the wall', () => {
+      expect(raycast(wall, new Vec2(0, -80), right, 200)).toBeNull();
+    });
+  });
+
+  describe('containsPoint', () => {
+    it('should pick circles within their radius plus tolerance', () => {
+      const circle: CircleObstacle = { kind: 'circle', x: 0, y: 0, radius: 10 };
+
+      expect(containsPoint(circle, new Vec2(5, 5))).toBe(true);
+      expect(containsPoint(circle, new Vec2(12, 0))).toBe(false);
+      expect(containsPoint(circle, new Vec2(12, 0), 3)).toBe(true);
+    });
+
+    it('should pick rectangles by their bounds', () => {
+      const rect: RectObstacle = { kind: 'rect', x: 0, y: 0, width: 20, height: 10 };
+
+      expect(containsPoint(rect, new Vec2(10, 5))).toBe(true);
+      expect(containsPoint(rect, new Vec2(25, 5))).toBe(false);
+    });
+
+    it('should pick polylines near any segment', () => {
+      const wall: PolylineObstacle = {
+        kind: 'polyline',
+        points: [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+        ],
+      };
+
+      expect(containsPoint(wall, new Vec2(50, 4), 5)).toBe(true);
+      expect(containsPoint(wall, new Vec2(50, 20), 5)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/* eslint-env jest */
+
+import { Boid } from '../../src/boids/Boid';
+import { Predator } from '../../src/boids/Predator';
+import { Vec2 } from '../../src/math/Vec2';
+
+describe('Predator', () => {
+  describe('Constructor', () => {
+    it('should share Boid physics', () => {
+      const predator = new Predator(100, 200, 0);
+
+      expect(predator).toBeInstanceOf(Boid);
+      expect(predator.position).toEqual(new Vec2(100, 200));
+      expect(predator.velocity.x).toBeCloseTo(1);
+    });
+
+    it('should be faster and more agile than a boid', () => {
+      const predator = new Predator(0, 0);
+      const boid = new Boid(0, 0);
+
+      expect(predator.max_speed).toBeGreaterThan(boid.max_speed);
+      expect(predator.max_force).toBeGreaterThan(boid.max_force);
+    });
+  });
+
+  describe('pursue', () => {
+    it('should steer towards the target', () => {
+      const predator = new Predator(100, 100, 0);
+      predator.velocity = new Vec2(0, 0);
+
+      const force = predator.pursue(new Vec2(100, 200), 1.0);
+
+      expect(force.x).toBeCloseTo(0);
+      expect(force.y).toBeGreaterThan(0);
+    });
+
+    it('should scale by the force weight', () => {
+      const predator = new Predator(100, 100, 0);
+
+      const single = predator.pursue(new Vec2(100, 200), 1.0);
+      const double = predator.pursue(new Vec2(100, 200), 2.0);
+
+      expect(double.mag()).toBeCloseTo(single.mag() * 2);
+    });
+  });
+
+  describe('nearestPrey', () => {
+    it('should return the closest boid', () => {
+      const predator = new Predator(100, 100);
+      const near = new Boid(120, 100);
+      const far = new Boid(300, 300);
+
+      expect(predator.nearestPrey([far, near])).toBe(near);
+    });
+
+    it('should return null with no boids', () => {
+      const predator = new Predator(100, 100);
+
+      expect(predator.nearestPrey([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { Player, Recorder } from '../../src/boids/Recording';
+import { Vec2 } from '../../src/math/Vec2';
+
+/**
+ * A small seeded flock
+ */
+const createSimulation = (): Simulation => {
+  const simulation = new Simulation(400, 300);
+  simulation.reseed(5);
+  simulation.populate(20);
+  return simulation;
+};
+
+/**
+ * Positions of every boid, for comparing runs
+ */
+const positionsOf = (simulation: Simulation): Vec2[] =>
+  simulation.boids.map((boid) => boid.position.copy());
+
+describe('Recording', () => {
+  describe('Recorder', () => {
+    it('should only record steps taken while active', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+
+      recorder.start(simulation, 'events');
+      expect(recorder.active).toBe(true);
+      simulation.step();
+      const recording = recorder.stop()!;
+      simulation.step();
+
+      expect(recorder.active).toBe(false);
+      expect(recording.length).toBe(1);
+    });
+
+    it('should count recorded steps and start with a keyframe', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+
+      recorder.start(simulation, 'events');
+      for (let i = 0; i < 10; i++) simulation.step();
+      const recording = recorder.stop()!;
+
+      expect(recording.length).toBe(10);
+      expect(recording.keyframes[0].step).toBe(0);
+    });
+
+    it('should record only the parameters that changed', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+
+      recorder.start(simulation, 'events');
+      simulation.step();
+      simulation.cohesion_force = 2.5;
+      simulation.step();
+      const recording = recorder.stop()!;
+
+      expect(recording.inputs).toEqual([{ step: 1, params: { cohesion_force: 2.5 } }]);
+    });
+
+    it('should take a keyframe when the flock is edited between steps', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+
+      recorder.start(simulation, 'events');
+      simulation.step();
+      simulation.populate(5);
+      simulation.step();
+      const recording = recorder.stop()!;
+
+      expect(recording.keyframes.map((keyframe) => keyframe.step)).toEqual([0, 1]);
+    });
+
+    it('should store one packed frame per step plus the final state in snapshot mode', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+
+      recorder.start(simulation, 'snapshots');
+      for (let i = 0; i < 5; i++) simulation.step();
+      const recording = recorder.stop()!;
+
+      expect(recording.frames).toHaveLength(6);
+      expect(recording.frames[0].positions).toHaveLength(40);
+    });
+  });
+
+  describe('Player (events)', () => {
+    it('should reproduce the live run exactly, including changes along the way', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+
+      recorder.start(simulation, 'events');
+      for (let i = 0; i < 300; i++) {
+        if (i === 50) simulation.alignment_force = 3;
+        if (i === 100) simulation.pointer_mode = 'attract';
+        if (i >= 100 && i < 150) simulation.pointer = new Vec2(200 + i, 150);
+        if (i === 150) simulation.pointer = null;
+        if (i === 200) simulation.populate(3);
+        simulation.step();
+      }
+      const recording = recorder.stop()!;
+
+      const player = new Player(recording);
+      player.seek(recording.length);
+
+      expect(positionsOf(player.simulation)).toEqual(positionsOf(simulation));
+    });
+
+    it('should land on the same state when scrubbing back and forth', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+      recorder.start(simulation, 'events');
+      for (let i = 0; i < 250; i++) simulation.step();
+      const player = new Player(recorder.stop()!);
+
+      player.seek(200);
+      const forward = positionsOf(player.simulation);
+      player.seek(30);
+      player.seek(200);
+
+      expect(positionsOf(player.simulation)).toEqual(forward);
+      expect(player.step).toBe(200);
+    });
+
+    it('should clamp seeks to the recording', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+      recorder.start(simulation, 'events');
+      for (let i = 0; i < 10; i++) simulation.step();
+      const player = new Player(recorder.stop()!);
+
+      player.seek(99);
+      expect(player.step).toBe(10);
+
+      player.seek(-5);
+      expect(player.step).toBe(0);
+    });
+
+    it('should play in real time and stop at the end', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+      recorder.start(simulation, 'events');
+      for (let i = 0; i < 10; i++) simulation.step();
+      const player = new Player(recorder.stop()!);
+
+      player.update(Simulation.FIXED_DT * 4);
+      expect(player.step).toBe(4);
+
+      for (let i = 0; i < 10; i++) player.update(Simulation.FIXED_DT * 4);
+      expect(player.finished).toBe(true);
+      expect(player.playing).toBe(false);
+    });
+
+    it('should not advance while paused', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+      recorder.start(simulation, 'events');
+      for (let i = 0; i < 10; i++) simulation.step();
+      const player = new Player(recorder.stop()!);
+
+      player.playing = false;
+      player.update(Simulation.FIXED_DT * 4);
+
+      expect(player.step).toBe(0);
+    });
+  });
+
+  describe('Player (snapshots)', () => {
+    it('should show each recorded frame to within the quantization', () => {
+      const simulation = createSimulation();
+      const recorder = new Recorder();
+      recorder.start(simulation, 'snapshots');
+      const expected: Vec2[][] = [];
+      for (let i = 0; i < 20; i++) {
+        expected.push(positionsOf(simulation));
+        simulation.step();
+      }
+      expected.push(positionsOf(simulation));
+      const player = new Player(recorder.stop()!);
+
+      for (const step of [20, 3, 11]) {
+        player.seek(step);
+        player.simulation.boids.forEach((boid, i) => {
+          expect(Math.abs(boid.position.x - expected[step][i].x)).toBeLessThanOrEqual(0.125);
+          expect(Math.abs(boid.position.y - expected[step][i].y)).toBeLessThanOrEqual(0.125);
+        });
+      }
+    });
+
+    it('should keep headings and species', () => {
+      const simulation = createSimulation();
+      simulation.addSpecies();
+      simulation.populate(2, 1);
+      const recorder = new Recorder();
+      recorder.start(simulation, 'snapshots');
+      simulation.step();
+      const player = new Player(recorder.stop()!);
+
+      player.seek(1);
+
+      player.simulation.boids.forEach((boid, i) => {
+        expect(boid.species).toBe(simulation.boids[i].species);
+        expect(boid.velocity.heading()).toBeCloseTo(simulation.boids[i].velocity.heading(), 3);
+      });
+    });
+  });
+});
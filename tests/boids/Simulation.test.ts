@@ -1,6 +1,16 @@
 /* eslint-env jest */
 import { Simulation } from '../../src/boids/Simulation';
 import { Boid } from '../../src/boids/Boid';
+import { Predator } from '../../src/boids/Predator';
+import { Vec2 } from '../../src/math/Vec2';
+import { Obstacle } from '../../src/boids/Obstacle';
+import { createInteraction, createSpecies } from '../../src/boids/Species';
+
+/**
+ * Stand-in for the neighbor stats a boid gathers; Simulation only hands
+ * it back to the same boid's force methods
+ */
+const mockStats = { count: 0 } as any;
 
 /**
  * Mock Boid class - tracks method calls without requiring p5
@@ -8,12 +18,20 @@ import { Boid } from '../../src/boids/Boid';
  * the vector properties; it only passes them through to applyForce()
  */
 class MockBoid {
-  separation = jest.fn().mockReturnValue({ x: 0.1, y: 0.1 } as any);
-  alignment = jest.fn().mockReturnValue({ x: 0.2, y: 0.2 } as any);
-  cohesion = jest.fn().mockReturnValue({ x: 0.3, y: 0.3 } as any);
+  position = { x: 0, y: 0 };
+  species = 0;
+  gatherNeighbors = jest.fn().mockReturnValue(mockStats);
+  separationFrom = jest.fn().mockReturnValue({ x: 0.1, y: 0.1 } as any);
+  alignmentFrom = jest.fn().mockReturnValue({ x: 0.2, y: 0.2 } as any);
+  cohesionFrom = jest.fn().mockReturnValue({ x: 0.3, y: 0.3 } as any);
+  attract = jest.fn().mockReturnValue({ x: 0.4, y: 0.4 } as any);
+  repel = jest.fn().mockReturnValue({ x: -0.4, y: -0.4 } as any);
   applyForce = jest.fn();
+  avoidObstacles = jest.fn().mockReturnValue({ x: 0.6, y: 0.6 } as any);
+  avoidEdges = jest.fn().mockReturnValue({ x: 0.5, y: 0.5 } as any);
   update = jest.fn();
   wrapAround = jest.fn();
+  bounce = jest.fn();
 }
 
 /**
@@ -166,30 +184,37 @@ describe('Simulation', () => {
       expect(() => simulation.update()).not.toThrow();
     });
 
-    it('should call separation on each boid with correct parameters', () => {
+    it('should gather neighbors once per boid with the perception radius', () => {
       const mockBoid = createMockBoid() as unknown as Boid;
       simulation.addBoid(mockBoid);
 
       simulation.update();
 
-      expect(mockBoid.separation).toHaveBeenCalledWith(
+      expect(mockBoid.gatherNeighbors).toHaveBeenCalledTimes(1);
+      expect(mockBoid.gatherNeighbors).toHaveBeenCalledWith(
         [mockBoid],
         simulation.perception_radius,
-        simulation.separation_force
+        simulation.interactions[0],
+        expect.anything()
       );
     });
 
+    it('should call separation on each boid with correct parameters', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update();
+
+      expect(mockBoid.separationFrom).toHaveBeenCalledWith(mockStats, simulation.separation_force);
+    });
+
     it('should call alignment on each boid with correct parameters', () => {
       const mockBoid = createMockBoid() as unknown as Boid;
       simulation.addBoid(mockBoid);
 
       simulation.update();
 
-      expect(mockBoid.alignment).toHaveBeenCalledWith(
-        [mockBoid],
-        simulation.perception_radius,
-        simulation.alignment_force
-      );
+      expect(mockBoid.alignmentFrom).toHaveBeenCalledWith(mockStats, simulation.alignment_force);
     });
 
     it('should call cohesion on each boid with correct parameters', () => {
@@ -198,11 +223,7 @@ describe('Simulation', () => {
 
       simulation.update();
 
-      expect(mockBoid.cohesion).toHaveBeenCalledWith(
-        [mockBoid],
-        simulation.perception_radius,
-        simulation.cohesion_force
-      );
+      expect(mockBoid.cohesionFrom).toHaveBeenCalledWith(mockStats, simulation.cohesion_force);
     });
 
     it('should apply forces in correct order: separation, alignment, cohesion', () => {
@@ -212,15 +233,15 @@ describe('Simulation', () => {
       mockBoid.applyForce = jest.fn(() => {
         callOrder.push('applyForce');
       });
-      mockBoid.separation = jest.fn(() => {
+      mockBoid.separationFrom = jest.fn(() => {
         callOrder.push('separation');
         return { x: 0.1, y: 0.1 } as any;
       });
-      mockBoid.alignment = jest.fn(() => {
+      mockBoid.alignmentFrom = jest.fn(() => {
         callOrder.push('alignment');
         return { x: 0.2, y: 0.2 } as any;
       });
-      mockBoid.cohesion = jest.fn(() => {
+      mockBoid.cohesionFrom = jest.fn(() => {
         callOrder.push('cohesion');
         return { x: 0.3, y: 0.3 } as any;
       });
@@ -263,6 +284,19 @@ describe('Simulation', () => {
       expect(updateIndex).toBeGreaterThan(applyForceIndex);
     });
 
+    it('should apply forces to every boid before moving any', () => {
+      const first = createMockBoid();
+      const second = createMockBoid();
+
+      simulation.addBoid(first as unknown as Boid);
+      simulation.addBoid(second as unknown as Boid);
+      simulation.update();
+
+      // The first boid must not have moved when the second one's forces are worked out
+      const lastForce = Math.max(...second.applyForce.mock.invocationCallOrder);
+      expect(first.update.mock.invocationCallOrder[0]).toBeGreaterThan(lastForce);
+    });
+
     it('should call wrapAround with canvas dimensions', () => {
       const mockBoid = createMockBoid() as unknown as Boid;
       simulation.addBoid(mockBoid);
@@ -283,9 +317,9 @@ describe('Simulation', () => {
 
       simulation.update();
 
-      expect(boid1.separation).toHaveBeenCalled();
-      expect(boid2.separation).toHaveBeenCalled();
-      expect(boid3.separation).toHaveBeenCalled();
+      expect(boid1.separationFrom).toHaveBeenCalled();
+      expect(boid2.separationFrom).toHaveBeenCalled();
+      expect(boid3.separationFrom).toHaveBeenCalled();
 
       expect(boid1.update).toHaveBeenCalled();
       expect(boid2.update).toHaveBeenCalled();
@@ -306,15 +340,336 @@ describe('Simulation', () => {
       simulation.update();
 
       // Each boid should receive the full array of all boids
-      expect(boid1.separation).toHaveBeenCalledWith(
+      expect(boid1.gatherNeighbors).toHaveBeenCalledWith(
         [boid1, boid2],
         expect.any(Number),
-        expect.any(Number)
+        expect.anything(),
+        expect.anything()
       );
-      expect(boid2.separation).toHaveBeenCalledWith(
+      expect(boid2.gatherNeighbors).toHaveBeenCalledWith(
         [boid1, boid2],
         expect.any(Number),
-        expect.any(Number)
+        expect.anything(),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('Fixed timestep', () => {
+    const dt = Simulation.FIXED_DT;
+
+    it('should run one step per fixed timestep of real time', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update(dt * 3);
+
+      expect(mockBoid.update).toHaveBeenCalledTimes(3);
+    });
+
+    it('should accumulate partial frames until a step is due', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update(dt / 2);
+      expect(mockBoid.update).not.toHaveBeenCalled();
+
+      simulation.update(dt / 2);
+      expect(mockBoid.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move at the same rate regardless of frame rate', () => {
+      const at60Hz = createMockBoid() as unknown as Boid;
+      const at144Hz = createMockBoid() as unknown as Boid;
+      const fast = new Simulation(800, 600);
+      simulation.addBoid(at60Hz);
+      fast.addBoid(at144Hz);
+
+      // One second of real time at each refresh rate
+      for (let i = 0; i < 60; i++) simulation.update(1 / 60);
+      for (let i = 0; i < 144; i++) fast.update(1 / 144);
+
+      const steps144 = (at144Hz.update as jest.Mock).mock.calls.length;
+      expect(at60Hz.update).toHaveBeenCalledTimes(60);
+      expect(Math.abs(steps144 - 60)).toBeLessThanOrEqual(1);
+    });
+
+    it('should expose the leftover fraction of a step as alpha', () => {
+      simulation.update(dt * 1.25);
+
+      expect(simulation.alpha).toBeCloseTo(0.25);
+    });
+
+    it('should scale time by time_scale', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.time_scale = 2;
+
+      simulation.update(dt);
+
+      expect(mockBoid.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cap the number of steps per update', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update(10);
+
+      expect(mockBoid.update).toHaveBeenCalledTimes(Simulation.MAX_STEPS_PER_UPDATE);
+    });
+
+    it('should not step while paused', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.paused = true;
+
+      simulation.update(dt * 5);
+
+      expect(mockBoid.update).not.toHaveBeenCalled();
+    });
+
+    it('should single-step while paused', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.paused = true;
+
+      simulation.singleStep();
+
+      expect(mockBoid.update).toHaveBeenCalledTimes(1);
+      expect(simulation.alpha).toBe(1);
+    });
+  });
+
+  describe('Boundary modes', () => {
+    it('should wrap around by default', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update();
+
+      expect(mockBoid.wrapAround).toHaveBeenCalled();
+      expect(mockBoid.bounce).not.toHaveBeenCalled();
+      expect(mockBoid.avoidEdges).not.toHaveBeenCalled();
+    });
+
+    it('should bounce off the edges in bounce mode', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.boundary_mode = 'bounce';
+
+      simulation.update();
+
+      expect(mockBoid.bounce).toHaveBeenCalledWith(simulation.width, simulation.height);
+      expect(mockBoid.wrapAround).not.toHaveBeenCalled();
+    });
+
+    it('should steer away from the walls in avoid mode', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.boundary_mode = 'avoid';
+      simulation.boundary_margin = 80;
+
+      simulation.update();
+
+      expect(mockBoid.avoidEdges).toHaveBeenCalledWith(
+        simulation.width,
+        simulation.height,
+        80,
+        simulation.boundary_force
+      );
+      expect(mockBoid.applyForce).toHaveBeenCalledWith({ x: 0.5, y: 0.5 });
+      // Bounce still keeps boids inside if the walls aren't strong enough
+      expect(mockBoid.bounce).toHaveBeenCalled();
+    });
+
+    it('should keep real boids inside the canvas when bouncing', () => {
+      simulation.boundary_mode = 'bounce';
+      simulation.reseed(3);
+      simulation.populate(50);
+
+      for (let i = 0; i < 200; i++) simulation.update();
+
+      for (const boid of simulation.getBoids()) {
+        expect(boid.position.x).toBeGreaterThanOrEqual(0);
+        expect(boid.position.x).toBeLessThanOrEqual(simulation.width);
+        expect(boid.position.y).toBeGreaterThanOrEqual(0);
+        expect(boid.position.y).toBeLessThanOrEqual(simulation.height);
+      }
+    });
+  });
+
+  describe('Obstacles', () => {
+    const circle: Obstacle = { kind: 'circle', x: 100, y: 100, radius: 20 };
+    const rect: Obstacle = { kind: 'rect', x: 300, y: 300, width: 50, height: 50 };
+
+    it('should add and remove obstacles', () => {
+      simulation.addObstacle(circle);
+      simulation.addObstacle(rect);
+
+      simulation.removeObstacle(circle);
+
+      expect(simulation.obstacles).toEqual([rect]);
+    });
+
+    it('should find the obstacle under a point', () => {
+      simulation.addObstacle(circle);
+      simulation.addObstacle(rect);
+
+      expect(simulation.obstacleAt(new Vec2(310, 320))).toBe(rect);
+      expect(simulation.obstacleAt(new Vec2(600, 600))).toBeNull();
+    });
+
+    it('should prefer the most recently added obstacle when they overlap', () => {
+      const big: Obstacle = { kind: 'circle', x: 100, y: 100, radius: 80 };
+      simulation.addObstacle(circle);
+      simulation.addObstacle(big);
+
+      expect(simulation.obstacleAt(new Vec2(100, 100))).toBe(big);
+    });
+
+    it('should not compute avoidance without obstacles', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update();
+
+      expect(mockBoid.avoidObstacles).not.toHaveBeenCalled();
+    });
+
+    it('should apply obstacle avoidance to each boid', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.addObstacle(circle);
+
+      simulation.update();
+
+      expect(mockBoid.avoidObstacles).toHaveBeenCalledWith(
+        [circle],
+        simulation.obstacle_look_ahead,
+        simulation.obstacle_force
+      );
+      expect(mockBoid.applyForce).toHaveBeenCalledWith({ x: 0.6, y: 0.6 });
+    });
+  });
+
+  describe('Pointer interaction', () => {
+    it('should ignore the pointer by default', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.pointer = new Vec2(10, 10);
+
+      simulation.update();
+
+      expect(mockBoid.attract).not.toHaveBeenCalled();
+      expect(mockBoid.repel).not.toHaveBeenCalled();
+      expect(mockBoid.applyForce).toHaveBeenCalledTimes(3);
+    });
+
+    it('should attract boids to the pointer in attract mode', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.pointer_mode = 'attract';
+      simulation.pointer = new Vec2(10, 10);
+
+      simulation.update();
+
+      expect(mockBoid.attract).toHaveBeenCalledWith(
+        simulation.pointer,
+        simulation.pointer_radius,
+        simulation.pointer_force
+      );
+      expect(mockBoid.applyForce).toHaveBeenCalledWith({ x: 0.4, y: 0.4 });
+    });
+
+    it('should repel boids from the pointer in repel mode', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.pointer_mode = 'repel';
+      simulation.pointer = new Vec2(10, 10);
+
+      simulation.update();
+
+      expect(mockBoid.repel).toHaveBeenCalledWith(
+        simulation.pointer,
+        simulation.pointer_radius,
+        simulation.pointer_force
+      );
+    });
+
+    it('should skip pointer forces while the pointer is off the canvas', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      simulation.pointer_mode = 'attract';
+      simulation.pointer = null;
+
+      simulation.update();
+
+      expect(mockBoid.attract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Spatial index', () => {
+    it('should only pass nearby boids to force calculation methods', () => {
+      const near = createMockBoid();
+      const far = createMockBoid();
+      far.position = { x: 400, y: 300 };
+
+      simulation.addBoid(near as unknown as Boid);
+      simulation.addBoid(far as unknown as Boid);
+
+      simulation.update();
+
+      expect(near.gatherNeighbors).toHaveBeenCalledWith(
+        [near],
+        expect.any(Number),
+        expect.anything(),
+        expect.anything()
+      );
+      expect(far.gatherNeighbors).toHaveBeenCalledWith(
+        [far],
+        expect.any(Number),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should pass all boids when the spatial index is disabled', () => {
+      simulation.use_spatial_index = false;
+
+      const near = createMockBoid();
+      const far = createMockBoid();
+      far.position = { x: 400, y: 300 };
+
+      simulation.addBoid(near as unknown as Boid);
+      simulation.addBoid(far as unknown as Boid);
+
+      simulation.update();
+
+      expect(near.gatherNeighbors).toHaveBeenCalledWith(
+        [near, far],
+        expect.any(Number),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should find neighbors across the wrapped canvas edge', () => {
+      const left = createMockBoid();
+      const right = createMockBoid();
+      left.position = { x: -2, y: 300 };
+      right.position = { x: 5, y: 300 };
+
+      simulation.addBoid(left as unknown as Boid);
+      simulation.addBoid(right as unknown as Boid);
+
+      simulation.update();
+
+      expect(right.gatherNeighbors).toHaveBeenCalledWith(
+        expect.arrayContaining([left, right]),
+        expect.any(Number),
+        expect.anything(),
+        expect.anything()
       );
     });
   });
@@ -327,7 +682,7 @@ describe('Simulation', () => {
 
       simulation.update();
 
-      expect(mockBoid.separation).toHaveBeenCalledWith(expect.any(Array), expect.any(Number), 2.5);
+      expect(mockBoid.separationFrom).toHaveBeenCalledWith(expect.anything(), 2.5);
     });
 
     it('should allow modifying alignment_force', () => {
@@ -337,7 +692,7 @@ describe('Simulation', () => {
 
       simulation.update();
 
-      expect(mockBoid.alignment).toHaveBeenCalledWith(expect.any(Array), expect.any(Number), 0.5);
+      expect(mockBoid.alignmentFrom).toHaveBeenCalledWith(expect.anything(), 0.5);
     });
 
     it('should allow modifying cohesion_force', () => {
@@ -347,7 +702,7 @@ describe('Simulation', () => {
 
       simulation.update();
 
-      expect(mockBoid.cohesion).toHaveBeenCalledWith(expect.any(Array), expect.any(Number), 2.0);
+      expect(mockBoid.cohesionFrom).toHaveBeenCalledWith(expect.anything(), 2.0);
     });
 
     it('should allow modifying perception_radius', () => {
@@ -357,9 +712,626 @@ describe('Simulation', () => {
 
       simulation.update();
 
-      expect(mockBoid.separation).toHaveBeenCalledWith(expect.any(Array), 150, expect.any(Number));
-      expect(mockBoid.alignment).toHaveBeenCalledWith(expect.any(Array), 150, expect.any(Number));
-      expect(mockBoid.cohesion).toHaveBeenCalledWith(expect.any(Array), 150, expect.any(Number));
+      expect(mockBoid.gatherNeighbors).toHaveBeenCalledWith(
+        expect.any(Array),
+        150,
+        expect.anything(),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('Seeded spawning', () => {
+    it('should spawn boids inside the canvas', () => {
+      simulation.populate(20);
+
+      expect(simulation.getCount()).toBe(20);
+      for (const boid of simulation.getBoids()) {
+        expect(boid.position.x).toBeGreaterThanOrEqual(0);
+        expect(boid.position.x).toBeLessThan(simulation.width);
+        expect(boid.position.y).toBeGreaterThanOrEqual(0);
+        expect(boid.position.y).toBeLessThan(simulation.height);
+      }
+    });
+
+    it('should spawn the same flock for the same seed', () => {
+      const other = new Simulation(800, 600);
+      simulation.reseed(42);
+      other.reseed(42);
+
+      simulation.populate(10);
+      other.populate(10);
+
+      simulation.getBoids().forEach((boid, i) => {
+        expect(boid.position).toEqual(other.getBoids()[i].position);
+        expect(boid.velocity).toEqual(other.getBoids()[i].velocity);
+      });
+    });
+
+    it('should spawn a different flock for a different seed', () => {
+      const other = new Simulation(800, 600);
+      simulation.reseed(1);
+      other.reseed(2);
+
+      simulation.populate(1);
+      other.populate(1);
+
+      expect(simulation.getBoids()[0].position).not.toEqual(other.getBoids()[0].position);
+    });
+
+    it('should reproduce an identical run after restart', () => {
+      simulation.reseed(7);
+      simulation.populate(30);
+      for (let i = 0; i < 20; i++) simulation.update();
+      const firstRun = simulation.getBoids().map((boid) => boid.position.copy());
+
+      simulation.restart();
+      for (let i = 0; i < 20; i++) simulation.update();
+
+      expect(simulation.getCount()).toBe(30);
+      simulation.getBoids().forEach((boid, i) => {
+        expect(boid.position).toEqual(firstRun[i]);
+      });
+    });
+  });
+
+  describe('Perception', () => {
+    it('should pass the separation radius and view angle in radians', () => {
+      simulation.separation_radius = 40;
+      simulation.view_angle = 270;
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update();
+
+      expect(mockBoid.gatherNeighbors).toHaveBeenCalledWith(
+        expect.anything(),
+        simulation.perception_radius,
+        expect.anything(),
+        { separation_radius: 40, view_angle: (Math.PI * 3) / 2 }
+      );
+    });
+
+    it('should find separation neighbors beyond the perception radius with the grid', () => {
+      simulation.perception_radius = 20;
+      simulation.separation_radius = 150;
+      const left = new Boid(100, 100, 0);
+      const right = new Boid(220, 100, 0);
+      simulation.addBoid(left);
+      simulation.addBoid(right);
+      const gather = jest.spyOn(left, 'gatherNeighbors');
+
+      simulation.update();
+
+      expect(gather.mock.calls[0][0]).toContain(right);
+    });
+  });
+
+  describe('Neighbor strategy', () => {
+    const addRow = (): Boid[] => {
+      const boids = [0, 20, 45, 75, 300].map((dx) => new Boid(100 + dx, 100, 0));
+      boids.forEach((boid) => simulation.addBoid(boid));
+      return boids;
+    };
+
+    it('should hand metric candidates straight to the rules', () => {
+      const boids = addRow();
+      const gather = jest.spyOn(boids[0], 'gatherNeighbors');
+
+      simulation.update();
+
+      expect(gather.mock.calls[0][1]).toBe(simulation.perception_radius);
+      expect(gather.mock.calls[0][0]).toContain(boids[0]);
+    });
+
+    it('should use the k nearest at any distance when topological', () => {
+      simulation.neighbor_strategy = 'topological';
+      simulation.neighbor_count = 4;
+      const boids = addRow();
+      const gather = jest.spyOn(boids[0], 'gatherNeighbors');
+
+      simulation.update();
+
+      const [neighbors, radius, , limits] = gather.mock.calls[0];
+      expect(neighbors).toEqual([boids[1], boids[2], boids[3], boids[4]]);
+      expect(radius).toBe(Infinity);
+      expect(limits?.separation_radius).toBe(Infinity);
+    });
+
+    it('should find topological neighbors outside the grid cells', () => {
+      simulation.neighbor_strategy = 'topological';
+      simulation.neighbor_count = 1;
+      simulation.perception_radius = 20;
+      simulation.separation_radius = 20;
+      const boid = new Boid(100, 100, 0);
+      const far = new Boid(400, 100, 0);
+      simulation.addBoid(boid);
+      simulation.addBoid(far);
+      const gather = jest.spyOn(boid, 'gatherNeighbors');
+
+      simulation.update();
+
+      expect(gather.mock.calls[0][0]).toEqual([far]);
+    });
+
+    it('should take the k nearest and keep the radii when hybrid', () => {
+      simulation.neighbor_strategy = 'hybrid';
+      simulation.neighbor_count = 2;
+      const boids = addRow();
+      const gather = jest.spyOn(boids[0], 'gatherNeighbors');
+
+      simulation.update();
+
+      const [neighbors, radius] = gather.mock.calls[0];
+      expect(neighbors).toEqual([boids[1], boids[2]]);
+      expect(radius).toBe(simulation.perception_radius);
+    });
+
+    it('should pick up a new k on the next step', () => {
+      simulation.neighbor_strategy = 'topological';
+      simulation.neighbor_count = 1;
+      const boids = addRow();
+      const gather = jest.spyOn(boids[0], 'gatherNeighbors');
+
+      simulation.update();
+      simulation.neighbor_count = 3;
+      simulation.update();
+
+      expect(gather.mock.calls[0][0]).toHaveLength(1);
+      expect(gather.mock.calls[1][0]).toHaveLength(3);
+    });
+
+    it('should treat k below one as one nearest neighbor', () => {
+      simulation.neighbor_strategy = 'topological';
+      simulation.neighbor_count = 0;
+      const boids = addRow();
+      const gather = jest.spyOn(boids[0], 'gatherNeighbors');
+
+      expect(() => simulation.update()).not.toThrow();
+      expect(gather.mock.calls[0][0]).toEqual([boids[1]]);
+    });
+  });
+
+  describe('Species', () => {
+    it('should start with a single species where every rule applies', () => {
+      expect(simulation.species).toHaveLength(1);
+      expect(simulation.interactions).toEqual([[createInteraction()]]);
+    });
+
+    it('should scale the global forces by the species weights', () => {
+      simulation.species[0].separation_weight = 2;
+      simulation.species[0].alignment_weight = 0.5;
+      simulation.species[0].cohesion_weight = 0;
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+
+      simulation.update();
+
+      expect(mockBoid.separationFrom).toHaveBeenCalledWith(
+        mockStats,
+        simulation.separation_force * 2
+      );
+      expect(mockBoid.alignmentFrom).toHaveBeenCalledWith(
+        mockStats,
+        simulation.alignment_force * 0.5
+      );
+      expect(mockBoid.cohesionFrom).toHaveBeenCalledWith(mockStats, 0);
+    });
+
+    it('should pass each boid the interactions row of its own species', () => {
+      simulation.addSpecies();
+      const mockBoid = createMockBoid();
+      mockBoid.species = 1;
+      simulation.addBoid(mockBoid as unknown as Boid);
+
+      simulation.update();
+
+      expect(mockBoid.gatherNeighbors).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(Number),
+        simulation.interactions[1],
+        expect.anything()
+      );
+    });
+
+    it('should grow the interaction matrix when adding a species', () => {
+      const index = simulation.addSpecies(createSpecies('Hawks', { color: '#ff0000' }));
+
+      expect(index).toBe(1);
+      expect(simulation.species[1].name).toBe('Hawks');
+      expect(simulation.interactions).toHaveLength(2);
+      simulation.interactions.forEach((row) => expect(row).toHaveLength(2));
+    });
+
+    it('should spawn boids with their species limits', () => {
+      simulation.addSpecies(createSpecies('Fast', { max_speed: 7, max_force: 0.5 }));
+
+      const boid = simulation.spawnBoid(1);
+
+      expect(boid.species).toBe(1);
+      expect(boid.max_speed).toBe(7);
+      expect(boid.max_force).toBe(0.5);
+    });
+
+    it('should set a population count per species', () => {
+      simulation.addSpecies();
+      simulation.setSpeciesCount(0, 10);
+      simulation.setSpeciesCount(1, 5);
+      simulation.setSpeciesCount(0, 4);
+
+      expect(simulation.countSpecies(0)).toBe(4);
+      expect(simulation.countSpecies(1)).toBe(5);
+      expect(simulation.getCount()).toBe(9);
+    });
+
+    it('should copy changed limits onto a species boids only', () => {
+      simulation.addSpecies();
+      const first = simulation.spawnBoid(0);
+      const second = simulation.spawnBoid(1);
+
+      simulation.species[1].max_speed = 9;
+      simulation.applySpeciesLimits(1);
+
+      expect(first.max_speed).toBe(4);
+      expect(second.max_speed).toBe(9);
+    });
+
+    it('should remove a species with its boids and renumber later species', () => {
+      simulation.addSpecies();
+      simulation.addSpecies();
+      simulation.populate(3, 0);
+      simulation.populate(2, 1);
+      simulation.populate(4, 2);
+
+      simulation.removeSpecies(1);
+
+      expect(simulation.species).toHaveLength(2);
+      expect(simulation.interactions).toHaveLength(2);
+      simulation.interactions.forEach((row) => expect(row).toHaveLength(2));
+      expect(simulation.countSpecies(0)).toBe(3);
+      expect(simulation.countSpecies(1)).toBe(4);
+    });
+
+    it('should never remove the last species', () => {
+      simulation.removeSpecies(0);
+
+      expect(simulation.species).toHaveLength(1);
+    });
+
+    it('should keep per-species counts across a restart', () => {
+      simulation.addSpecies();
+      simulation.populate(6, 0);
+      simulation.populate(3, 1);
+
+      simulation.restart();
+
+      expect(simulation.countSpecies(0)).toBe(6);
+      expect(simulation.countSpecies(1)).toBe(3);
+    });
+
+    it('should let a species align only with its own kind', () => {
+      simulation.addSpecies();
+      simulation.interactions[0][1] = createInteraction({ alignment: false, cohesion: false });
+      const boid = new Boid(400, 300, 0);
+      const stranger = new Boid(420, 300, Math.PI / 2);
+      stranger.species = 1;
+      simulation.addBoid(boid);
+      simulation.addBoid(stranger);
+      simulation.separation_force = 0;
+
+      simulation.update();
+
+      // Nothing to align with, so the heading is unchanged
+      expect(boid.velocity.y).toBeCloseTo(0);
+    });
+  });
+
+  describe('Predators', () => {
+    it('should spawn and remove predators to match a count', () => {
+      simulation.setPredatorCount(3);
+      expect(simulation.predators).toHaveLength(3);
+
+      simulation.setPredatorCount(1);
+      expect(simulation.predators).toHaveLength(1);
+    });
+
+    it('should spawn predators at the predator speed', () => {
+      simulation.predator_speed = 7;
+
+      expect(simulation.spawnPredator().max_speed).toBe(7);
+    });
+
+    it('should copy a changed predator speed onto every predator', () => {
+      simulation.setPredatorCount(2);
+
+      simulation.predator_speed = 8;
+      simulation.applyPredatorSpeed();
+
+      simulation.predators.forEach((predator) => expect(predator.max_speed).toBe(8));
+    });
+
+    it('should make boids within the fear radius flee', () => {
+      const mockBoid = createMockBoid() as unknown as Boid;
+      simulation.addBoid(mockBoid);
+      const predator = new Predator(30, 0);
+      simulation.addPredator(predator);
+
+      simulation.update();
+
+      expect(mockBoid.repel).toHaveBeenCalledWith(
+        predator.position,
+        simulation.fear_radius,
+        simulation.fear_force
+      );
+    });
+
+    it('should chase the nearest boid', () => {
+      const near = new Boid(150, 100);
+      const far = new Boid(100, 500);
+      simulation.addBoid(near);
+      simulation.addBoid(far);
+      const predator = new Predator(100, 100, Math.PI / 2);
+      predator.velocity = new Vec2(0, 0);
+      simulation.addPredator(predator);
+
+      simulation.update();
+
+      expect(predator.velocity.x).toBeGreaterThan(0);
+    });
+
+    it('should chase the densest cluster when targeting clusters', () => {
+      simulation.predator_target = 'cluster';
+      // One stray boid close by, a tight group further away
+      simulation.addBoid(new Boid(400, 250, 0));
+      for (let i = 0; i < 5; i++) {
+        simulation.addBoid(new Boid(400 + i * 5, 450, 0));
+      }
+      const predator = new Predator(400, 200);
+      predator.velocity = new Vec2(0, 0);
+      simulation.addPredator(predator);
+
+      simulation.update();
+
+      expect(predator.velocity.y).toBeGreaterThan(0);
+    });
+
+    it('should find the center of the densest cluster', () => {
+      simulation.use_spatial_index = false;
+      simulation.addBoid(new Boid(100, 100));
+      simulation.addBoid(new Boid(600, 400));
+      simulation.addBoid(new Boid(610, 400));
+      simulation.addBoid(new Boid(620, 400));
+
+      const center = simulation.densestClusterCenter();
+      expect(center?.x).toBeCloseTo(610, 0);
+      expect(center?.y).toBeCloseTo(400, 0);
+    });
+
+    it('should not catch boids while catching is off', () => {
+      simulation.addBoid(new Boid(100, 100, 0));
+      simulation.addPredator(new Predator(100, 100, 0));
+
+      simulation.update();
+
+      expect(simulation.getCount()).toBe(1);
+      expect(simulation.catches).toBe(0);
+    });
+
+    it('should remove and count caught boids when catching is on', () => {
+      simulation.predator_catch = true;
+      const prey = new Boid(102, 100, 0);
+      simulation.addBoid(prey);
+      simulation.addBoid(new Boid(600, 400, 0));
+      simulation.addPredator(new Predator(100, 100, 0));
+      const removeBoid = jest.spyOn(simulation, 'removeBoid');
+
+      simulation.update();
+
+      expect(removeBoid).toHaveBeenCalledWith(prey);
+      expect(simulation.getCount()).toBe(1);
+      expect(simulation.catches).toBe(1);
+    });
+
+    it('should keep the predator count across a restart', () => {
+      simulation.populate(5);
+      simulation.setPredatorCount(2);
+
+      simulation.restart();
+
+      expect(simulation.predators).toHaveLength(2);
+      expect(simulation.getCount()).toBe(5);
+    });
+  });
+
+  describe('Inspection', () => {
+    it('should report the forces the next step applies', () => {
+      const boid = new Boid(400, 300);
+      boid.velocity = new Vec2(1, 0);
+      const other = new Boid(420, 300);
+      other.velocity = new Vec2(0, 1);
+      simulation.addBoid(boid);
+      simulation.addBoid(other);
+      const applyForce = jest.spyOn(boid, 'applyForce');
+
+      const [inspection] = simulation.inspect([boid]);
+      simulation.step();
+
+      expect(inspection.boid).toBe(boid);
+      expect(applyForce.mock.calls.slice(0, 3)).toEqual([
+        [inspection.separation],
+        [inspection.alignment],
+        [inspection.cohesion],
+      ]);
+    });
+
+    it('should list flockmates within perception and in view', () => {
+      simulation.perception_radius = 50;
+      simulation.view_angle = 180;
+      const boid = new Boid(400, 300);
+      boid.velocity = new Vec2(1, 0);
+      const ahead = new Boid(430, 300);
+      const behind = new Boid(370, 300);
+      const far = new Boid(600, 300);
+      [boid, ahead, behind, far].forEach((b) => simulation.addBoid(b));
+
+      const [inspection] = simulation.inspect([boid]);
+
+      expect(inspection.neighbors).toEqual([ahead]);
+    });
+
+    it('should list flockmates only the larger separation radius reaches', () => {
+      simulation.perception_radius = 20;
+      simulation.separation_radius = 60;
+      const boid = new Boid(400, 300);
+      const near = new Boid(440, 300);
+      [boid, near].forEach((b) => simulation.addBoid(b));
+
+      const [inspection] = simulation.inspect([boid]);
+
+      expect(inspection.neighbors).toEqual([near]);
+    });
+
+    it('should leave out flockmates whose species no rule applies to', () => {
+      simulation.addSpecies(createSpecies('Other'));
+      simulation.interactions[0][1] = { separation: false, alignment: false, cohesion: false };
+      const boid = new Boid(400, 300);
+      const friend = new Boid(420, 300);
+      const stranger = new Boid(380, 300);
+      stranger.species = 1;
+      [boid, friend, stranger].forEach((b) => simulation.addBoid(b));
+
+      const [inspection] = simulation.inspect([boid]);
+
+      expect(inspection.neighbors).toEqual([friend]);
+    });
+
+    it('should list the k nearest at any distance when topological', () => {
+      simulation.neighbor_strategy = 'topological';
+      simulation.neighbor_count = 2;
+      const boid = new Boid(100, 100);
+      const others = [150, 400, 700].map((x) => new Boid(x, 100));
+      [boid, ...others].forEach((b) => simulation.addBoid(b));
+
+      const [inspection] = simulation.inspect([boid]);
+
+      expect(inspection.neighbors).toEqual([others[0], others[1]]);
+    });
+
+    it('should answer inspected boids from what the last step kept', () => {
+      const boid = new Boid(400, 300);
+      const other = new Boid(420, 300);
+      other.velocity = new Vec2(0, 1);
+      simulation.addBoid(boid);
+      simulation.addBoid(other);
+      simulation.inspected = [boid];
+      const applyForce = jest.spyOn(boid, 'applyForce');
+
+      simulation.step();
+      const gatherNeighbors = jest.spyOn(boid, 'gatherNeighbors');
+      const [inspection] = simulation.inspect([boid]);
+
+      expect(gatherNeighbors).not.toHaveBeenCalled();
+      expect(inspection.neighbors).toEqual([other]);
+      expect(applyForce.mock.calls.slice(0, 3)).toEqual([
+        [inspection.separation],
+        [inspection.alignment],
+        [inspection.cohesion],
+      ]);
+    });
+
+    it('should drop kept flockmates that have since been removed', () => {
+      const boid = new Boid(400, 300);
+      const other = new Boid(420, 300);
+      simulation.addBoid(boid);
+      simulation.addBoid(other);
+      simulation.inspected = 'all';
+      simulation.step();
+
+      simulation.removeBoid(other);
+      const [inspection] = simulation.inspect([boid]);
+
+      expect(inspection.neighbors).toEqual([]);
+    });
+
+    it('should inspect every boid by default without moving any', () => {
+      simulation.populate(5);
+      const positions = simulation.boids.map((boid) => boid.position.copy());
+
+      const inspections = simulation.inspect();
+
+      expect(inspections).toHaveLength(5);
+      expect(simulation.boids.map((boid) => boid.position)).toEqual(positions);
+      expect(simulation.step_count).toBe(0);
+    });
+  });
+
+  describe('Resizing', () => {
+    it('should scale positions and obstacles when remapping', () => {
+      const boid = new Boid(400, 300);
+      simulation.addBoid(boid);
+      simulation.addPredator(new Predator(200, 150));
+      simulation.addObstacle({ kind: 'rect', x: 100, y: 100, width: 50, height: 60 });
+      simulation.addObstacle({ kind: 'polyline', points: [{ x: 0, y: 600 }] });
+
+      simulation.resize(400, 1200);
+
+      expect(simulation.width).toBe(400);
+      expect(simulation.height).toBe(1200);
+      expect(boid.position).toEqual(new Vec2(200, 600));
+      expect(boid.previous_position).toEqual(new Vec2(200, 600));
+      expect(simulation.predators[0].position).toEqual(new Vec2(100, 300));
+      expect(simulation.obstacles[0]).toEqual({
+        kind: 'rect',
+        x: 50,
+        y: 200,
+        width: 25,
+        height: 120,
+      });
+      expect(simulation.obstacles[1]).toEqual({ kind: 'polyline', points: [{ x: 0, y: 1200 }] });
+    });
+
+    it('should pull outside agents to the edge when clamping', () => {
+      const inside = new Boid(100, 100);
+      const outside = new Boid(700, 500);
+      simulation.addBoid(inside);
+      simulation.addBoid(outside);
+      simulation.addObstacle({ kind: 'circle', x: 700, y: 500, radius: 20 });
+
+      simulation.resize(400, 300, 'clamp');
+
+      expect(inside.position).toEqual(new Vec2(100, 100));
+      expect(outside.position).toEqual(new Vec2(400, 300));
+      expect(simulation.obstacles[0]).toEqual({ kind: 'circle', x: 700, y: 500, radius: 20 });
+    });
+
+    it('should ignore sizes that are not positive', () => {
+      simulation.resize(0, 300);
+      simulation.resize(400, NaN);
+
+      expect(simulation.width).toBe(800);
+      expect(simulation.height).toBe(600);
+    });
+
+    it('should clear the pointer, which was placed in the old world', () => {
+      simulation.pointer = new Vec2(10, 10);
+
+      simulation.resize(400, 300);
+
+      expect(simulation.pointer).toBeNull();
+    });
+  });
+
+  describe('Headless core', () => {
+    it('should run with real boids without p5 or a canvas', () => {
+      const boid = new Boid(400, 300);
+      boid.velocity = new Vec2(2, 0);
+      simulation.addBoid(boid);
+      simulation.addBoid(new Boid(420, 300));
+
+      simulation.update();
+
+      expect(boid.position.x).not.toBe(400);
+      expect(boid.position).toBeInstanceOf(Vec2);
     });
   });
 
@@ -0,0 +1,130 @@
+/* eslint-env jest */
+
+import { Boid } from '../../src/boids/Boid';
+import { Boid3D } from '../../src/boids/Boid3D';
+import { Simulation3D } from '../../src/boids/Simulation3D';
+import { Vec3 } from '../../src/math/Vec3';
+
+describe('Boid3D', () => {
+  it('should steer like a 2D boid when the flock lies in a plane', () => {
+    const flat = [new Boid(100, 100, 0), new Boid(130, 110, 1), new Boid(90, 140, 2)];
+    const deep = flat.map(
+      (boid) =>
+        new Boid3D(
+          boid.position.x,
+          boid.position.y,
+          0,
+          new Vec3(boid.velocity.x, boid.velocity.y, 0)
+        )
+    );
+
+    const stats2D = flat[0].gatherNeighbors(flat, 80);
+    const stats3D = deep[0].gatherNeighbors(deep, 80);
+    const pairs = [
+      [flat[0].separationFrom(stats2D, 1.5), deep[0].separationFrom(stats3D, 1.5)],
+      [flat[0].alignmentFrom(stats2D, 1), deep[0].alignmentFrom(stats3D, 1)],
+      [flat[0].cohesionFrom(stats2D, 1), deep[0].cohesionFrom(stats3D, 1)],
+    ] as const;
+
+    for (const [force2D, force3D] of pairs) {
+      expect(force3D.x).toBeCloseTo(force2D.x, 10);
+      expect(force3D.y).toBeCloseTo(force2D.y, 10);
+      expect(force3D.z).toBe(0);
+    }
+  });
+
+  it('should only see neighbors inside its view cone in depth too', () => {
+    const boid = new Boid3D(0, 0, 0, new Vec3(0, 0, 1));
+
+    expect(boid.inView(new Vec3(0, 0, 10), Math.PI / 2)).toBe(true);
+    expect(boid.inView(new Vec3(0, 0, -10), Math.PI / 2)).toBe(false);
+  });
+
+  it('should wrap to the opposite face and shift its previous position', () => {
+    const boid = new Boid3D(50, 50, 101, new Vec3(0, 0, 1));
+    boid.previous_position = new Vec3(50, 50, 99);
+
+    boid.wrapAround(100, 100, 100);
+
+    expect(boid.position.z).toBe(0);
+    expect(boid.previous_position.z).toBe(-2);
+  });
+
+  it('should bounce off the faces of the box', () => {
+    const boid = new Boid3D(50, -3, 50, new Vec3(0, -1, 0));
+
+    boid.bounce(100, 100, 100);
+
+    expect(boid.position.y).toBe(3);
+    expect(boid.velocity.y).toBe(1);
+  });
+});
+
+describe('Simulation3D', () => {
+  it('should keep every boid inside the box', () => {
+    for (const mode of ['wrap', 'bounce'] as const) {
+      const simulation = new Simulation3D(200, 150, 100);
+      simulation.box_mode = mode;
+      simulation.reseed(4);
+      simulation.setCount(40);
+
+      for (let i = 0; i < 120; i++) {
+        simulation.step();
+      }
+
+      for (const boid of simulation.boids) {
+        const { x, y, z } = boid.position;
+        expect(x >= 0 && x <= 200 && y >= 0 && y <= 150 && z >= 0 && z <= 100).toBe(true);
+      }
+    }
+  });
+
+  it('should restart into the same flock from the same seed', () => {
+    const simulation = new Simulation3D(300, 300, 300);
+    simulation.reseed(11);
+    simulation.setCount(10);
+    const start = simulation.boids.map((boid) => boid.position.copy());
+
+    simulation.step();
+    simulation.restart();
+
+    expect(simulation.boids.map((boid) => boid.position)).toEqual(start);
+  });
+
+  it('should add and remove boids to reach a count', () => {
+    const simulation = new Simulation3D(300, 300, 300);
+
+    simulation.setCount(12);
+    expect(simulation.boids).toHaveLength(12);
+    simulation.setCount(5);
+    expect(simulation.boids).toHaveLength(5);
+  });
+
+  it('should cap the flock at MAX_BOIDS', () => {
+    const simulation = new Simulation3D(300, 300, 300);
+
+    simulation.setCount(2000);
+
+    expect(simulation.boids).toHaveLength(Simulation3D.MAX_BOIDS);
+  });
+
+  it('should run fixed steps from real time and interpolate the rest', () => {
+    const simulation = new Simulation3D(300, 300, 300);
+    simulation.setCount(3);
+
+    simulation.update(2.5 / 60);
+
+    expect(simulation.step_count).toBe(2);
+    expect(simulation.alpha).toBeCloseTo(0.5);
+  });
+
+  it('should copy changed limits onto its boids', () => {
+    const simulation = new Simulation3D(300, 300, 300);
+    simulation.setCount(3);
+
+    simulation.max_speed = 6;
+    simulation.applyLimits();
+
+    simulation.boids.forEach((boid) => expect(boid.max_speed).toBe(6));
+  });
+});
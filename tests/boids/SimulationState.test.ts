@@ -0,0 +1,222 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { Predator } from '../../src/boids/Predator';
+import { createSpecies } from '../../src/boids/Species';
+import {
+  STATE_VERSION,
+  StateError,
+  parseState,
+  validateState,
+} from '../../src/boids/SimulationState';
+import { Vec2 } from '../../src/math/Vec2';
+
+/**
+ * A simulation with a bit of everything in it
+ */
+const createBusySimulation = (): Simulation => {
+  const simulation = new Simulation(640, 480);
+  simulation.reseed(99);
+  simulation.separation_force = 2.2;
+  simulation.perception_radius = 75;
+  simulation.boundary_mode = 'bounce';
+  simulation.addSpecies(createSpecies('Hawks', { max_speed: 6, color: '#ff0000' }));
+  simulation.interactions[0][1].alignment = false;
+  simulation.populate(10, 0);
+  simulation.populate(3, 1);
+  simulation.setPredatorCount(1);
+  simulation.addObstacle({ kind: 'circle', x: 100, y: 100, radius: 20 });
+  simulation.addObstacle({
+    kind: 'polyline',
+    points: [
+      { x: 0, y: 0 },
+      { x: 50, y: 50 },
+    ],
+  });
+  simulation.catches = 4;
+  for (let i = 0; i < 5; i++) simulation.update();
+  return simulation;
+};
+
+describe('SimulationState', () => {
+  describe('serialize', () => {
+    it('should tag the snapshot with the schema version', () => {
+      const state = new Simulation(800, 600).serialize();
+
+      expect(state.version).toBe(STATE_VERSION);
+      expect(state.width).toBe(800);
+      expect(state.height).toBe(600);
+    });
+
+    it('should record every boid in full', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.populate(1);
+      const boid = simulation.boids[0];
+      boid.acceleration = new Vec2(0.1, -0.2);
+      boid.max_force = 0.4;
+
+      const [saved] = simulation.serialize().boids;
+
+      expect(saved.position).toEqual({ x: boid.position.x, y: boid.position.y });
+      expect(saved.velocity).toEqual({ x: boid.velocity.x, y: boid.velocity.y });
+      expect(saved.acceleration).toEqual({ x: 0.1, y: -0.2 });
+      expect(saved.max_speed).toBe(boid.max_speed);
+      expect(saved.max_force).toBe(0.4);
+    });
+
+    it('should survive a round trip through JSON text', () => {
+      const json = JSON.stringify(createBusySimulation().serialize());
+
+      expect(JSON.stringify(parseState(json))).toBe(json);
+    });
+
+    it('should not share objects with the simulation', () => {
+      const simulation = createBusySimulation();
+      const state = simulation.serialize();
+
+      state.species[0].size = 99;
+      state.interactions[0][0].separation = false;
+
+      expect(simulation.species[0].size).not.toBe(99);
+      expect(simulation.interactions[0][0].separation).toBe(true);
+    });
+  });
+
+  describe('restore', () => {
+    it('should reproduce the saved run', () => {
+      const original = createBusySimulation();
+      const state = JSON.parse(JSON.stringify(original.serialize()));
+
+      const copy = new Simulation(100, 100);
+      copy.restore(state);
+
+      expect(JSON.stringify(copy.serialize())).toBe(JSON.stringify(original.serialize()));
+      expect(copy.predators[0]).toBeInstanceOf(Predator);
+      expect(copy.boids[0].position).toBeInstanceOf(Vec2);
+    });
+
+    it('should continue exactly like the original', () => {
+      const original = createBusySimulation();
+      const copy = new Simulation(100, 100);
+      copy.restore(JSON.parse(JSON.stringify(original.serialize())));
+
+      for (let i = 0; i < 10; i++) {
+        original.update();
+        copy.update();
+      }
+
+      copy.boids.forEach((boid, i) => {
+        expect(boid.position).toEqual(original.boids[i].position);
+      });
+    });
+
+    it('should leave the simulation untouched when the data is invalid', () => {
+      const simulation = createBusySimulation();
+      const before = simulation.serialize();
+
+      expect(() => simulation.restore({ version: STATE_VERSION })).toThrow(StateError);
+      expect(simulation.serialize()).toEqual(before);
+    });
+
+    it('should ignore unknown parameters in the file', () => {
+      const state = JSON.parse(JSON.stringify(new Simulation(800, 600).serialize()));
+      state.params.not_a_param = 1;
+      const simulation = new Simulation(800, 600);
+
+      simulation.restore(state);
+
+      expect('not_a_param' in simulation).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    const validState = () => JSON.parse(JSON.stringify(createBusySimulation().serialize()));
+
+    it('should reject text that is not JSON', () => {
+      expect(() => parseState('{ nope')).toThrow(/Not valid JSON/);
+    });
+
+    it('should reject data without a version', () => {
+      expect(() => validateState({ boids: [] })).toThrow(/"version" is missing/);
+    });
+
+    it('should explain that an older version is not supported', () => {
+      const state = validState();
+      state.version = 0;
+
+      expect(() => validateState(state)).toThrow(/version 0, which is older/);
+    });
+
+    it('should explain that a newer version is not supported', () => {
+      const state = validState();
+      state.version = STATE_VERSION + 1;
+
+      expect(() => validateState(state)).toThrow(/which is newer/);
+    });
+
+    it('should name the bad field of a boid', () => {
+      const state = validState();
+      state.boids[3].velocity.x = 'fast';
+
+      expect(() => validateState(state)).toThrow('boids[3].velocity.x must be a finite number');
+    });
+
+    it('should reject a parameter outside its options', () => {
+      const state = validState();
+      state.params.boundary_mode = 'teleport';
+
+      expect(() => validateState(state)).toThrow(/params\.boundary_mode must be one of/);
+    });
+
+    it('should reject a parameter outside its range', () => {
+      const state = validState();
+      state.params.perception_radius = 1e9;
+
+      expect(() => validateState(state)).toThrow(
+        'params.perception_radius must be between 10 and 200'
+      );
+    });
+
+    it('should reject a species setting outside its range', () => {
+      const state = validState();
+      state.species[0].max_speed = -5;
+
+      expect(() => validateState(state)).toThrow('species[0].max_speed must be between 1 and 10');
+    });
+
+    it('should reject a missing parameter', () => {
+      const state = validState();
+      delete state.params.perception_radius;
+
+      expect(() => validateState(state)).toThrow(/params\.perception_radius/);
+    });
+
+    it('should reject boids of a species that does not exist', () => {
+      const state = validState();
+      state.boids[0].species = 5;
+
+      expect(() => validateState(state)).toThrow(/boids\[0\]\.species/);
+    });
+
+    it('should reject an interaction matrix of the wrong size', () => {
+      const state = validState();
+      state.interactions[1].pop();
+
+      expect(() => validateState(state)).toThrow(/interactions\[1\]/);
+    });
+
+    it('should reject an obstacle of an unknown kind', () => {
+      const state = validState();
+      state.obstacles[0].kind = 'triangle';
+
+      expect(() => validateState(state)).toThrow(/obstacles\[0\]\.kind/);
+    });
+
+    it('should reject a non-positive canvas size', () => {
+      const state = validState();
+      state.width = 0;
+
+      expect(() => validateState(state)).toThrow('width must be greater than 0');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/* eslint-env jest */
+
+import { Boid } from '../../src/boids/Boid';
+import { Simulation } from '../../src/boids/Simulation';
+import { SpatialGrid } from '../../src/boids/SpatialGrid';
+import { Vec2 } from '../../src/math/Vec2';
+
+/**
+ * Small deterministic generator so flocks are the same on every run
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+/**
+ * Create a flock scattered over the canvas, including a few boids sitting
+ * on or just past the edges
+ */
+const createFlock = (count: number, width: number, height: number): Boid[] => {
+  const random = createRandom(42);
+  const boids: Boid[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const boid = new Boid(random() * width, random() * height);
+    const angle = random() * Math.PI * 2;
+    boid.velocity = new Vec2(Math.cos(angle) * 3, Math.sin(angle) * 3);
+    boids.push(boid);
+  }
+
+  boids.push(new Boid(0, 0), new Boid(width, height), new Boid(-3, height / 2));
+  boids.push(new Boid(width + 2, 10), new Boid(width / 2, -1));
+
+  return boids;
+};
+
+describe('SpatialGrid', () => {
+  describe('query', () => {
+    it('should return boids in the surrounding cells', () => {
+      const grid = new SpatialGrid();
+      const boid = new Boid(150, 150);
+      const neighbor = new Boid(240, 150);
+
+      grid.rebuild([boid, neighbor], 800, 600, 100);
+
+      expect(grid.query(boid.position)).toEqual(expect.arrayContaining([boid, neighbor]));
+    });
+
+    it('should skip boids more than one cell away', () => {
+      const grid = new SpatialGrid();
+      const boid = new Boid(150, 150);
+      const far = new Boid(450, 450);
+
+      grid.rebuild([boid, far], 800, 600, 100);
+
+      expect(grid.query(boid.position)).not.toContain(far);
+    });
+
+    it('should wrap cells across canvas edges', () => {
+      const grid = new SpatialGrid();
+      const left = new Boid(5, 300);
+      const right = new Boid(795, 300);
+
+      grid.rebuild([left, right], 800, 600, 100);
+
+      expect(grid.query(left.position)).toContain(right);
+    });
+
+    it('should place boids outside the canvas into a valid cell', () => {
+      const grid = new SpatialGrid();
+      const outside = new Boid(805, -4);
+
+      grid.rebuild([outside], 800, 600, 100);
+
+      expect(grid.query(new Vec2(10, 10))).toContain(outside);
+    });
+
+    it('should not return a boid twice when the grid is smaller than 3x3', () => {
+      const grid = new SpatialGrid();
+      const boid = new Boid(50, 50);
+
+      grid.rebuild([boid], 200, 200, 150);
+
+      expect(grid.query(boid.position)).toEqual([boid]);
+    });
+
+    it('should handle non-positive cell sizes', () => {
+      const grid = new SpatialGrid();
+      const boid = new Boid(50, 50);
+
+      expect(() => grid.rebuild([boid], 800, 600, -50)).not.toThrow();
+      expect(grid.query(boid.position)).toContain(boid);
+    });
+  });
+
+  describe('describe', () => {
+    it('should count the boids in each cell, row by row', () => {
+      const grid = new SpatialGrid();
+
+      grid.rebuild([new Boid(50, 50), new Boid(60, 40), new Boid(250, 150)], 300, 200, 100);
+
+      expect(grid.describe()).toEqual({
+        cell_size: 100,
+        cols: 3,
+        rows: 2,
+        counts: [2, 0, 0, 0, 0, 1],
+      });
+    });
+
+    it('should be reported by the simulation only while the index is on', () => {
+      const simulation = new Simulation(300, 200);
+      simulation.perception_radius = 100;
+      simulation.separation_radius = 25;
+      simulation.addBoid(new Boid(250, 150));
+
+      expect(simulation.gridCells()?.counts).toEqual([0, 0, 0, 0, 0, 1]);
+      simulation.use_spatial_index = false;
+      expect(simulation.gridCells()).toBeNull();
+    });
+  });
+
+  describe('Equivalence with brute force', () => {
+    const width = 800;
+    const height = 600;
+
+    it.each([25, 60, 100, 250])('should produce the same forces at radius %d', (radius) => {
+      const boids = createFlock(300, width, height);
+      const grid = new SpatialGrid();
+      grid.rebuild(boids, width, height, radius);
+
+      for (const boid of boids) {
+        const neighbors = grid.query(boid.position);
+
+        const pairs = [
+          [boid.separation(neighbors, radius, 1.5), boid.separation(boids, radius, 1.5)],
+          [boid.alignment(neighbors, radius, 1.0), boid.alignment(boids, radius, 1.0)],
+          [boid.cohesion(neighbors, radius, 1.0), boid.cohesion(boids, radius, 1.0)],
+        ];
+
+        for (const [indexed, bruteForce] of pairs) {
+          expect(indexed.x).toBeCloseTo(bruteForce.x, 10);
+          expect(indexed.y).toBeCloseTo(bruteForce.y, 10);
+        }
+      }
+    });
+
+    it('should evolve a simulation the same way as the brute-force path', () => {
+      const indexed = new Simulation(width, height);
+      const bruteForce = new Simulation(width, height);
+      bruteForce.use_spatial_index = false;
+
+      for (const boid of createFlock(200, width, height)) {
+        indexed.addBoid(boid);
+
+        const copy = new Boid(boid.position.x, boid.position.y);
+        copy.velocity = new Vec2(boid.velocity.x, boid.velocity.y);
+        bruteForce.addBoid(copy);
+      }
+
+      for (let step = 0; step < 30; step++) {
+        indexed.update();
+        bruteForce.update();
+      }
+
+      indexed.getBoids().forEach((boid, i) => {
+        const other = bruteForce.getBoids()[i];
+        expect(boid.position.x).toBeCloseTo(other.position.x, 6);
+        expect(boid.position.y).toBeCloseTo(other.position.y, 6);
+      });
+    });
+  });
+});
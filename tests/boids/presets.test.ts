@@ -0,0 +1,104 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { getParams } from '../../src/boids/SimulationState';
+import {
+  BUILT_IN_PRESETS,
+  applyPreset,
+  decodeParams,
+  defaultParams,
+  encodeParams,
+} from '../../src/boids/presets';
+
+describe('presets', () => {
+  describe('BUILT_IN_PRESETS', () => {
+    it('should include the named presets', () => {
+      const names = BUILT_IN_PRESETS.map((preset) => preset.name);
+
+      expect(names).toEqual(
+        expect.arrayContaining(['Default', 'Tight School', 'Murmuration', 'Chaotic Swarm', 'Lanes'])
+      );
+    });
+
+    it('should only use known parameters with valid values', () => {
+      for (const preset of BUILT_IN_PRESETS) {
+        expect(decodeParams(encodeParams(preset.params))).toEqual(preset.params);
+      }
+    });
+  });
+
+  describe('applyPreset', () => {
+    it('should set the preset parameters', () => {
+      const simulation = new Simulation(800, 600);
+      const murmuration = BUILT_IN_PRESETS.find((preset) => preset.name === 'Murmuration')!;
+
+      applyPreset(simulation, murmuration);
+
+      expect(simulation.neighbor_strategy).toBe('topological');
+      expect(simulation.view_angle).toBe(murmuration.params.view_angle);
+    });
+
+    it('should reset parameters the preset leaves out to their defaults', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.perception_radius = 180;
+      simulation.pointer_mode = 'repel';
+
+      applyPreset(simulation, { name: 'Only Cohesion', params: { cohesion_force: 3 } });
+
+      expect(simulation.cohesion_force).toBe(3);
+      expect(simulation.perception_radius).toBe(defaultParams().perception_radius);
+      expect(simulation.pointer_mode).toBe('off');
+    });
+
+    it('should keep the seed', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.reseed(1234);
+
+      applyPreset(simulation, BUILT_IN_PRESETS[0]);
+
+      expect(simulation.seed).toBe(1234);
+    });
+
+    it('should update existing predators to the preset speed', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.setPredatorCount(1);
+
+      applyPreset(simulation, { name: 'Fast Hunters', params: { predator_speed: 9 } });
+
+      expect(simulation.predators[0].max_speed).toBe(9);
+    });
+  });
+
+  describe('URL encoding', () => {
+    it('should round-trip every parameter', () => {
+      const simulation = new Simulation(800, 600);
+      simulation.reseed(77);
+      simulation.separation_force = 2.3;
+      simulation.boundary_mode = 'bounce';
+      simulation.predator_catch = true;
+      const params = getParams(simulation);
+
+      expect(decodeParams(encodeParams(params))).toEqual(params);
+    });
+
+    it('should accept a leading question mark', () => {
+      expect(decodeParams('?cohesion_force=2.5')).toEqual({ cohesion_force: 2.5 });
+    });
+
+    it('should skip unknown keys and invalid values', () => {
+      const params = decodeParams(
+        'cohesion_force=abc&boundary_mode=teleport&predator_catch=maybe&view_angle=&foo=1&neighbor_count=5'
+      );
+
+      expect(params).toEqual({ neighbor_count: 5 });
+    });
+
+    it('should skip numbers outside a parameter’s range', () => {
+      const params = decodeParams(
+        'perception_radius=1e9&separation_force=-2&time_scale=0&neighbor_count=0&seed=-5&fear_radius=300'
+      );
+
+      expect(params).toEqual({ seed: -5, fear_radius: 300 });
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/* eslint-env jest */
+
+import {
+  UsageError,
+  expandGrid,
+  formatResults,
+  parseArgs,
+  runOnce,
+  runSweep,
+} from '../../src/cli/batch';
+
+describe('batch', () => {
+  describe('parseArgs', () => {
+    it('should fill in defaults and sweep the four rule parameters', () => {
+      const options = parseArgs([])!;
+
+      expect(options.steps).toBe(1000);
+      expect(options.seeds).toEqual([1]);
+      expect(options.format).toBe('csv');
+      expect(Object.keys(options.grid).sort()).toEqual(
+        ['alignment_force', 'cohesion_force', 'perception_radius', 'separation_force'].sort()
+      );
+    });
+
+    it('should parse value lists and inclusive ranges', () => {
+      const options = parseArgs([
+        '--cohesion_force',
+        '0.5,1,2',
+        '--perception_radius',
+        '50:100:25',
+        '--alignment_force',
+        '0:0.3:0.1',
+        '--seeds',
+        '1,2,3',
+      ])!;
+
+      expect(options.grid.cohesion_force).toEqual([0.5, 1, 2]);
+      expect(options.grid.perception_radius).toEqual([50, 75, 100]);
+      expect(options.grid.alignment_force).toEqual([0, 0.1, 0.2, 0.3]);
+      expect(options.seeds).toEqual([1, 2, 3]);
+    });
+
+    it('should allow sweeping any numeric parameter', () => {
+      const options = parseArgs(['--view_angle', '180,360'])!;
+
+      expect(options.grid.view_angle).toEqual([180, 360]);
+    });
+
+    it('should pick JSON output from the file extension unless a format is given', () => {
+      expect(parseArgs(['--out', 'runs.json'])!.format).toBe('json');
+      expect(parseArgs(['--out', 'runs.json', '--format', 'csv'])!.format).toBe('csv');
+    });
+
+    it('should return null for --help', () => {
+      expect(parseArgs(['--steps', '10', '--help'])).toBeNull();
+    });
+
+    it.each([
+      [['--bogus', '1']],
+      [['--boundary_mode', 'wrap']],
+      [['--steps']],
+      [['--steps', '-5']],
+      [['--cohesion_force', '1,abc']],
+      [['--perception_radius', '100:50:10']],
+      [['--format', 'xml']],
+      [['--steps', '10', '--warmup', '10']],
+      [['stray']],
+    ])('should reject %j', (args) => {
+      expect(() => parseArgs(args)).toThrow(UsageError);
+    });
+  });
+
+  describe('expandGrid', () => {
+    it('should produce every combination', () => {
+      const combinations = expandGrid({ separation_force: [1, 2], cohesion_force: [0, 1, 2] });
+
+      expect(combinations).toHaveLength(6);
+      expect(combinations).toContainEqual({ separation_force: 2, cohesion_force: 1 });
+    });
+  });
+
+  describe('runOnce', () => {
+    const options = { steps: 30, warmup: 10, boids: 15, width: 400, height: 400 };
+
+    it('should give the same summary for the same seed', () => {
+      const a = runOnce({ cohesion_force: 1.5 }, 7, options);
+      const b = runOnce({ cohesion_force: 1.5 }, 7, options);
+
+      expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+    });
+
+    it('should report metrics in their valid ranges', () => {
+      const { mean, final } = runOnce({}, 3, options);
+
+      for (const metrics of [mean, final]) {
+        expect(metrics.polarization).toBeGreaterThanOrEqual(0);
+        expect(metrics.polarization).toBeLessThanOrEqual(1);
+        expect(metrics.cluster_count).toBeGreaterThanOrEqual(1);
+        expect(metrics.cluster_count).toBeLessThanOrEqual(15);
+      }
+    });
+  });
+
+  describe('runSweep', () => {
+    it('should run each combination with each seed and report progress', () => {
+      const options = parseArgs([
+        '--steps',
+        '5',
+        '--boids',
+        '5',
+        '--cohesion_force',
+        '0,1',
+        '--seeds',
+        '1,2',
+      ])!;
+      const progress = jest.fn();
+
+      const results = runSweep(options, progress);
+
+      expect(results).toHaveLength(4);
+      expect(progress).toHaveBeenLastCalledWith(4, 4);
+      expect(results.map((r) => [r.params.cohesion_force, r.seed])).toEqual([
+        [0, 1],
+        [0, 2],
+        [1, 1],
+        [1, 2],
+      ]);
+    });
+  });
+
+  describe('formatResults', () => {
+    const results = runSweep(parseArgs(['--steps', '3', '--boids', '4', '--seeds', '1,2'])!);
+
+    it('should write one CSV row per run with mean and final columns', () => {
+      const lines = formatResults(results, 'csv').trim().split('\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toContain('seed,separation_force,alignment_force,cohesion_force');
+      expect(lines[0]).toContain('polarization_mean,polarization_final');
+    });
+
+    it('should write JSON that parses back to the results', () => {
+      expect(JSON.parse(formatResults(results, 'json'))).toEqual(results);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/* eslint-env jest */
+import { Random } from '../../src/math/Random';
+
+describe('Random', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new Random(1234);
+    const b = new Random(1234);
+
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new Random(1);
+    const b = new Random(2);
+
+    expect(a.next()).not.toBe(b.next());
+  });
+
+  it('should restart the sequence when reseeded', () => {
+    const random = new Random(99);
+    const first = [random.next(), random.next(), random.next()];
+
+    random.reseed(99);
+
+    expect([random.next(), random.next(), random.next()]).toEqual(first);
+  });
+
+  it('should return floats in [0, 1)', () => {
+    const random = new Random(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should return values within a range', () => {
+    const random = new Random(7);
+
+    for (let i = 0; i < 100; i++) {
+      const value = random.range(-5, 5);
+      expect(value).toBeGreaterThanOrEqual(-5);
+      expect(value).toBeLessThan(5);
+    }
+  });
+
+  it('should return angles in [0, 2π)', () => {
+    const random = new Random(7);
+    const angle = random.angle();
+
+    expect(angle).toBeGreaterThanOrEqual(0);
+    expect(angle).toBeLessThan(Math.PI * 2);
+  });
+});
@@ -0,0 +1,123 @@
+/* eslint-env jest */
+import { Vec2 } from '../../src/math/Vec2';
+
+describe('Vec2', () => {
+  describe('Constructor', () => {
+    it('should default to the zero vector', () => {
+      const v = new Vec2();
+      expect(v.x).toBe(0);
+      expect(v.y).toBe(0);
+    });
+
+    it('should store components', () => {
+      const v = new Vec2(3, -4);
+      expect(v.x).toBe(3);
+      expect(v.y).toBe(-4);
+    });
+  });
+
+  describe('Arithmetic', () => {
+    it('should add and subtract in place', () => {
+      const v = new Vec2(1, 2);
+      const result = v.add(new Vec2(3, 4)).sub(new Vec2(1, 1));
+
+      expect(result).toBe(v);
+      expect(v).toEqual(new Vec2(3, 5));
+    });
+
+    it('should multiply and divide by scalars', () => {
+      const v = new Vec2(2, -6).mult(3).div(2);
+      expect(v).toEqual(new Vec2(3, -9));
+    });
+
+    it('should leave the vector unchanged when dividing by zero', () => {
+      const v = new Vec2(2, 3).div(0);
+      expect(v).toEqual(new Vec2(2, 3));
+    });
+
+    it('should set both components', () => {
+      const v = new Vec2(1, 1).set(7, 8);
+      expect(v).toEqual(new Vec2(7, 8));
+    });
+  });
+
+  describe('Magnitude', () => {
+    it('should compute length and squared length', () => {
+      const v = new Vec2(3, 4);
+      expect(v.mag()).toBe(5);
+      expect(v.magSq()).toBe(25);
+    });
+
+    it('should normalize to unit length', () => {
+      const v = new Vec2(3, 4).normalize();
+      expect(v.mag()).toBeCloseTo(1);
+      expect(v.x).toBeCloseTo(0.6);
+    });
+
+    it('should keep the zero vector when normalizing', () => {
+      const v = new Vec2(0, 0).normalize();
+      expect(v).toEqual(new Vec2(0, 0));
+    });
+
+    it('should limit length without changing direction', () => {
+      const v = new Vec2(30, 40).limit(5);
+      expect(v.x).toBeCloseTo(3);
+      expect(v.y).toBeCloseTo(4);
+    });
+
+    it('should not stretch vectors shorter than the limit', () => {
+      const v = new Vec2(1, 1).limit(5);
+      expect(v).toEqual(new Vec2(1, 1));
+    });
+  });
+
+  describe('Direction', () => {
+    it('should compute heading in radians', () => {
+      expect(new Vec2(0, 1).heading()).toBeCloseTo(Math.PI / 2);
+      expect(new Vec2(-1, 0).heading()).toBeCloseTo(Math.PI);
+    });
+
+    it('should build a unit vector from an angle', () => {
+      const v = Vec2.fromAngle(Math.PI / 2);
+      expect(v.x).toBeCloseTo(0);
+      expect(v.y).toBeCloseTo(1);
+    });
+
+    it('should create random unit vectors', () => {
+      expect(Vec2.random2D().mag()).toBeCloseTo(1);
+    });
+  });
+
+  describe('Products', () => {
+    it('should take the dot product', () => {
+      expect(new Vec2(1, 2).dot(new Vec2(3, -4))).toBe(-5);
+    });
+
+    it('should measure the distance to another point', () => {
+      expect(new Vec2(1, 1).dist(new Vec2(4, 5))).toBe(5);
+    });
+  });
+
+  describe('Static helpers', () => {
+    it('should compute the distance between points', () => {
+      expect(Vec2.dist(new Vec2(1, 1), new Vec2(4, 5))).toBe(5);
+    });
+
+    it('should subtract into a new vector', () => {
+      const a = new Vec2(5, 5);
+      const b = new Vec2(2, 1);
+      const result = Vec2.sub(a, b);
+
+      expect(result).toEqual(new Vec2(3, 4));
+      expect(a).toEqual(new Vec2(5, 5));
+    });
+
+    it('should copy without aliasing', () => {
+      const a = new Vec2(1, 2);
+      const b = a.copy();
+      b.x = 10;
+
+      expect(a.x).toBe(1);
+    });
+  });
+});
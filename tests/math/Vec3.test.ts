@@ -0,0 +1,68 @@
+/* eslint-env jest */
+import { Vec3 } from '../../src/math/Vec3';
+import { Random } from '../../src/math/Random';
+
+describe('Vec3', () => {
+  describe('Arithmetic', () => {
+    it('should add, subtract and scale in place', () => {
+      const v = new Vec3(1, 2, 3);
+      const result = v
+        .add(new Vec3(1, 1, 1))
+        .sub(new Vec3(0, 1, 2))
+        .mult(2);
+
+      expect(result).toBe(v);
+      expect(v).toEqual(new Vec3(4, 4, 4));
+    });
+
+    it('should leave the vector unchanged when dividing by zero', () => {
+      expect(new Vec3(2, 3, 4).div(0)).toEqual(new Vec3(2, 3, 4));
+    });
+  });
+
+  describe('Magnitude', () => {
+    it('should measure length in three dimensions', () => {
+      expect(new Vec3(2, 3, 6).mag()).toBe(7);
+    });
+
+    it('should normalize to unit length and keep zero at zero', () => {
+      expect(new Vec3(0, 0, 5).normalize()).toEqual(new Vec3(0, 0, 1));
+      expect(new Vec3().normalize()).toEqual(new Vec3());
+    });
+
+    it('should limit the length', () => {
+      const v = new Vec3(0, 6, 8).limit(5);
+      expect(v.mag()).toBeCloseTo(5);
+      expect(v.y / v.z).toBeCloseTo(0.75);
+    });
+  });
+
+  describe('Products', () => {
+    it('should take the dot product', () => {
+      expect(new Vec3(1, 2, 3).dot(new Vec3(4, -5, 6))).toBe(12);
+    });
+
+    it('should take a right-handed cross product', () => {
+      expect(new Vec3(1, 0, 0).cross(new Vec3(0, 1, 0))).toEqual(new Vec3(0, 0, 1));
+    });
+
+    it('should measure the distance between points', () => {
+      expect(new Vec3(1, 1, 1).dist(new Vec3(3, 4, 7))).toBe(7);
+      expect(Vec3.dist(new Vec3(), new Vec3(0, 0, -2))).toBe(2);
+    });
+  });
+
+  describe('Directions', () => {
+    it('should turn any pair of numbers into a unit vector', () => {
+      const random = new Random(3);
+      for (let i = 0; i < 20; i++) {
+        expect(Vec3.fromUnit(random.next(), random.next()).mag()).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should cover both poles', () => {
+      expect(Vec3.fromUnit(0, 0).z).toBe(-1);
+      expect(Vec3.fromUnit(1, 0).z).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { Boid } from '../../src/boids/Boid';
+import {
+  SHAPE_TRIANGLES,
+  TrailHistory,
+  boidColors,
+  hsvToRgb,
+  localDensity,
+  parseColor,
+} from '../../src/renderer/Appearance';
+import { Vec2 } from '../../src/math/Vec2';
+
+/**
+ * Add a boid at (x, y) moving with velocity (vx, vy)
+ */
+const addBoid = (simulation: Simulation, x: number, y: number, vx = 1, vy = 0): Boid => {
+  const boid = new Boid(x, y);
+  boid.velocity = new Vec2(vx, vy);
+  simulation.addBoid(boid);
+  return boid;
+};
+
+describe('boidColors', () => {
+  it('should use the species color in species mode', () => {
+    const simulation = new Simulation(400, 300);
+    simulation.species[0].color = '#ff0000';
+    addBoid(simulation, 10, 10);
+
+    expect(boidColors(simulation, 'species')).toEqual([[1, 0, 0]]);
+  });
+
+  it('should go from blue to red as boids approach max speed', () => {
+    const simulation = new Simulation(400, 300);
+    const max_speed = simulation.species[0].max_speed;
+    addBoid(simulation, 10, 10, 0, 0);
+    addBoid(simulation, 20, 20, max_speed, 0);
+
+    const [slow, fast] = boidColors(simulation, 'speed');
+
+    expect(slow[2]).toBeGreaterThan(slow[0]);
+    expect(fast[0]).toBeGreaterThan(fast[2]);
+  });
+
+  it('should give opposite headings different colors', () => {
+    const simulation = new Simulation(400, 300);
+    addBoid(simulation, 10, 10, 1, 0);
+    addBoid(simulation, 20, 20, -1, 0);
+
+    const [east, west] = boidColors(simulation, 'heading');
+
+    expect(east).not.toEqual(west);
+  });
+
+  it('should color crowded boids differently from lone ones', () => {
+    const simulation = new Simulation(400, 300);
+    addBoid(simulation, 100, 100);
+    addBoid(simulation, 105, 100);
+    addBoid(simulation, 100, 105);
+    addBoid(simulation, 350, 250);
+
+    const colors = boidColors(simulation, 'density');
+
+    expect(colors[0]).not.toEqual(colors[3]);
+  });
+});
+
+describe('localDensity', () => {
+  it('should count flockmates within the perception radius', () => {
+    const simulation = new Simulation(400, 300);
+    addBoid(simulation, 100, 100);
+    addBoid(simulation, 110, 100);
+    addBoid(simulation, 350, 250);
+
+    expect(localDensity(simulation.boids, simulation)).toEqual([1, 1, 0]);
+  });
+});
+
+describe('parseColor', () => {
+  it('should read six- and three-digit hex colors', () => {
+    expect(parseColor('#0064c8')).toEqual([0, 100 / 255, 200 / 255]);
+    expect(parseColor('#f00')).toEqual([1, 0, 0]);
+  });
+
+  it('should fall back to the default blue for anything else', () => {
+    expect(parseColor('tomato')).toEqual([0, 100 / 255, 200 / 255]);
+  });
+});
+
+describe('hsvToRgb', () => {
+  it('should convert the primary hues', () => {
+    expect(hsvToRgb(0, 1, 1)).toEqual([1, 0, 0]);
+    expect(hsvToRgb(120, 1, 1)).toEqual([0, 1, 0]);
+    expect(hsvToRgb(240, 1, 1)).toEqual([0, 0, 1]);
+    expect(hsvToRgb(360, 1, 1)).toEqual([1, 0, 0]);
+  });
+});
+
+describe('SHAPE_TRIANGLES', () => {
+  it('should list whole triangles for every shape', () => {
+    for (const triangles of Object.values(SHAPE_TRIANGLES)) {
+      expect(triangles.length % 6).toBe(0);
+      expect(triangles.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('TrailHistory', () => {
+  it('should keep at most the given number of positions per boid', () => {
+    const simulation = new Simulation(400, 300);
+    const boid = addBoid(simulation, 10, 10);
+    const history = new TrailHistory();
+
+    for (let i = 0; i < 5; i++) {
+      boid.position = new Vec2(10 + i, 10);
+      history.record(simulation.boids, 3, 400, 300);
+    }
+
+    expect(history.get(boid).map((point) => point.x)).toEqual([12, 13, 14]);
+  });
+
+  it('should restart a trail when its boid wraps around an edge', () => {
+    const simulation = new Simulation(400, 300);
+    const boid = addBoid(simulation, 398, 10);
+    const history = new TrailHistory();
+
+    history.record(simulation.boids, 10, 400, 300);
+    boid.position = new Vec2(2, 10);
+    history.record(simulation.boids, 10, 400, 300);
+
+    expect(history.get(boid)).toHaveLength(1);
+  });
+
+  it('should forget boids that were removed', () => {
+    const simulation = new Simulation(400, 300);
+    const boid = addBoid(simulation, 10, 10);
+    const history = new TrailHistory();
+
+    history.record(simulation.boids, 10, 400, 300);
+    history.record([], 10, 400, 300);
+
+    expect(history.get(boid)).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/* eslint-env jest */
+
+import { Camera } from '../../src/renderer/Camera';
+import { Vec2 } from '../../src/math/Vec2';
+
+describe('Camera', () => {
+  it('should map a world of the screen size one to one', () => {
+    const camera = new Camera(800, 600);
+
+    camera.fit(800, 600);
+
+    expect(camera.scale).toBe(1);
+    expect(camera.toScreen(100, 200)).toEqual(new Vec2(100, 200));
+  });
+
+  it('should scale a bigger world down and center it', () => {
+    const camera = new Camera(800, 600);
+
+    camera.fit(400, 400);
+
+    expect(camera.scale).toBe(1.5);
+    expect(camera.offset_x).toBe(100);
+    expect(camera.offset_y).toBe(0);
+    expect(camera.toScreen(0, 400)).toEqual(new Vec2(100, 600));
+  });
+
+  it('should invert its own mapping', () => {
+    const camera = new Camera(1024, 700);
+    camera.fit(800, 800);
+
+    const screen = camera.toScreen(123, 456);
+    const world = camera.toWorld(screen.x, screen.y);
+
+    expect(world.x).toBeCloseTo(123);
+    expect(world.y).toBeCloseTo(456);
+  });
+
+  it('should ignore screen sizes that are not positive', () => {
+    const camera = new Camera(800, 600);
+
+    camera.setScreen(0, 600, 2);
+
+    expect(camera.screen_width).toBe(800);
+    expect(camera.pixel_density).toBe(1);
+  });
+});
+
+describe('Camera zoom and pan', () => {
+  it('should keep the world point under the pointer while zooming', () => {
+    const camera = new Camera(800, 600);
+    camera.fit(800, 600);
+    const before = camera.toWorld(200, 150);
+
+    camera.zoomAt(200, 150, 2);
+    const after = camera.toWorld(200, 150);
+
+    expect(camera.zoom).toBe(2);
+    expect(camera.scale).toBe(2);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  it('should limit the zoom range', () => {
+    const camera = new Camera(800, 600);
+    camera.fit(800, 600);
+
+    camera.zoomAt(0, 0, 1000);
+    expect(camera.zoom).toBe(20);
+    camera.zoomAt(0, 0, 0.0001);
+    expect(camera.zoom).toBe(0.5);
+  });
+
+  it('should drag the world along with the pointer', () => {
+    const camera = new Camera(800, 600);
+    camera.fit(800, 600);
+    camera.zoomAt(400, 300, 2);
+    const grabbed = camera.toWorld(100, 100);
+
+    camera.pan(50, -20);
+    const moved = camera.toWorld(150, 80);
+
+    expect(moved.x).toBeCloseTo(grabbed.x);
+    expect(moved.y).toBeCloseTo(grabbed.y);
+  });
+
+  it('should center on a chosen world point', () => {
+    const camera = new Camera(800, 600);
+    camera.center = new Vec2(100, 50);
+
+    camera.fit(800, 600);
+
+    expect(camera.toScreen(100, 50)).toEqual(new Vec2(400, 300));
+  });
+
+  it('should show the whole world again after a reset', () => {
+    const camera = new Camera(800, 600);
+    camera.fit(400, 400);
+    camera.zoomAt(10, 10, 3);
+    camera.pan(30, 30);
+
+    camera.reset();
+
+    expect(camera.zoom).toBe(1);
+    expect(camera.scale).toBe(1.5);
+    expect(camera.offset_x).toBe(100);
+  });
+});
@@ -0,0 +1,48 @@
+/* eslint-env jest */
+
+import { FrameStats, createDebugOptions } from '../../src/renderer/Debug';
+
+describe('createDebugOptions', () => {
+  it('should start with every layer off', () => {
+    expect(Object.values(createDebugOptions()).every((enabled) => !enabled)).toBe(true);
+  });
+});
+
+describe('FrameStats', () => {
+  it('should take the first frame as is', () => {
+    const stats = new FrameStats();
+
+    stats.record(20, 4, 6, 10);
+
+    expect(stats.frame_ms).toBe(20);
+    expect(stats.fps).toBe(50);
+    expect(stats.update_ms).toBe(4);
+    expect(stats.draw_ms).toBe(6);
+  });
+
+  it('should smooth later frames toward the new timings', () => {
+    const stats = new FrameStats();
+    stats.record(20, 4, 6, 0);
+
+    stats.record(10, 4, 6, 2);
+
+    expect(stats.frame_ms).toBeLessThan(20);
+    expect(stats.frame_ms).toBeGreaterThan(10);
+  });
+
+  it('should count the steps each frame from the step count', () => {
+    const stats = new FrameStats();
+    stats.record(16, 2, 3, 5);
+
+    for (let i = 1; i <= 200; i++) {
+      stats.record(16, 2, 3, 5 + i * 2);
+    }
+
+    expect(stats.steps_per_frame).toBeCloseTo(2, 3);
+    expect(stats.lines()).toContain('step 1.00 ms');
+  });
+
+  it('should report 0 fps before any frame', () => {
+    expect(new FrameStats().fps).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+/* eslint-env jest */
+
+import { Exporter } from '../../src/renderer/Exporter';
+import { crc32, zipFiles } from '../../src/renderer/zip';
+
+/**
+ * Canvas whose toBlob yields a tiny fake PNG (jsdom can't encode images)
+ */
+const createFrame = (): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.toBlob = (callback: BlobCallback) =>
+    callback(new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' }));
+  return canvas;
+};
+
+/**
+ * Let pending promise callbacks run
+ */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Read a blob's bytes (via FileReader, since jsdom's Blob has no
+ * arrayBuffer)
+ */
+const readBuffer = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const readBytes = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await readBuffer(blob));
+
+/**
+ * Bytes of an ASCII string
+ */
+const ascii = (text: string): Uint8Array => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+beforeAll(() => {
+  Blob.prototype.arrayBuffer ??= function (this: Blob) {
+    return readBuffer(this);
+  };
+});
+
+describe('Exporter', () => {
+  it('should only fix the timestep while recording', () => {
+    const exporter = new Exporter();
+    exporter.options = { format: 'frames', fixed_timestep: true, fps: 25 };
+
+    expect(exporter.frameTime(0.1)).toBe(0.1);
+    exporter.start();
+    expect(exporter.frameTime(0.1)).toBe(1 / 25);
+    exporter.options.fixed_timestep = false;
+    expect(exporter.frameTime(0.1)).toBe(0.1);
+  });
+
+  it('should take a requested snapshot from the next captured frame', async () => {
+    const exporter = new Exporter();
+    const snapshot = exporter.snapshot();
+
+    expect(exporter.wantsFrame).toBe(true);
+    exporter.capture(createFrame());
+
+    const blob = await snapshot;
+    expect(blob?.type).toBe('image/png');
+    expect(exporter.wantsFrame).toBe(false);
+  });
+
+  it('should export captured frames as a zip of PNGs', async () => {
+    const exporter = new Exporter();
+    exporter.options.format = 'frames';
+
+    exporter.start();
+    for (let i = 0; i < 3; i++) {
+      exporter.capture(createFrame());
+    }
+    const result = await exporter.stop();
+
+    expect(result?.filename).toBe('boids-frames.zip');
+    const bytes = await readBytes(result!.blob);
+    const view = new DataView(bytes.buffer);
+    // The end record counts the entries
+    expect(view.getUint16(bytes.length - 22 + 10, true)).toBe(3);
+    expect(exporter.status).toBe('Exported 3 frames');
+    expect(exporter.active).toBe(false);
+  });
+
+  it('should explain when WebM recording is unsupported', () => {
+    const exporter = new Exporter();
+
+    exporter.start();
+
+    expect(exporter.active).toBe(false);
+    expect(exporter.status).toMatch(/not supported/);
+  });
+
+  describe('with MediaRecorder', () => {
+    const requestFrame = jest.fn();
+    const getContext = HTMLCanvasElement.prototype.getContext;
+    let recorder: {
+      mimeType: string;
+      start: jest.Mock;
+      stop: jest.Mock;
+      ondataavailable: ((event: { data: Blob }) => void) | null;
+      onstop: (() => void) | null;
+    };
+
+    beforeEach(() => {
+      requestFrame.mockClear();
+      HTMLCanvasElement.prototype.captureStream = jest.fn(() => ({
+        getVideoTracks: () => [{ requestFrame }],
+      })) as unknown as HTMLCanvasElement['captureStream'];
+      HTMLCanvasElement.prototype.getContext = jest.fn(() => ({
+        drawImage: jest.fn(),
+      })) as unknown as HTMLCanvasElement['getContext'];
+
+      const FakeRecorder = jest.fn((_stream: unknown, options: { mimeType: string }) => {
+        recorder = {
+          mimeType: options.mimeType,
+          start: jest.fn(),
+          stop: jest.fn(() => {
+            recorder.ondataavailable?.({ data: new Blob(['video']) });
+            recorder.onstop?.();
+          }),
+          ondataavailable: null,
+          onstop: null,
+        };
+        return recorder;
+      });
+      (FakeRecorder as unknown as { isTypeSupported: unknown }).isTypeSupported = (type: string) =>
+        type === 'video/webm';
+      (globalThis as Record<string, unknown>).MediaRecorder = FakeRecorder;
+    });
+
+    afterEach(() => {
+      delete (globalThis as Record<string, unknown>).MediaRecorder;
+      delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>).captureStream;
+      HTMLCanvasElement.prototype.getContext = getContext;
+    });
+
+    it('should push one video frame per 1 / fps of real time at a fixed timestep', async () => {
+      const exporter = new Exporter();
+      exporter.options.fps = 30;
+
+      exporter.start();
+      // Drawing at 60 Hz: every other frame covers one export frame
+      const steps = [];
+      for (let i = 0; i < 4; i++) {
+        steps.push(exporter.frameTime(1 / 60));
+        exporter.capture(createFrame());
+      }
+      await flush();
+
+      expect(recorder.mimeType).toBe('video/webm');
+      expect(recorder.start).toHaveBeenCalled();
+      expect(steps[0] + steps[1] + steps[2] + steps[3]).toBeCloseTo(4 / 60);
+      expect(steps.filter((dt) => dt > 0)).toHaveLength(2);
+      expect(requestFrame).toHaveBeenCalledTimes(2);
+
+      const result = await exporter.stop();
+      expect(result?.filename).toBe('boids.webm');
+      expect(result?.blob.type).toBe('video/webm');
+    });
+
+    it('should advance by every export frame a slow page skipped', () => {
+      const exporter = new Exporter();
+      exporter.options.fps = 30;
+
+      exporter.start();
+
+      expect(exporter.frameTime(0.1)).toBeCloseTo(3 / 30);
+      exporter.capture(createFrame());
+      expect(requestFrame).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('zipFiles', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(ascii('hello'))).toBe(0x3610a686);
+  });
+
+  it('should store each file after its local header', () => {
+    const data = ascii('hello');
+    const bytes = zipFiles([{ name: 'a.txt', data }]);
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(bytes.subarray(30, 35)).toEqual(ascii('a.txt'));
+    expect(bytes.subarray(35, 40)).toEqual(data);
+    // The end record points at the central directory
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014b50);
+  });
+});
@@ -0,0 +1,164 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { Boid } from '../../src/boids/Boid';
+import { Predator } from '../../src/boids/Predator';
+import { InstancedBoids } from '../../src/renderer/InstancedBoids';
+import { createAppearance } from '../../src/renderer/Appearance';
+import { Camera } from '../../src/renderer/Camera';
+import { Vec2 } from '../../src/math/Vec2';
+
+/**
+ * Mock WebGL2 context: every method is a jest.fn, shaders always compile,
+ * and attributes get consecutive locations
+ */
+const createMockGl = (options: { compiles?: boolean } = {}) => {
+  let nextLocation = 0;
+  const gl: Record<string, unknown> = {
+    ARRAY_BUFFER: 1,
+    STATIC_DRAW: 2,
+    DYNAMIC_DRAW: 3,
+    FLOAT: 4,
+    TRIANGLES: 5,
+    COLOR_BUFFER_BIT: 6,
+    VERTEX_SHADER: 7,
+    FRAGMENT_SHADER: 8,
+    COMPILE_STATUS: 9,
+    LINK_STATUS: 10,
+    getShaderParameter: jest.fn(() => options.compiles ?? true),
+    getProgramParameter: jest.fn(() => true),
+    getAttribLocation: jest.fn(() => nextLocation++),
+  };
+  return new Proxy(gl, {
+    get: (target, key: string) => {
+      if (!(key in target)) target[key] = jest.fn(() => ({}));
+      return target[key];
+    },
+  }) as unknown as Record<string, jest.Mock>;
+};
+
+/**
+ * Canvas whose getContext returns the given mock
+ */
+const createCanvas = (gl: unknown): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.getContext = jest.fn(() => gl) as unknown as HTMLCanvasElement['getContext'];
+  return canvas;
+};
+
+/**
+ * Camera showing a world of the given size on a canvas of the same size
+ */
+const createCamera = (width: number, height: number): Camera => {
+  const camera = new Camera(width, height);
+  camera.fit(width, height);
+  return camera;
+};
+
+describe('InstancedBoids', () => {
+  it('should return null without WebGL2', () => {
+    expect(InstancedBoids.create(createCanvas(null))).toBeNull();
+  });
+
+  it('should return null when the shaders fail to compile', () => {
+    const gl = createMockGl({ compiles: false });
+
+    expect(InstancedBoids.create(createCanvas(gl))).toBeNull();
+  });
+
+  it('should advance the per-agent attributes once per instance', () => {
+    const gl = createMockGl();
+    InstancedBoids.create(createCanvas(gl));
+
+    // a_vertex per vertex, then position, angle, size and color per instance
+    expect(gl.vertexAttribDivisor.mock.calls).toEqual([
+      [0, 0],
+      [1, 1],
+      [2, 1],
+      [3, 1],
+      [4, 1],
+    ]);
+  });
+
+  it('should draw every boid and predator in one instanced call', () => {
+    const gl = createMockGl();
+    const layer = InstancedBoids.create(createCanvas(gl))!;
+    const simulation = new Simulation(400, 300);
+    simulation.populate(25);
+    simulation.addPredator(new Predator(10, 10));
+
+    layer.draw(simulation, createAppearance(), createCamera(400, 300));
+
+    expect(gl.drawArraysInstanced).toHaveBeenCalledTimes(1);
+    expect(gl.drawArraysInstanced).toHaveBeenCalledWith(gl.TRIANGLES, 0, 3, 26);
+    expect(gl.uniform2f).toHaveBeenCalledWith(expect.anything(), 400, 300);
+  });
+
+  it('should pass the camera transform to the shader', () => {
+    const gl = createMockGl();
+    const layer = InstancedBoids.create(createCanvas(gl))!;
+    const simulation = new Simulation(400, 300);
+    simulation.populate(1);
+    const camera = new Camera(1000, 300);
+    camera.fit(400, 300);
+
+    layer.draw(simulation, createAppearance(), camera);
+
+    expect(gl.uniform2f).toHaveBeenCalledWith(expect.anything(), 1000, 300);
+    expect(gl.uniform3f).toHaveBeenCalledWith(expect.anything(), 1, 300, 0);
+  });
+
+  it('should upload interpolated position, heading, size and color', () => {
+    const gl = createMockGl();
+    const layer = InstancedBoids.create(createCanvas(gl))!;
+    const simulation = new Simulation(400, 300);
+    simulation.species[0].color = '#ff8000';
+    simulation.species[0].size = 6;
+    const boid = new Boid(100, 50);
+    boid.previous_position = new Vec2(90, 50);
+    boid.velocity = new Vec2(0, 2);
+    simulation.addBoid(boid);
+    simulation.alpha = 0.5;
+
+    layer.draw(simulation, createAppearance(), createCamera(400, 300));
+
+    const calls = gl.bufferData.mock.calls;
+    const data = calls[calls.length - 1][1] as Float32Array;
+    expect(Array.from(data)).toEqual([
+      95,
+      50,
+      expect.closeTo(Math.PI / 2),
+      6,
+      1,
+      expect.closeTo(128 / 255),
+      0,
+    ]);
+  });
+
+  it('should draw the chosen shape at the chosen scale', () => {
+    const gl = createMockGl();
+    const layer = InstancedBoids.create(createCanvas(gl))!;
+    const simulation = new Simulation(400, 300);
+    simulation.species[0].size = 6;
+    simulation.addBoid(new Boid(100, 50));
+    const appearance = { ...createAppearance(), shape: 'dart' as const, size_scale: 2 };
+
+    layer.draw(simulation, appearance, createCamera(400, 300));
+
+    // Two triangles per dart
+    expect(gl.drawArraysInstanced).toHaveBeenCalledWith(gl.TRIANGLES, 0, 6, 1);
+    const calls = gl.bufferData.mock.calls;
+    const data = calls[calls.length - 1][1] as Float32Array;
+    expect(data[3]).toBe(12);
+  });
+
+  it('should only clear when there is nothing to draw', () => {
+    const gl = createMockGl();
+    const layer = InstancedBoids.create(createCanvas(gl))!;
+
+    layer.draw(new Simulation(400, 300), createAppearance(), createCamera(400, 300));
+
+    expect(gl.clear).toHaveBeenCalled();
+    expect(gl.drawArraysInstanced).not.toHaveBeenCalled();
+  });
+});
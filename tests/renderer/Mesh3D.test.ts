@@ -0,0 +1,44 @@
+/* eslint-env jest */
+
+import { Vec3 } from '../../src/math/Vec3';
+import { MESH_TRIANGLES, orientation } from '../../src/renderer/Mesh3D';
+
+/**
+ * Rotate a vector around a unit axis (Rodrigues' formula)
+ */
+const rotate = (v: Vec3, axis: Vec3, angle: number): Vec3 => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return v
+    .copy()
+    .mult(cos)
+    .add(axis.cross(v).mult(sin))
+    .add(axis.copy().mult(axis.dot(v) * (1 - cos)));
+};
+
+describe('orientation', () => {
+  it.each([[new Vec3(0, 3, 0)], [new Vec3(1, -2, 4)], [new Vec3(-5, 0, 0)], [new Vec3(2, 0, 0)]])(
+    'should turn +x towards %p',
+    (direction) => {
+      const { angle, axis } = orientation(direction);
+      const turned = rotate(new Vec3(1, 0, 0), axis, angle);
+      const unit = direction.copy().normalize();
+
+      expect(turned.x).toBeCloseTo(unit.x, 10);
+      expect(turned.y).toBeCloseTo(unit.y, 10);
+      expect(turned.z).toBeCloseTo(unit.z, 10);
+    }
+  );
+
+  it('should leave a boid that isn’t moving unrotated', () => {
+    expect(orientation(new Vec3()).angle).toBe(0);
+  });
+});
+
+describe('MESH_TRIANGLES', () => {
+  it.each(Object.entries(MESH_TRIANGLES))('should give whole %s triangles', (_, triangles) => {
+    expect(triangles.length % 9).toBe(0);
+    expect(Math.max(...triangles)).toBeLessThanOrEqual(1);
+    expect(Math.min(...triangles)).toBeGreaterThanOrEqual(-1);
+  });
+});
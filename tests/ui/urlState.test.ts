@@ -0,0 +1,73 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { createInteraction, createSpecies } from '../../src/boids/Species';
+import { encodeUrlConfig, readUrlConfig } from '../../src/ui/urlState';
+
+describe('urlState', () => {
+  it('should round-trip the predator count', () => {
+    const simulation = new Simulation(400, 300);
+    simulation.populate(10);
+    simulation.setPredatorCount(3);
+
+    const config = readUrlConfig(encodeUrlConfig(simulation));
+
+    expect(config.boid_count).toBe(10);
+    expect(config.predator_count).toBe(3);
+  });
+
+  it('should round-trip an empty flock', () => {
+    const simulation = new Simulation(400, 300);
+
+    expect(readUrlConfig(encodeUrlConfig(simulation)).boid_count).toBe(0);
+    expect(readUrlConfig('?seed=3').boid_count).toBeUndefined();
+  });
+
+  it('should leave species out of the link for the default flock', () => {
+    const simulation = new Simulation(400, 300);
+    simulation.populate(10);
+
+    expect(encodeUrlConfig(simulation)).not.toContain('species=');
+    expect(encodeUrlConfig(simulation)).not.toContain('predators=');
+  });
+
+  it('should round-trip species, their interactions and counts', () => {
+    const simulation = new Simulation(400, 300);
+    simulation.addSpecies(createSpecies('Hawks', { max_speed: 6, color: '#ff0000' }));
+    simulation.interactions[1][0] = createInteraction({ alignment: false });
+    simulation.populate(4, 0);
+    simulation.populate(2, 1);
+
+    const config = readUrlConfig(encodeUrlConfig(simulation));
+
+    expect(config.species).toEqual({
+      species: simulation.species,
+      interactions: simulation.interactions,
+      counts: [4, 2],
+    });
+  });
+
+  it('should skip malformed species and out-of-range predator counts', () => {
+    const badRow = encodeURIComponent(
+      JSON.stringify({ species: [createSpecies('A')], interactions: [[]], counts: [5] })
+    );
+
+    const config = readUrlConfig(`?species=${badRow}&predators=50`);
+
+    expect(config.species).toBeUndefined();
+    expect(config.predator_count).toBeUndefined();
+    expect(readUrlConfig('?species=%7Bnope').species).toBeUndefined();
+  });
+
+  it('should skip species with settings outside their ranges', () => {
+    const fast = encodeURIComponent(
+      JSON.stringify({
+        species: [createSpecies('A', { max_speed: 1e9 })],
+        interactions: [[createInteraction()]],
+        counts: [5],
+      })
+    );
+
+    expect(readUrlConfig(`?species=${fast}`).species).toBeUndefined();
+  });
+});
@@ -0,0 +1,317 @@
+/* eslint-env jest */
+
+import { Simulation } from '../../src/boids/Simulation';
+import { Boid } from '../../src/boids/Boid';
+import { SimulationHost } from '../../src/worker/SimulationHost';
+import { SimulationRunner } from '../../src/worker/SimulationRunner';
+import { WorkerSimulation } from '../../src/worker/WorkerSimulation';
+import { FromWorker, ToWorker } from '../../src/worker/protocol';
+
+/**
+ * Stand-in for a Worker that runs a SimulationHost in-process. Messages
+ * each way are queued until `flush()`, like the real event loop would.
+ */
+class FakeWorker {
+  host = new SimulationHost((message) => this.outbox.push(message));
+  sent: ToWorker[] = [];
+  outbox: FromWorker[] = [];
+  terminated = false;
+  onmessage: ((event: { data: FromWorker }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  postMessage(message: ToWorker): void {
+    this.sent.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  /**
+   * Let the worker handle everything sent, then deliver its replies
+   */
+  flush(): void {
+    for (const message of this.sent.splice(0)) {
+      this.host.handle(message);
+    }
+    for (const message of this.outbox.splice(0)) {
+      this.onmessage?.({ data: message });
+    }
+  }
+}
+
+/**
+ * A seeded flock mirrored into a fake worker
+ */
+const createRemote = () => {
+  const simulation = new Simulation(400, 300);
+  simulation.reseed(9);
+  simulation.populate(12);
+  const worker = new FakeWorker();
+  const remote = new WorkerSimulation(simulation, worker as unknown as Worker);
+  return { simulation, worker, remote };
+};
+
+describe('WorkerSimulation', () => {
+  it('should send the whole state on start', () => {
+    const { simulation, worker } = createRemote();
+    worker.flush();
+
+    expect(worker.host.simulation.boids).toHaveLength(12);
+    expect(worker.host.simulation.width).toBe(simulation.width);
+  });
+
+  it('should carry on from the mirror’s step count', () => {
+    const simulation = new Simulation(400, 300);
+    simulation.populate(5);
+    for (let i = 0; i < 40; i++) simulation.step();
+    const worker = new FakeWorker();
+    const remote = new WorkerSimulation(simulation, worker as unknown as Worker);
+
+    worker.flush();
+    expect(worker.host.simulation.step_count).toBe(40);
+
+    remote.update(Simulation.FIXED_DT);
+    worker.flush();
+    expect(simulation.step_count).toBe(41);
+  });
+
+  it('should copy the worker’s agents onto the mirror after each update', () => {
+    const { simulation, worker, remote } = createRemote();
+
+    for (let i = 0; i < 5; i++) {
+      remote.update(Simulation.FIXED_DT);
+      worker.flush();
+    }
+
+    expect(simulation.step_count).toBe(5);
+    simulation.boids.forEach((boid, i) => {
+      const actual = worker.host.simulation.boids[i];
+      expect(boid.position.x).toBeCloseTo(actual.position.x, 3);
+      expect(boid.position.y).toBeCloseTo(actual.position.y, 3);
+      expect(boid.velocity.x).toBeCloseTo(actual.velocity.x, 3);
+    });
+  });
+
+  it('should report how long the worker’s update took', () => {
+    const { worker, remote } = createRemote();
+
+    remote.update(Simulation.FIXED_DT);
+    worker.flush();
+
+    expect(Number.isFinite(remote.update_ms)).toBe(true);
+    expect(remote.update_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should forward only changed parameters', () => {
+    const { simulation, worker, remote } = createRemote();
+    worker.flush();
+
+    simulation.cohesion_force = 2.5;
+    remote.update(0);
+
+    expect(worker.sent[0]).toEqual({ type: 'params', params: { cohesion_force: 2.5 } });
+    worker.flush();
+    expect(worker.host.simulation.cohesion_force).toBe(2.5);
+  });
+
+  it('should forward pointer moves', () => {
+    const { simulation, worker, remote } = createRemote();
+    worker.flush();
+
+    simulation.pointer = simulation.boids[0].position.copy();
+    remote.update(0);
+    worker.flush();
+
+    expect(worker.host.simulation.pointer).toEqual(simulation.pointer);
+  });
+
+  it('should resend the whole state after other edits and ignore stale frames', () => {
+    const { simulation, worker, remote } = createRemote();
+    worker.flush();
+
+    remote.update(Simulation.FIXED_DT);
+    // The worker answers this update before it sees the edit below
+    worker.host.handle(worker.sent.pop()!);
+    simulation.populate(3);
+    remote.update(Simulation.FIXED_DT);
+    worker.flush();
+
+    expect(simulation.boids).toHaveLength(15);
+    expect(worker.host.simulation.boids).toHaveLength(15);
+  });
+
+  it('should keep one update in flight and carry real time over', () => {
+    const { worker, remote } = createRemote();
+
+    remote.update(0.01);
+    remote.update(0.02);
+    remote.update(0.03);
+    const updates = worker.sent.filter((message) => message.type === 'update');
+    worker.flush();
+    remote.update(0.04);
+    const next = worker.sent.find((message) => message.type === 'update');
+
+    expect(updates).toHaveLength(1);
+    expect(next).toMatchObject({ dt: 0.02 + 0.03 + 0.04 });
+  });
+
+  it('should hand the frame buffers back for reuse', () => {
+    const { worker, remote } = createRemote();
+    remote.update(0);
+    worker.flush();
+
+    remote.update(0);
+    const update = worker.sent.find((message) => message.type === 'update');
+
+    expect(update).toMatchObject({ type: 'update' });
+    expect((update as { buffers: unknown }).buffers).not.toBeNull();
+  });
+
+  it('should drop boids the worker removed', () => {
+    const { simulation, worker, remote } = createRemote();
+    worker.flush();
+
+    const host = worker.host.simulation;
+    host.removeBoid(host.boids[3] as Boid);
+    remote.update(0);
+    worker.flush();
+
+    expect(simulation.boids).toHaveLength(11);
+  });
+
+  it('should not advance the worker while paused', () => {
+    const { simulation, worker, remote } = createRemote();
+    worker.flush();
+
+    simulation.paused = true;
+    remote.update(Simulation.FIXED_DT);
+    worker.flush();
+    simulation.paused = false;
+    remote.update(0);
+    worker.flush();
+
+    expect(worker.host.simulation.step_count).toBe(0);
+    expect(simulation.step_count).toBe(0);
+  });
+
+  it('should run single steps in the worker, even while paused', () => {
+    const { simulation, worker, remote } = createRemote();
+    worker.flush();
+
+    simulation.paused = true;
+    remote.singleStep();
+    worker.flush();
+
+    expect(worker.host.simulation.step_count).toBe(1);
+    expect(simulation.step_count).toBe(1);
+    expect(simulation.alpha).toBe(1);
+  });
+
+  it('should forward a catch count reset', () => {
+    const { simulation, worker, remote } = createRemote();
+    worker.flush();
+
+    worker.host.simulation.catches = 4;
+    remote.update(0);
+    worker.flush();
+    expect(simulation.catches).toBe(4);
+
+    simulation.catches = 0;
+    remote.update(0);
+    worker.flush();
+
+    expect(worker.host.simulation.catches).toBe(0);
+    expect(simulation.catches).toBe(0);
+  });
+
+  it('should report errors from the worker', () => {
+    const { worker, remote } = createRemote();
+    const onError = jest.fn();
+    remote.onError = onError;
+
+    worker.outbox.push({ type: 'error', message: 'boom' });
+    worker.flush();
+
+    expect(onError).toHaveBeenCalledWith('boom');
+    expect(worker.terminated).toBe(true);
+  });
+});
+
+describe('SimulationRunner', () => {
+  it('should step on the main thread by default', () => {
+    const simulation = new Simulation(400, 300);
+    simulation.populate(5);
+    const runner = new SimulationRunner(simulation, () => {
+      throw new Error('not used');
+    });
+
+    runner.update(Simulation.FIXED_DT);
+
+    expect(runner.threaded).toBe(false);
+    expect(simulation.step_count).toBe(1);
+  });
+
+  it('should hand updates to the worker while threaded', () => {
+    const simulation = new Simulation(400, 300);
+    const worker = new FakeWorker();
+    const runner = new SimulationRunner(simulation, () => worker as unknown as Worker);
+
+    runner.threaded = true;
+    runner.update(Simulation.FIXED_DT);
+
+    expect(runner.threaded).toBe(true);
+    expect(simulation.step_count).toBe(0);
+    expect(worker.sent.some((message) => message.type === 'update')).toBe(true);
+  });
+
+  it('should send single steps to the worker while threaded', () => {
+    const simulation = new Simulation(400, 300);
+    const worker = new FakeWorker();
+    const runner = new SimulationRunner(simulation, () => worker as unknown as Worker);
+
+    runner.threaded = true;
+    runner.singleStep();
+
+    expect(simulation.step_count).toBe(0);
+    expect(worker.sent.some((message) => message.type === 'step')).toBe(true);
+  });
+
+  it('should fall back to the main thread when no worker can be created', () => {
+    const simulation = new Simulation(400, 300);
+    const runner = new SimulationRunner(simulation, () => {
+      throw new Error('Workers are not supported');
+    });
+
+    runner.threaded = true;
+
+    expect(runner.threaded).toBe(false);
+    expect(runner.status).toContain('Workers are not supported');
+  });
+
+  it('should fall back to the main thread when the worker fails', () => {
+    const simulation = new Simulation(400, 300);
+    const worker = new FakeWorker();
+    const runner = new SimulationRunner(simulation, () => worker as unknown as Worker);
+    runner.threaded = true;
+
+    worker.onerror?.({ message: 'crashed' });
+    runner.update(Simulation.FIXED_DT);
+
+    expect(runner.threaded).toBe(false);
+    expect(runner.status).toContain('crashed');
+    expect(simulation.step_count).toBe(1);
+  });
+
+  it('should stop the worker when switched off', () => {
+    const simulation = new Simulation(400, 300);
+    const worker = new FakeWorker();
+    const runner = new SimulationRunner(simulation, () => worker as unknown as Worker);
+
+    runner.threaded = true;
+    runner.threaded = false;
+
+    expect(worker.terminated).toBe(true);
+    expect(runner.status).toBe('Main thread');
+  });
+});